@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import Navbar from './components/Navbar';
 import Hero from './components/Hero';
 import WhyChooseUs from './components/WhyChooseUs';
@@ -14,9 +14,13 @@ import Dashboard from './components/Dashboard';
 import PrivacyPolicy from './components/PrivacyPolicy';
 import TermsOfService from './components/TermsOfService';
 import LocationLandingPage from './components/LocationLandingPage';
+import ResetPassword from './components/ResetPassword';
 import { Phone } from 'lucide-react';
-import { supabase } from './lib/supabaseClient';
-import { Car, SupabaseCar } from './types';
+import { fetchCatalog, applyDateRange } from './lib/cars';
+import { fetchCurrentStaff } from './lib/staff';
+import { onSessionExpired, RESET_PASSWORD_PATH } from './lib/auth';
+import { BookedPeriod, DateRange, countFreeUnits, fetchBookedPeriods } from './lib/availability';
+import { Car } from './types';
 
 // Public Home Page Component
 const HomePage: React.FC = () => {
@@ -25,6 +29,8 @@ const HomePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isVideoLoaded, setIsVideoLoaded] = useState<boolean>(false);
+  const [bookedPeriods, setBookedPeriods] = useState<BookedPeriod[]>([]);
+  const [searchRange, setSearchRange] = useState<DateRange | null>(null);
 
   const handleCarSelection = (carId: string) => {
     setSelectedCarId(carId);
@@ -37,90 +43,19 @@ const HomePage: React.FC = () => {
 
   useEffect(() => {
     const fetchCars = async () => {
-        try {
-          setIsLoading(true);
-        const { data, error } = await supabase
-          .from('cars')
-          .select('*');
-
-        if (error) throw error;
-
-        if (data) {
-          // Transform Supabase data to our Rich UI Car format
-          const mappedCars: Car[] = (data as SupabaseCar[]).map((row, index) => {
-             // Generate consistent UI visuals based on category/index
-             let accentColor = '#2C7873'; // Default Teal
-             let badgeIcon = 'Star';
-             let badge = undefined;
-
-             const catLower = row.category.toLowerCase();
-             if (catLower.includes('suv') || catLower.includes('4x4')) {
-               accentColor = '#E27D60'; // Orange
-               badgeIcon = 'Fire';
-             } else if (catLower.includes('luxe') || catLower.includes('luxury') || row.price_per_day > 600) {
-               accentColor = '#E8B44A'; // Gold
-               badgeIcon = 'Crown';
-               badge = 'Luxe';
-             } else if (catLower.includes('eco') || catLower.includes('citadine')) {
-               accentColor = '#2C7873'; // Teal
-               badgeIcon = 'Sparkles';
-               if (row.price_per_day < 300) badge = 'Meilleur Prix';
-             } else {
-               accentColor = '#1A3C5A'; // Navy
-               badgeIcon = 'Zap';
-             }
-             
-             // Override badge if promo exists
-             if (row.promo_price && row.promo_price < row.price_per_day) {
-               badge = 'Promo';
-               badgeIcon = 'Zap';
-             }
-
-             // Generate fake stats for UI if needed
-             const rating = 4.5 + (index % 5) * 0.1;
-             const reviewCount = 40 + (index * 12);
-             const availableCount = row.is_available ? (3 + (index % 5)) : 0;
-
-             return {
-               id: row.id.toString(),
-               make: row.brand,
-               model: row.name,
-               type: row.category,
-               transmission: row.gearbox,
-               fuel: row.fuel_type,
-               pricePerDay: row.price_per_day,
-               promoPrice: row.promo_price,
-               features: ['Climatisation', 'Bluetooth', 'Sécurité ABS', 'GPS'], // Default features as they aren't in DB
-               accessories: ['Sièges auto', 'JAWAZ'], // Hardcoded accessories for all cars
-               image: row.image_url,
-               description: row.description || undefined,
-               isAvailable: row.is_available,
-               accentColor,
-               rating,
-               reviewCount,
-               availableCount,
-               badge,
-               badgeIcon
-             };
-          });
-          
-          // Sort cars by priority: specific models first, then the rest
-          const priorityOrder = ['kardian', 'accent', 'duster', 'creta'];
-          const sortedCars = mappedCars.sort((a, b) => {
-            const modelA = a.model.toLowerCase();
-            const modelB = b.model.toLowerCase();
-            
-            const indexA = priorityOrder.findIndex(p => modelA.includes(p));
-            const indexB = priorityOrder.findIndex(p => modelB.includes(p));
-            
-            if (indexA !== -1 && indexB !== -1) return indexA - indexB;
-            if (indexA !== -1) return -1;
-            if (indexB !== -1) return 1;
-            return 0;
-          });
-          
-          setCars(sortedCars);
-        }
+      try {
+        setIsLoading(true);
+        const [catalog, periods] = await Promise.all([
+          fetchCatalog(),
+          // Without booked periods the cars still show; the booking form checks dates again
+          fetchBookedPeriods().catch((err): BookedPeriod[] => {
+            console.error('Error fetching booked periods:', err.message);
+            return [];
+          }),
+        ]);
+
+        setBookedPeriods(periods);
+        setCars(catalog);
       } catch (err: any) {
         console.error('Error fetching cars:', err.message);
         setError('Impossible de charger les véhicules. Veuillez vérifier votre connexion.');
@@ -132,6 +67,15 @@ const HomePage: React.FC = () => {
     fetchCars();
   }, []);
 
+  // Units actually free and promos active over the dates picked in the booking form
+  const carsForRange = useMemo(() => {
+    if (!searchRange) return cars;
+    return cars.map(car => ({
+      ...applyDateRange(car, searchRange),
+      availableCount: car.isAvailable ? countFreeUnits(searchRange, bookedPeriods, car.id, car.unitCount) : 0,
+    }));
+  }, [cars, bookedPeriods, searchRange]);
+
   // Remove initial loader when React is ready (don't wait for video)
   useEffect(() => {
     const loader = document.getElementById('initial-loader');
@@ -158,8 +102,8 @@ const HomePage: React.FC = () => {
           <div className="text-center py-20 text-red-500 font-bold">{error}</div>
         ) : (
           <>
-              <Fleet cars={cars} onSelectCar={handleCarSelection} />
-              <BookingForm cars={cars} selectedCarId={selectedCarId} />
+              <Fleet cars={carsForRange} onSelectCar={handleCarSelection} />
+              <BookingForm cars={carsForRange} selectedCarId={selectedCarId} onDatesChange={setSearchRange} />
           </>
         )}
 
@@ -186,16 +130,22 @@ const HomePage: React.FC = () => {
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [loading, setLoading] = useState(true);
   const [authenticated, setAuthenticated] = useState(false);
+  const [expired, setExpired] = useState(false);
+  const location = useLocation();
 
   useEffect(() => {
     const checkAuth = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user && user.email === 'admin@trevi.com') {
-        setAuthenticated(true);
+      try {
+        setAuthenticated((await fetchCurrentStaff()) !== null);
+      } catch (err: any) {
+        console.error('Error checking staff access:', err.message);
       }
       setLoading(false);
     };
     checkAuth();
+
+    // Open forms keep their drafts; the login page brings the user back here
+    return onSessionExpired(() => setExpired(true));
   }, []);
 
   if (loading) {
@@ -206,6 +156,10 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
 
+  if (expired) {
+    return <Navigate to="/login" replace state={{ from: location.pathname, expired: true }} />;
+  }
+
   return authenticated ? <>{children}</> : <Navigate to="/login" replace />;
 };
 
@@ -215,6 +169,7 @@ const App: React.FC = () => {
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/login" element={<Login />} />
+        <Route path={RESET_PASSWORD_PATH} element={<ResetPassword />} />
         <Route path="/privacy" element={<PrivacyPolicy />} />
         <Route path="/terms" element={<TermsOfService />} />
         <Route path="/location/:citySlug" element={<LocationLandingPage />} />
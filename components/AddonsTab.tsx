@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { Addon, AddonPricingType } from '../types';
+import { ADDON_PRICING_LABELS, fetchAddons, saveAddon, deleteAddon } from '../lib/addons';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const emptyAddonForm = {
+  name: '',
+  description: '',
+  price: '',
+  pricing_type: 'per_day' as AddonPricingType,
+  stock: '',
+};
+
+const AddonsTab: React.FC = () => {
+  const [addons, setAddons] = useState<Addon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyAddonForm);
+
+  useEffect(() => {
+    loadAddons();
+  }, []);
+
+  const loadAddons = async () => {
+    try {
+      setAddons(await fetchAddons());
+    } catch (err: any) {
+      console.error('Error fetching addons:', err);
+      setError('Impossible de charger les options');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (addon: Addon) => {
+    try {
+      const { id, created_at, ...input } = addon;
+      await saveAddon({ ...input, is_active: !addon.is_active }, id);
+      await loadAddons();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (addon: Addon) => {
+    if (!confirm(`Supprimer l'option "${addon.name}" ?`)) return;
+    try {
+      await deleteAddon(addon.id);
+      await loadAddons();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const price = parseInt(formData.price, 10);
+      if (isNaN(price) || price < 0) {
+        throw new Error('Le prix doit être un nombre positif');
+      }
+
+      await saveAddon({
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        price,
+        pricing_type: formData.pricing_type,
+        stock: formData.stock ? parseInt(formData.stock, 10) : null,
+        is_active: true,
+      });
+
+      setFormData(emptyAddonForm);
+      await loadAddons();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement de l\'option');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-semibold text-gray-800">Options ({addons.length})</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Addons List */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Option</th>
+                <th className="px-4 py-3 font-medium">Prix</th>
+                <th className="px-4 py-3 font-medium">Stock</th>
+                <th className="px-4 py-3 font-medium">Actif</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {addons.map(addon => (
+                <tr key={addon.id} className={`border-t border-gray-100 ${addon.is_active ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-3">
+                    <span className="font-semibold text-gray-900">{addon.name}</span>
+                    {addon.description && <span className="block text-gray-500">{addon.description}</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {addon.price} MAD {ADDON_PRICING_LABELS[addon.pricing_type]}
+                  </td>
+                  <td className="px-4 py-3">{addon.stock ?? 'Illimité'}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={addon.is_active}
+                      onChange={() => handleToggleActive(addon)}
+                      className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button onClick={() => handleDelete(addon)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {addons.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">Aucune option</p>
+          </div>
+        )}
+      </div>
+
+      {/* Add Addon Form */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Nouvelle option</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelStyle}>Nom *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Ex: Siège enfant"
+              required
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Description <span className="text-gray-500 text-xs">(optionnel)</span></label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Prix (MAD) *</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formData.price}
+              onChange={(e) => setFormData({ ...formData, price: e.target.value.replace(/\D/g, '') })}
+              required
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Tarification *</label>
+            <select
+              value={formData.pricing_type}
+              onChange={(e) => setFormData({ ...formData, pricing_type: e.target.value as AddonPricingType })}
+              className={inputStyle}
+            >
+              <option value="per_day">Par jour</option>
+              <option value="flat">Forfait par location</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelStyle}>Stock <span className="text-gray-500 text-xs">(vide = illimité)</span></label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formData.stock}
+              onChange={(e) => setFormData({ ...formData, stock: e.target.value.replace(/\D/g, '') })}
+              className={inputStyle}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {saving ? <Loader2 className="animate-spin" size={20} /> : <Plus size={20} />}
+          <span>Créer l'option</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AddonsTab;
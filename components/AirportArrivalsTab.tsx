@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { BookingRequest, SupabaseCar } from '../types';
+import { fetchBookings, isAirportDelivery, BOOKING_STATUS_LABELS } from '../lib/bookings';
+import { addDays } from '../lib/availability';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { ChevronLeft, ChevronRight, Plane, Phone, Car as CarIcon, ExternalLink } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AirportArrivalsTabProps {
+  cars: SupabaseCar[];
+}
+
+const AirportArrivalsTab: React.FC<AirportArrivalsTabProps> = ({ cars }) => {
+  const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [day, setDay] = useState(getAgencyToday());
+
+  useEffect(() => {
+    loadBookings();
+  }, []);
+
+  const loadBookings = async () => {
+    try {
+      setBookings(await fetchBookings());
+    } catch (err: any) {
+      console.error('Error fetching bookings:', err);
+      setError('Impossible de charger les réservations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCarName = (carId: string) => {
+    const car = cars.find(c => c.id.toString() === carId);
+    return car ? `${car.brand} ${car.name}` : 'Véhicule supprimé';
+  };
+
+  // Meet-and-greets of the day that still need an agent at the airport
+  const arrivals = bookings
+    .filter(b =>
+      b.pickupDate === day &&
+      isAirportDelivery(b.city) &&
+      (b.status === 'pending' || b.status === 'confirmed')
+    )
+    .sort((a, b) =>
+      (a.flightArrivalTime || a.pickupTime || '99:99').localeCompare(b.flightArrivalTime || b.pickupTime || '99:99')
+    );
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-xl font-semibold text-gray-800">Accueils Aéroport ({arrivals.length})</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDay(addDays(day, -1))}
+            className="p-2 rounded-lg bg-white shadow-sm text-gray-700 hover:bg-gray-100"
+            aria-label="Jour précédent"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => setDay(addDays(day, 1))}
+            className="p-2 rounded-lg bg-white shadow-sm text-gray-700 hover:bg-gray-100"
+            aria-label="Jour suivant"
+          >
+            <ChevronRight size={18} />
+          </button>
+          {day !== getAgencyToday() && (
+            <button onClick={() => setDay(getAgencyToday())} className="px-3 py-2 text-sm text-gold-700 hover:underline">
+              Aujourd'hui
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {arrivals.map(booking => (
+          <div key={booking.id} className="bg-white rounded-xl shadow-md p-4 flex flex-wrap items-center gap-4">
+            <div className="w-20 text-center">
+              <span className="block text-2xl font-bold text-gray-900">{booking.flightArrivalTime || '--:--'}</span>
+              <span className="text-xs text-gray-500">Arrivée</span>
+            </div>
+
+            <div className="flex-1 min-w-[200px] space-y-1 text-sm text-gray-700">
+              <p className="flex items-center gap-2 font-semibold text-gray-900">
+                <Plane size={16} className="text-gold-600" />
+                {booking.flightNumber ? (
+                  <a
+                    href={`https://www.flightradar24.com/data/flights/${booking.flightNumber.toLowerCase()}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 hover:underline"
+                  >
+                    {booking.flightNumber} <ExternalLink size={12} />
+                  </a>
+                ) : 'Vol non renseigné'}
+                <span className="font-normal text-gray-500">· {booking.city}{booking.flightTerminal && ` · ${booking.flightTerminal}`}</span>
+              </p>
+              <p>
+                {booking.fullName} ·{' '}
+                <a href={`tel:${booking.phone}`} className="inline-flex items-center gap-1 hover:underline">
+                  <Phone size={12} /> {booking.phone}
+                </a>
+              </p>
+              <p className="flex items-center gap-2 text-gray-500">
+                <CarIcon size={14} /> {getCarName(booking.carId)}
+                {booking.pickupTime && <span>· Remise prévue à {booking.pickupTime}</span>}
+              </p>
+            </div>
+
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+              booking.status === 'confirmed' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+            }`}>
+              {BOOKING_STATUS_LABELS[booking.status]}
+            </span>
+          </div>
+        ))}
+
+        {arrivals.length === 0 && (
+          <div className="bg-white rounded-xl shadow-md text-center py-12">
+            <p className="text-gray-500 text-lg">Aucun accueil aéroport le {formatDisplayDate(day)}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AirportArrivalsTab;
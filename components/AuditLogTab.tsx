@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { AuditAction, AuditChange, AuditEntry, AuditTable, SupabaseCar } from '../types';
+import {
+  fetchAuditLog,
+  formatAuditTimestamp,
+  formatAuditValue,
+  AuditFilters,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_STYLES,
+  AUDIT_FIELD_LABELS,
+  AUDIT_TABLE_LABELS,
+} from '../lib/audit';
+import { ArrowRight } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AuditLogTabProps {
+  cars: SupabaseCar[];
+}
+
+const inputStyle = "px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+
+const AuditLogTab: React.FC<AuditLogTabProps> = ({ cars }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters]);
+
+  const loadEntries = async () => {
+    setError(null);
+    try {
+      setEntries(await fetchAuditLog(filters));
+    } catch (err: any) {
+      console.error('Error fetching audit log:', err);
+      setError("Impossible de charger l'historique");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRecordName = (entry: AuditEntry) => {
+    if (entry.table_name === 'bookings') return `Réf. ${entry.record_id.slice(0, 8).toUpperCase()}`;
+    if (entry.table_name === 'cars') {
+      const car = cars.find(c => c.id.toString() === entry.record_id);
+      if (car) return `${car.brand} ${car.name}`;
+      const name = entry.changes.name;
+      if (name) return formatAuditValue(name.after ?? name.before);
+    }
+    const label = entry.changes.label || entry.changes.code;
+    return label ? formatAuditValue(label.after ?? label.before) : `#${entry.record_id}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-xl font-semibold text-gray-800">Historique des modifications</h2>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.table || ''}
+            onChange={(e) => setFilters({ ...filters, table: (e.target.value || undefined) as AuditTable | undefined })}
+            className={inputStyle}
+          >
+            <option value="">Tous les éléments</option>
+            {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map(table => (
+              <option key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action || ''}
+            onChange={(e) => setFilters({ ...filters, action: (e.target.value || undefined) as AuditAction | undefined })}
+            className={inputStyle}
+          >
+            <option value="">Toutes les actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <input
+            type="search"
+            value={filters.actor || ''}
+            onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+            placeholder="Auteur (email)"
+            className={inputStyle}
+          />
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+            aria-label="Du"
+            className={inputStyle}
+          />
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+            aria-label="Au"
+            className={inputStyle}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Date</th>
+                  <th className="px-4 py-3 font-medium">Auteur</th>
+                  <th className="px-4 py-3 font-medium">Élément</th>
+                  <th className="px-4 py-3 font-medium">Action</th>
+                  <th className="px-4 py-3 font-medium">Changements</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">{formatAuditTimestamp(entry.created_at)}</td>
+                    <td className="px-4 py-3 text-gray-700">{entry.actor_email || 'Système'}</td>
+                    <td className="px-4 py-3">
+                      <span className="block text-xs text-gray-500">{AUDIT_TABLE_LABELS[entry.table_name]}</span>
+                      <span className="font-medium text-gray-900">{getRecordName(entry)}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUDIT_ACTION_STYLES[entry.action]}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <ul className="space-y-1">
+                        {Object.entries(entry.changes).map(([field, change]: [string, AuditChange]) => (
+                          <li key={field} className="flex flex-wrap items-center gap-1 text-gray-700">
+                            <span className="font-medium">{AUDIT_FIELD_LABELS[field] || field}:</span>
+                            {entry.action !== 'insert' && (
+                              <span className="text-red-700 line-through break-all">{formatAuditValue(change.before)}</span>
+                            )}
+                            {entry.action === 'update' && <ArrowRight size={12} className="text-gray-400" />}
+                            {entry.action !== 'delete' && (
+                              <span className="text-green-700 break-all">{formatAuditValue(change.after)}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {entries.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-gray-500 text-lg">Aucune modification enregistrée</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogTab;
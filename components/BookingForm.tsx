@@ -1,16 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import { Car } from '../types';
-import { Send, Calendar, MapPin, User, Car as CarIcon, Clock, Calculator, AlertCircle } from 'lucide-react';
+import { BookingDocumentKind, Car, Coupon, DriverRequirement, InsuranceTier, PriceQuote, PricingRules } from '../types';
+import { Send, Calendar, MapPin, User, Phone, Car as CarIcon, Clock, Calculator, AlertCircle, Loader2, Ticket, X, PackagePlus, Minus, Plus, ShieldCheck, Plane, Cake, IdCard, Upload, Lock, FileDown } from 'lucide-react';
 import ScrollReveal from './ScrollReveal';
+import { FLIGHT_NUMBER_PATTERN, createBookingRequest, isAirportDelivery, normalizeFlightNumber } from '../lib/bookings';
+import { BookedPeriod, DateRange, addDays, bookingRange, fetchBookedPeriods, findConflict, findNextFreeWindow } from '../lib/availability';
+import { EMPTY_PRICING_RULES, computeQuote, computeRentalDuration, fetchPricingRules, formatDays } from '../lib/pricing';
+import { AgencyDateTime, formatDisplayDate, getAgencyNow, getAgencyToday, toAgencyTimestamp } from '../lib/dates';
+import { validateCoupon, getCouponIneligibility } from '../lib/coupons';
+import { computeDeposit, fetchInsuranceTiers } from '../lib/insurance';
+import { fetchDriverRequirements, getDriverIneligibility } from '../lib/driverRequirements';
+import { CAR_CATEGORIES } from '../lib/cars';
+import { downloadQuote, getQuoteNumber } from '../lib/quotes';
+import { ACCEPTED_DOCUMENT_TYPES, DOCUMENT_KIND_LABELS, DOCUMENT_RETENTION_DAYS, getDocumentFileError, uploadBookingDocument } from '../lib/bookingDocuments';
+import { AddonBookedPeriod, ADDON_PRICING_LABELS, buildBookingAddons, fetchAddonBookedPeriods, getAddonStockLeft } from '../lib/addons';
 
 interface BookingFormProps {
   cars: Car[];
   selectedCarId: string | null;
   defaultCity?: string;
+  onDatesChange?: (range: DateRange) => void;
 }
 
+const MAX_ADDON_QUANTITY = 4;
+const DEFAULT_TIME = '10:00';
+const LAST_DEFAULT_PICKUP_HOUR = 20;
+
+// First slot the form opens on: the next full hour today, not before the
+// usual pickup time, or tomorrow morning once the agency has closed
+const getDefaultPickup = (): AgencyDateTime => {
+  const now = getAgencyNow();
+  const nextHour = Number(now.time.slice(0, 2)) + 1;
+  if (nextHour > LAST_DEFAULT_PICKUP_HOUR) {
+    return { date: addDays(now.date, 1), time: DEFAULT_TIME };
+  }
+  const time = `${String(nextHour).padStart(2, '0')}:00`;
+  return { date: now.date, time: time > DEFAULT_TIME ? time : DEFAULT_TIME };
+};
+
 const DELIVERY_CITIES = [
   "Aéroport Casablanca",
+  "Aéroport Rabat-Salé",
   "Casa Ville",
   "Tangier",
   "Marrakech",
@@ -19,29 +48,82 @@ const DELIVERY_CITIES = [
   
 ];
 
-const BookingForm: React.FC<BookingFormProps> = ({ cars, selectedCarId, defaultCity }) => {
-  // Helper to get date string YYYY-MM-DD
-  const getToday = () => new Date().toISOString().split('T')[0];
-  const getTomorrow = () => {
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow.toISOString().split('T')[0];
-  };
+const BookingForm: React.FC<BookingFormProps> = ({ cars, selectedCarId, defaultCity, onDatesChange }) => {
+  // Dates follow the agency's calendar (Africa/Casablanca), not the browser's
+  const getToday = () => getAgencyToday();
+  const [defaultPickup] = useState(getDefaultPickup);
 
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
     carId: selectedCarId || '',
-    pickupDate: getToday(),
-    dropoffDate: getTomorrow(),
-    delivery: defaultCity || ''
+    pickupDate: defaultPickup.date,
+    pickupTime: defaultPickup.time,
+    dropoffDate: addDays(defaultPickup.date, 1),
+    returnTime: defaultPickup.time,
+    delivery: defaultCity || '',
+    flightNumber: '',
+    flightTerminal: '',
+    flightArrivalTime: '',
+    driverBirthDate: '',
+    licenceIssuedOn: ''
   });
 
   const [days, setDays] = useState<number>(1);
+  const [halfDay, setHalfDay] = useState<boolean>(false);
   const [totalPrice, setTotalPrice] = useState<number>(0);
   const [isValid, setIsValid] = useState<boolean>(true);
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [submitWarning, setSubmitWarning] = useState<string>('');
+  const [bookedPeriods, setBookedPeriods] = useState<BookedPeriod[]>([]);
+  const [suggestedWindow, setSuggestedWindow] = useState<DateRange | null>(null);
+  const [pricingRules, setPricingRules] = useState<PricingRules>(EMPTY_PRICING_RULES);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [couponInput, setCouponInput] = useState<string>('');
+  const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+  const [couponError, setCouponError] = useState<string>('');
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState<boolean>(false);
+  const [addonQuantities, setAddonQuantities] = useState<Record<number, number>>({});
+  const [addonPeriods, setAddonPeriods] = useState<AddonBookedPeriod[]>([]);
+  const [insuranceTiers, setInsuranceTiers] = useState<InsuranceTier[]>([]);
+  const [insuranceTierId, setInsuranceTierId] = useState<number | null>(null);
+  const [driverRequirements, setDriverRequirements] = useState<DriverRequirement[]>([]);
+  const [documentFiles, setDocumentFiles] = useState<Partial<Record<BookingDocumentKind, File>>>({});
+  const [documentError, setDocumentError] = useState<string>('');
+
+  // Load seasonal and duration tariffs once
+  useEffect(() => {
+    fetchPricingRules()
+      .then(setPricingRules)
+      .catch(err => console.error('Error fetching pricing rules:', err.message));
+    fetchAddonBookedPeriods()
+      .then(setAddonPeriods)
+      .catch(err => console.error('Error fetching add-on bookings:', err.message));
+    fetchInsuranceTiers()
+      .then(tiers => {
+        const activeTiers = tiers.filter(t => t.is_active);
+        setInsuranceTiers(activeTiers);
+        // Default to the cheapest cover
+        if (activeTiers.length > 0) setInsuranceTierId(activeTiers[0].id);
+      })
+      .catch(err => console.error('Error fetching insurance tiers:', err.message));
+    fetchDriverRequirements()
+      .then(setDriverRequirements)
+      .catch(err => console.error('Error fetching driver requirements:', err.message));
+  }, []);
+
+  // Drop add-ons the newly selected car doesn't support
+  useEffect(() => {
+    const supported = cars.find(c => c.id === formData.carId)?.addons || [];
+    setAddonQuantities(prev => {
+      const next: Record<number, number> = {};
+      supported.forEach(addon => {
+        if (prev[addon.id]) next[addon.id] = prev[addon.id];
+      });
+      return next;
+    });
+  }, [formData.carId, cars]);
 
   // Update form when prop changes
   useEffect(() => {
@@ -59,57 +141,189 @@ const BookingForm: React.FC<BookingFormProps> = ({ cars, selectedCarId, defaultC
     }
   }, [defaultCity]);
 
+  // Let the page show stock for the chosen dates
+  useEffect(() => {
+    if (onDatesChange && formData.pickupDate && formData.dropoffDate && formData.dropoffDate >= formData.pickupDate) {
+      onDatesChange(bookingRange(formData.pickupDate, formData.dropoffDate));
+    }
+  }, [formData.pickupDate, formData.dropoffDate, onDatesChange]);
+
+  // Load confirmed reservations of the selected car
+  useEffect(() => {
+    if (!formData.carId) {
+      setBookedPeriods([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchBookedPeriods(formData.carId)
+      .then(periods => {
+        if (!cancelled) setBookedPeriods(periods);
+      })
+      .catch(err => console.error('Error fetching booked periods:', err.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.carId]);
+
   // Recalculate days and totals
   useEffect(() => {
-    const start = new Date(formData.pickupDate);
-    const end = new Date(formData.dropoffDate);
+    setSuggestedWindow(null);
+
+    const pickup = { date: formData.pickupDate, time: formData.pickupTime };
+    const dropoff = { date: formData.dropoffDate, time: formData.returnTime };
     const selectedCar = cars.find(c => c.id === formData.carId);
 
     // Validate dates
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    if (!formData.pickupDate || !formData.dropoffDate || !formData.pickupTime || !formData.returnTime) {
       setIsValid(false);
       return;
     }
 
-    const today = new Date();
-    today.setHours(0,0,0,0);
-    
-    // Check if start date is in past (allow today)
-    const startCheck = new Date(start);
-    startCheck.setHours(0,0,0,0); // compare dates only
-    
-    if (startCheck < today) {
+    if (toAgencyTimestamp(pickup) < toAgencyTimestamp(getAgencyNow())) {
         setErrorMessage("La date de départ ne peut pas être dans le passé.");
         setIsValid(false);
         return;
     }
 
-    if (end <= start) {
+    if (toAgencyTimestamp(dropoff) <= toAgencyTimestamp(pickup)) {
       setErrorMessage("La date de retour doit être après la date de départ.");
       setIsValid(false);
       setDays(0);
       setTotalPrice(0);
+      setQuote(null);
+      return;
+    }
+
+    // Every registered unit is in maintenance or retired
+    if (selectedCar && selectedCar.unitCount === 0) {
+      setErrorMessage("Ce véhicule n'est pas disponible pour le moment.");
+      setIsValid(false);
       return;
     }
 
+    // Check the selected car is free over the whole range
+    if (selectedCar) {
+      const range = bookingRange(formData.pickupDate, formData.dropoffDate);
+      const conflict = findConflict(range, bookedPeriods, selectedCar.id, selectedCar.unitCount);
+      if (conflict) {
+        const nextWindow = findNextFreeWindow(range, bookedPeriods, selectedCar.id, selectedCar.unitCount);
+        setErrorMessage(`Ce véhicule est déjà réservé du ${formatDisplayDate(conflict.start)} au ${formatDisplayDate(conflict.end)}.`);
+        setSuggestedWindow(nextWindow);
+        setIsValid(false);
+        return;
+      }
+    }
+
+    // Check the driver's age and licence seniority on the pickup date
+    if (selectedCar && formData.driverBirthDate && formData.licenceIssuedOn) {
+      const categories = CAR_CATEGORIES.filter(category => cars.some(c => c.type === category));
+      const ineligibility = getDriverIneligibility(
+        selectedCar.type,
+        categories,
+        driverRequirements,
+        { birthDate: formData.driverBirthDate, licenceIssuedOn: formData.licenceIssuedOn },
+        formData.pickupDate
+      );
+      if (ineligibility) {
+        setErrorMessage(ineligibility);
+        setIsValid(false);
+        return;
+      }
+    }
+
     setErrorMessage('');
     setIsValid(true);
 
-    // Calculate diff
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-    setDays(diffDays);
+    // Bill 24-hour blocks, with the grace period applied to a late return
+    const duration = computeRentalDuration(pickup, dropoff, pricingRules);
+    setDays(duration.days);
+    setHalfDay(duration.halfDay);
 
     if (selectedCar) {
-      const price = selectedCar.promoPrice && selectedCar.promoPrice < selectedCar.pricePerDay 
-        ? selectedCar.promoPrice 
-        : selectedCar.pricePerDay;
-      setTotalPrice(diffDays * price);
+      // Only apply the code when this car and duration qualify for it
+      const ineligibility = appliedCoupon ? getCouponIneligibility(appliedCoupon, selectedCar.type, duration.days) : null;
+      setCouponError(ineligibility || '');
+
+      const carQuote = computeQuote(
+        selectedCar,
+        { start: formData.pickupDate, end: addDays(formData.pickupDate, duration.days) },
+        pricingRules,
+        {
+          coupon: ineligibility ? null : appliedCoupon,
+          addons: buildBookingAddons(selectedCar.addons, addonQuantities, duration.halfDay ? duration.days + 0.5 : duration.days),
+          insurance: getSelectedTier(),
+          halfDay: duration.halfDay,
+        }
+      );
+      setQuote(carQuote);
+      setTotalPrice(carQuote.total);
     } else {
+      setQuote(null);
       setTotalPrice(0);
     }
 
-  }, [formData.pickupDate, formData.dropoffDate, formData.carId, cars]);
+  }, [formData.pickupDate, formData.pickupTime, formData.dropoffDate, formData.returnTime, formData.carId, cars, bookedPeriods, pricingRules, appliedCoupon, addonQuantities, insuranceTierId, insuranceTiers, formData.driverBirthDate, formData.licenceIssuedOn, driverRequirements]);
+
+  // Keep chosen quantities within the stock left for the dates
+  useEffect(() => {
+    const supported = cars.find(c => c.id === formData.carId)?.addons || [];
+    const range = bookingRange(formData.pickupDate, formData.dropoffDate);
+    setAddonQuantities(prev => {
+      let changed = false;
+      const next = { ...prev };
+      supported.forEach(addon => {
+        const left = getAddonStockLeft(addon, range, addonPeriods);
+        if (left !== null && (next[addon.id] || 0) > left) {
+          next[addon.id] = left;
+          changed = true;
+        }
+      });
+      return changed ? next : prev;
+    });
+  }, [formData.pickupDate, formData.dropoffDate, formData.carId, cars, addonPeriods]);
+
+  const getAddonMax = (addonId: number): number => {
+    const addon = getSelectedCar()?.addons.find(a => a.id === addonId);
+    if (!addon) return 0;
+    const left = getAddonStockLeft(addon, bookingRange(formData.pickupDate, formData.dropoffDate), addonPeriods);
+    return left === null ? MAX_ADDON_QUANTITY : Math.min(left, MAX_ADDON_QUANTITY);
+  };
+
+  const changeAddonQuantity = (addonId: number, delta: number) => {
+    setAddonQuantities(prev => {
+      const quantity = Math.max(0, Math.min(getAddonMax(addonId), (prev[addonId] || 0) + delta));
+      return { ...prev, [addonId]: quantity };
+    });
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return;
+    setIsCheckingCoupon(true);
+    setCouponError('');
+    try {
+      const coupon = await validateCoupon(couponInput);
+      if (!coupon) {
+        setAppliedCoupon(null);
+        setCouponError("Ce code promo n'est pas valide ou a expiré.");
+        return;
+      }
+      setAppliedCoupon(coupon);
+      setCouponInput(coupon.code);
+    } catch (err: any) {
+      console.error('Error validating coupon:', err.message);
+      setCouponError('Impossible de vérifier le code promo. Veuillez réessayer.');
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError('');
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -120,19 +334,55 @@ const BookingForm: React.FC<BookingFormProps> = ({ cars, selectedCarId, defaultC
     return cars.find(c => c.id === formData.carId);
   };
 
-  const formatDateDisplay = (dateStr: string) => {
-    if (!dateStr) return '-';
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const handleDocumentChange = (kind: BookingDocumentKind, file?: File) => {
+    setDocumentError('');
+    if (file) {
+      const fileError = getDocumentFileError(file);
+      if (fileError) {
+        setDocumentError(fileError);
+        return;
+      }
+    }
+    setDocumentFiles(prev => ({ ...prev, [kind]: file }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleDownloadQuote = () => {
+    const car = getSelectedCar();
+    if (!car || !quote) return;
+    downloadQuote({
+      number: getQuoteNumber(),
+      issuedOn: getToday(),
+      customerName: formData.name || undefined,
+      customerPhone: formData.phone || undefined,
+      carName: `${car.make} ${car.model}`,
+      carCategory: car.type,
+      pickupDate: formData.pickupDate,
+      pickupTime: formData.pickupTime,
+      dropoffDate: formData.dropoffDate,
+      returnTime: formData.returnTime,
+      city: formData.delivery || 'À définir',
+      insuranceName: getSelectedTier()?.name,
+      lines: quote.lines,
+      total: quote.total,
+      deposit: computeDeposit(car.deposit, getSelectedTier()),
+    });
+  };
+
+  const getSelectedTier = (): InsuranceTier | undefined => {
+    return insuranceTiers.find(t => t.id === insuranceTierId);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isValid) return;
+    if (!isValid || isSubmitting) return;
     if (!formData.name) {
         setErrorMessage("Veuillez entrer votre nom.");
         return;
     }
+    if (!formData.phone) {
+        setErrorMessage("Veuillez entrer votre numéro de téléphone.");
+        return;
+    }
     if (!formData.carId) {
         setErrorMessage("Veuillez sélectionner une voiture.");
         return;
@@ -144,26 +394,109 @@ const BookingForm: React.FC<BookingFormProps> = ({ cars, selectedCarId, defaultC
 
     const car = getSelectedCar();
     const carName = car ? `${car.make} ${car.model}` : 'Non Sélectionné';
+    const bookingAddons = car ? buildBookingAddons(car.addons, addonQuantities, billedDays) : [];
+    const tier = getSelectedTier();
+    const deposit = car ? computeDeposit(car.deposit, tier) : undefined;
+    const isAirport = isAirportDelivery(formData.delivery);
+
+    // Open the tab synchronously so popup blockers don't swallow it after the await
+    const whatsappWindow = window.open('', '_blank');
+    setIsSubmitting(true);
+    setSubmitWarning('');
+
+    // Persist the request first; a failed save must never block the WhatsApp handoff
+    let reference: string | null = null;
+    let documentsSent = 0;
+    let finalPrice = totalPrice;
+    let couponLine = quote?.couponDiscount && appliedCoupon ? { code: appliedCoupon.code, discount: quote.couponDiscount } : null;
+    try {
+      const booking = await createBookingRequest({
+        fullName: formData.name,
+        phone: formData.phone,
+        carId: formData.carId,
+        pickupDate: formData.pickupDate,
+        dropoffDate: formData.dropoffDate,
+        pickupTime: formData.pickupTime,
+        returnTime: formData.returnTime,
+        city: formData.delivery,
+        flightNumber: isAirport ? formData.flightNumber : undefined,
+        flightTerminal: isAirport ? formData.flightTerminal : undefined,
+        flightArrivalTime: isAirport ? formData.flightArrivalTime : undefined,
+        driverBirthDate: formData.driverBirthDate,
+        licenceIssuedOn: formData.licenceIssuedOn,
+        totalPrice,
+        priceLines: quote?.lines,
+        couponCode: quote?.couponDiscount ? appliedCoupon?.code : undefined,
+        discountAmount: quote?.couponDiscount || undefined,
+        addons: bookingAddons,
+        insuranceTierId: tier?.id,
+        insuranceName: tier?.name,
+        depositAmount: deposit,
+      });
+      reference = booking.id.slice(0, 8).toUpperCase();
+      // The code may have run out meanwhile: quote what was actually stored
+      finalPrice = booking.totalPrice;
+      couponLine = booking.couponCode ? { code: booking.couponCode, discount: booking.discountAmount || 0 } : null;
+
+      // Documents are a convenience; the agent can still check them at handover
+      const failedDocuments: string[] = [];
+      for (const [kind, file] of Object.entries(documentFiles) as [BookingDocumentKind, File | undefined][]) {
+        if (!file) continue;
+        try {
+          await uploadBookingDocument(booking.id, kind, file);
+          documentsSent += 1;
+        } catch (err: any) {
+          console.error('Error uploading booking document:', err.message);
+          failedDocuments.push(DOCUMENT_KIND_LABELS[kind]);
+        }
+      }
+      if (failedDocuments.length > 0) {
+        setSubmitWarning(`Votre demande est enregistrée, mais ces documents n'ont pas pu être envoyés : ${failedDocuments.join(', ')}. Présentez-les à la remise du véhicule.`);
+      }
+    } catch (err: any) {
+      console.error('Error saving booking request:', err.message);
+      setSubmitWarning("Votre demande n'a pas pu être enregistrée en ligne. Envoyez bien le message WhatsApp pour que l'agence la reçoive.");
+    } finally {
+      setIsSubmitting(false);
+    }
     
     // Construct WhatsApp Message
     const message = `Bonjour, je suis ${formData.name}.
   
-Je souhaite réserver une ${carName} pour ${days} jours.
+Je souhaite réserver une ${carName} pour ${durationLabel}.
   
-Détails:
-- Livraison: ${formData.delivery}
-- Date de départ: ${formatDateDisplay(formData.pickupDate)}
-- Date de retour: ${formatDateDisplay(formData.dropoffDate)}
-- Prix total: ${totalPrice} MAD
+Détails:${reference ? `
+- Référence: ${reference}` : `
+- Demande non enregistrée en ligne`}
+- Téléphone: ${formData.phone}
+- Livraison: ${formData.delivery}${isAirport ? `
+- Vol: ${normalizeFlightNumber(formData.flightNumber)}${formData.flightTerminal ? ` (${formData.flightTerminal})` : ''}, arrivée prévue à ${formData.flightArrivalTime}` : ''}
+- Date de départ: ${formatDisplayDate(formData.pickupDate)} à ${formData.pickupTime}
+- Date de retour: ${formatDisplayDate(formData.dropoffDate)} à ${formData.returnTime}${bookingAddons.length > 0 ? `
+- Options: ${bookingAddons.map(a => `${a.name}${a.quantity > 1 ? ` x${a.quantity}` : ''}`).join(', ')}` : ''}${tier ? `
+- Assurance: ${tier.name} (franchise ${tier.franchise_percent}%)` : ''}${couponLine ? `
+- Code promo: ${couponLine.code} (-${couponLine.discount} MAD)` : ''}
+- Documents envoyés en ligne: ${documentsSent > 0 ? 'Oui' : 'Non'}
+- Prix total: ${finalPrice} MAD${deposit !== undefined ? `
+- Caution bloquée: ${deposit} MAD` : ''}
   
 Merci de me confirmer la disponibilité.`;
     
     // Encode and open
     const encodedMessage = encodeURIComponent(message);
-    window.open(`https://wa.me/212616925572?text=${encodedMessage}`, '_blank');
+    const whatsappUrl = `https://wa.me/212616925572?text=${encodedMessage}`;
+    if (whatsappWindow) {
+      whatsappWindow.location.href = whatsappUrl;
+    } else {
+      window.location.href = whatsappUrl;
+    }
   };
 
+  const billedDays = halfDay ? days + 0.5 : days;
+  const durationLabel = `${formatDays(days)}${halfDay ? ' et demi' : ''}`;
   const selectedCar = getSelectedCar();
+  const selectedTier = getSelectedTier();
+  const depositAmount = selectedCar ? computeDeposit(selectedCar.deposit, selectedTier) : 0;
   
   // Common Input Style - Compact on mobile
   const inputStyle = "w-full px-3 py-2.5 md:px-4 md:py-3.5 rounded-lg border border-gray-200 bg-white text-gray-900 focus:ring-2 focus:ring-gold-500 focus:border-transparent outline-none transition-all placeholder-gray-400 text-sm md:text-base";
@@ -199,6 +532,88 @@ Merci de me confirmer la disponibilité.`;
                     />
                   </div>
 
+                  {/* Phone */}
+                  <div>
+                    <label htmlFor="booking-phone" className={labelStyle}>
+                      <Phone size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Téléphone
+                    </label>
+                    <input
+                      id="booking-phone"
+                      required
+                      type="tel"
+                      name="phone"
+                      value={formData.phone}
+                      onChange={handleChange}
+                      className={inputStyle}
+                      placeholder="Ex: 06 12 34 56 78"
+                    />
+                  </div>
+
+                  {/* Driver */}
+                  <div className="grid grid-cols-2 gap-3 md:gap-6">
+                    <div>
+                      <label htmlFor="booking-birth-date" className={labelStyle}>
+                        <Cake size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Date de naissance
+                      </label>
+                      <input
+                        id="booking-birth-date"
+                        required
+                        type="date"
+                        name="driverBirthDate"
+                        value={formData.driverBirthDate}
+                        max={getToday()}
+                        onChange={handleChange}
+                        className={inputStyle}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="booking-licence-date" className={labelStyle}>
+                        <IdCard size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Permis obtenu le
+                      </label>
+                      <input
+                        id="booking-licence-date"
+                        required
+                        type="date"
+                        name="licenceIssuedOn"
+                        value={formData.licenceIssuedOn}
+                        max={getToday()}
+                        onChange={handleChange}
+                        className={inputStyle}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Documents */}
+                  <div>
+                    <span className={labelStyle}>
+                      <Upload size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Documents <span className="font-normal text-gray-400">(optionnel)</span>
+                    </span>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {(Object.keys(DOCUMENT_KIND_LABELS) as BookingDocumentKind[]).map(kind => (
+                        <label key={kind} className="flex items-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-gray-300 text-xs md:text-sm text-gray-600 cursor-pointer hover:border-gold-500">
+                          <input
+                            type="file"
+                            accept={ACCEPTED_DOCUMENT_TYPES}
+                            onChange={(e) => handleDocumentChange(kind, e.target.files?.[0])}
+                            className="sr-only"
+                          />
+                          <Upload size={14} className="shrink-0 text-gray-400" />
+                          <span className="truncate">{documentFiles[kind]?.name || DOCUMENT_KIND_LABELS[kind]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="mt-1.5 text-xs text-gray-500 flex items-center gap-1.5">
+                      <Lock size={12} className="shrink-0" />
+                      Stockage privé, visible uniquement par notre équipe, supprimé {DOCUMENT_RETENTION_DAYS} jours après le retour.
+                    </p>
+                    {documentError && (
+                      <p className="mt-1.5 text-xs md:text-sm text-amber-700 flex items-center gap-1.5">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {documentError}
+                      </p>
+                    )}
+                  </div>
+
                   {/* Car Selection */}
                   <div>
                     <label htmlFor="booking-car" className={labelStyle}>
@@ -241,6 +656,56 @@ Merci de me confirmer la disponibilité.`;
                     </select>
                   </div>
 
+                  {/* Flight details for airport meet-and-greets */}
+                  {isAirportDelivery(formData.delivery) && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 md:gap-6">
+                      <div className="col-span-2 md:col-span-1">
+                        <label htmlFor="booking-flight" className={labelStyle}>
+                          <Plane size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> N° de vol
+                        </label>
+                        <input
+                          id="booking-flight"
+                          required
+                          type="text"
+                          name="flightNumber"
+                          value={formData.flightNumber}
+                          onChange={handleChange}
+                          pattern={FLIGHT_NUMBER_PATTERN}
+                          title="Numéro de vol, ex : AT205"
+                          className={`${inputStyle} uppercase`}
+                          placeholder="Ex: AT205"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="booking-terminal" className={labelStyle}>Terminal</label>
+                        <input
+                          id="booking-terminal"
+                          type="text"
+                          name="flightTerminal"
+                          value={formData.flightTerminal}
+                          onChange={handleChange}
+                          className={inputStyle}
+                          placeholder="Ex: Terminal 1"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="booking-arrival" className={labelStyle}>Arrivée prévue</label>
+                        <input
+                          id="booking-arrival"
+                          required
+                          type="time"
+                          name="flightArrivalTime"
+                          value={formData.flightArrivalTime}
+                          onChange={handleChange}
+                          className={inputStyle}
+                        />
+                      </div>
+                      <p className="col-span-2 md:col-span-3 -mt-1 text-xs md:text-sm text-gray-500">
+                        Nous suivons votre vol : en cas de retard, notre agent vous attend sans frais.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Dates - FORCED 2 COLUMNS ON MOBILE */}
                   <div className="grid grid-cols-2 gap-3 md:gap-6">
                     <div>
@@ -271,25 +736,207 @@ Merci de me confirmer la disponibilité.`;
                         className={inputStyle}
                       />
                     </div>
+                    <div>
+                      <label htmlFor="booking-pickup-time" className={labelStyle}>
+                        <Clock size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Heure de départ
+                      </label>
+                      <input
+                        id="booking-pickup-time"
+                        required
+                        type="time"
+                        step={1800}
+                        name="pickupTime"
+                        value={formData.pickupTime}
+                        onChange={handleChange}
+                        className={inputStyle}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="booking-return-time" className={labelStyle}>
+                        <Clock size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Heure de retour
+                      </label>
+                      <input
+                        id="booking-return-time"
+                        required
+                        type="time"
+                        step={1800}
+                        name="returnTime"
+                        value={formData.returnTime}
+                        onChange={handleChange}
+                        className={inputStyle}
+                      />
+                    </div>
+                  </div>
+                  {halfDay && (
+                    <p className="-mt-2 text-xs md:text-sm text-gray-500">
+                      Retour après l'heure de départ : une demi-journée est ajoutée.
+                    </p>
+                  )}
+
+                  {/* Add-ons */}
+                  {selectedCar && selectedCar.addons.length > 0 && (
+                    <div>
+                      <span className={labelStyle}>
+                        <PackagePlus size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Options <span className="font-normal text-gray-400">(optionnel)</span>
+                      </span>
+                      <div className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                        {selectedCar.addons.map(addon => {
+                          const quantity = addonQuantities[addon.id] || 0;
+                          const max = getAddonMax(addon.id);
+                          return (
+                            <div key={addon.id} className="flex items-center justify-between gap-3 px-3 py-2 md:px-4">
+                              <div className="text-sm">
+                                <span className="font-medium text-gray-900">{addon.name}</span>
+                                <span className="block text-xs text-gray-500">
+                                  {addon.price} MAD {ADDON_PRICING_LABELS[addon.pricing_type]}
+                                  {max === 0 && ' — Épuisé pour ces dates'}
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <button
+                                  type="button"
+                                  onClick={() => changeAddonQuantity(addon.id, -1)}
+                                  disabled={quantity === 0}
+                                  className="w-7 h-7 rounded-full border border-gray-300 flex items-center justify-center text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                                  aria-label={`Retirer ${addon.name}`}
+                                >
+                                  <Minus size={14} />
+                                </button>
+                                <span className="w-5 text-center text-sm font-bold">{quantity}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => changeAddonQuantity(addon.id, 1)}
+                                  disabled={quantity >= max}
+                                  className="w-7 h-7 rounded-full border border-gray-300 flex items-center justify-center text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                                  aria-label={`Ajouter ${addon.name}`}
+                                >
+                                  <Plus size={14} />
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Insurance */}
+                  {insuranceTiers.length > 0 && (
+                    <div>
+                      <span className={labelStyle}>
+                        <ShieldCheck size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Assurance
+                      </span>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        {insuranceTiers.map(tier => (
+                          <label
+                            key={tier.id}
+                            className={`cursor-pointer rounded-lg border px-3 py-2.5 text-sm transition-all ${
+                              insuranceTierId === tier.id ? 'border-gold-500 bg-gold-50 ring-1 ring-gold-500' : 'border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name="insuranceTier"
+                              checked={insuranceTierId === tier.id}
+                              onChange={() => setInsuranceTierId(tier.id)}
+                              className="sr-only"
+                            />
+                            <span className="block font-bold text-gray-900">{tier.name}</span>
+                            <span className="block text-xs text-gray-500">
+                              Franchise {tier.franchise_percent}% · {tier.price_per_day > 0 ? `+${tier.price_per_day} MAD/jour` : 'Incluse'}
+                            </span>
+                            {selectedCar && (
+                              <span className="block text-xs text-gray-500">
+                                Caution : {computeDeposit(selectedCar.deposit, tier).toLocaleString()} MAD
+                              </span>
+                            )}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Promo Code */}
+                  <div>
+                    <label htmlFor="booking-coupon" className={labelStyle}>
+                      <Ticket size={16} className="text-gold-500 md:w-[18px] md:h-[18px]"/> Code Promo <span className="font-normal text-gray-400">(optionnel)</span>
+                    </label>
+                    {appliedCoupon ? (
+                      <div className="flex items-center justify-between px-3 py-2.5 md:px-4 md:py-3 rounded-lg border border-green-200 bg-green-50 text-green-700 text-sm md:text-base">
+                        <span className="font-bold tracking-wider">{appliedCoupon.code}</span>
+                        <button type="button" onClick={handleRemoveCoupon} className="hover:text-green-900" aria-label="Retirer le code promo">
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <input
+                          id="booking-coupon"
+                          type="text"
+                          value={couponInput}
+                          onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              handleApplyCoupon();
+                            }
+                          }}
+                          className={`${inputStyle} uppercase`}
+                          placeholder="Ex: SUMMER10"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleApplyCoupon}
+                          disabled={!couponInput.trim() || isCheckingCoupon}
+                          className="px-4 rounded-lg bg-gray-900 text-white text-sm font-bold hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                        >
+                          {isCheckingCoupon ? <Loader2 size={16} className="animate-spin" /> : 'Appliquer'}
+                        </button>
+                      </div>
+                    )}
+                    {couponError && (
+                      <p className="mt-1.5 text-xs md:text-sm text-amber-700 flex items-center gap-1.5">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {couponError}
+                      </p>
+                    )}
                   </div>
 
                   {/* Error Message */}
                   {!isValid && errorMessage && (
-                      <div className="bg-red-50 text-red-600 p-3 rounded-lg flex items-center gap-2 text-xs md:text-sm">
-                          <AlertCircle size={16} />
-                          {errorMessage}
+                      <div className="bg-red-50 text-red-600 p-3 rounded-lg text-xs md:text-sm">
+                          <div className="flex items-center gap-2">
+                              <AlertCircle size={16} className="shrink-0" />
+                              {errorMessage}
+                          </div>
+                          {suggestedWindow && (
+                              <button
+                                type="button"
+                                onClick={() => setFormData(prev => ({ ...prev, pickupDate: suggestedWindow.start, dropoffDate: suggestedWindow.end }))}
+                                className="mt-2 ml-6 font-bold underline hover:text-red-800"
+                              >
+                                Prochaine disponibilité : du {formatDisplayDate(suggestedWindow.start)} au {formatDisplayDate(suggestedWindow.end)}
+                              </button>
+                          )}
+                      </div>
+                  )}
+
+                  {submitWarning && (
+                      <div className="bg-amber-50 text-amber-800 p-3 rounded-lg text-xs md:text-sm flex items-center gap-2">
+                          <AlertCircle size={16} className="shrink-0" />
+                          {submitWarning}
                       </div>
                   )}
 
                   <button
                     type="submit"
-                    disabled={!isValid || !formData.carId || !formData.name || !formData.delivery}
+                    disabled={!isValid || isSubmitting || !formData.carId || !formData.name || !formData.phone || !formData.delivery}
                     className={`w-full font-bold py-3.5 md:py-4 rounded-lg shadow-lg transition-all flex items-center justify-center gap-2 mt-2 text-white text-sm md:text-base
-                        ${(!isValid || !formData.carId || !formData.name || !formData.delivery) 
+                        ${(!isValid || isSubmitting || !formData.carId || !formData.name || !formData.phone || !formData.delivery) 
                             ? 'bg-gray-400 cursor-not-allowed' 
                             : 'bg-green-500 hover:bg-green-600 hover:shadow-green-500/30 hover:-translate-y-1'}`}
                   >
-                    <Send size={18} />
+                    {isSubmitting ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
                     Demander la Réservation via WhatsApp
                   </button>
                 </form>
@@ -359,11 +1006,11 @@ Merci de me confirmer la disponibilité.`;
                                 <span className="block text-[10px] md:text-xs text-gray-400 uppercase tracking-wider">Durée</span>
                                 <div className="flex justify-between items-center">
                                     <span className="font-medium text-sm md:text-base">
-                                        {formatDateDisplay(formData.pickupDate)} → {formatDateDisplay(formData.dropoffDate)}
+                                        {formatDisplayDate(formData.pickupDate)} {formData.pickupTime} → {formatDisplayDate(formData.dropoffDate)} {formData.returnTime}
                                     </span>
                                     {days > 0 && (
                                         <span className="bg-gold-500/20 text-gold-400 text-[10px] md:text-xs px-2 py-1 rounded w-fit">
-                                            {days} Jours
+                                            {durationLabel}
                                         </span>
                                     )}
                                 </div>
@@ -377,13 +1024,18 @@ Merci de me confirmer la disponibilité.`;
                     {/* Calculation */}
                     {selectedCar && days > 0 ? (
                         <div className="animate-fade-in">
-                            <div className="flex justify-between text-gray-400 text-xs md:text-sm mb-1.5 md:mb-2">
-                                <span>Prix journalier</span>
-                                <span>{selectedCar.promoPrice || selectedCar.pricePerDay} MAD</span>
-                            </div>
-                            <div className="flex justify-between text-gray-400 text-xs md:text-sm mb-3 md:mb-4">
-                                <span>Durée</span>
-                                <span>x {days} jours</span>
+                            <div className="mb-3 md:mb-4 space-y-1.5 md:space-y-2">
+                                {quote?.lines.map((line, idx) => (
+                                    <div key={idx} className="flex justify-between gap-4 text-gray-400 text-xs md:text-sm">
+                                        <span>
+                                            {line.label}
+                                            {line.detail && <span className="block text-[10px] md:text-xs text-gray-500">{line.detail}</span>}
+                                        </span>
+                                        <span className={`whitespace-nowrap ${line.amount < 0 ? 'text-green-400' : ''}`}>
+                                            {line.amount < 0 ? '−' : ''}{Math.abs(line.amount).toLocaleString()} MAD
+                                        </span>
+                                    </div>
+                                ))}
                             </div>
                             <div className="flex justify-between items-end border-t border-gray-700 pt-3 md:pt-4">
                                 <span className="font-bold text-white text-sm md:text-base">TOTAL ESTIMÉ</span>
@@ -391,6 +1043,19 @@ Merci de me confirmer la disponibilité.`;
                                     {totalPrice.toLocaleString()} <span className="text-sm md:text-lg text-gold-500/70 font-medium">MAD</span>
                                 </span>
                             </div>
+                            <div className="flex justify-between items-center mt-2 md:mt-3 text-xs md:text-sm text-gray-400">
+                                <span>Caution bloquée (restituée au retour)</span>
+                                <span className="whitespace-nowrap font-medium text-white">{depositAmount.toLocaleString()} MAD</span>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={handleDownloadQuote}
+                                disabled={!isValid || !quote}
+                                className="mt-4 md:mt-6 w-full flex items-center justify-center gap-2 py-2.5 rounded-lg border border-gold-500/40 text-gold-400 text-xs md:text-sm font-bold hover:bg-gold-500/10 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                            >
+                                <FileDown size={16} />
+                                Télécharger le devis
+                            </button>
                         </div>
                     ) : (
                         <div className="text-center text-gray-500 py-4 bg-white/5 rounded-lg border border-white/5 border-dashed text-sm md:text-base">
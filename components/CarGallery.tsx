@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { CarPhoto } from '../types';
+import { useSwipe } from './Lightbox';
+import ResponsiveImage from './ResponsiveImage';
+
+interface CarGalleryProps {
+  images: CarPhoto[];
+  alt: string;
+  onOpen: (index: number) => void;
+}
+
+// Swipeable photo strip of a fleet card; clicking a photo opens it full screen
+const CarGallery: React.FC<CarGalleryProps> = ({ images, alt, onOpen }) => {
+  const [index, setIndex] = useState(0);
+  const hasMany = images.length > 1;
+
+  const showPrev = () => setIndex(prev => Math.max(prev - 1, 0));
+  const showNext = () => setIndex(prev => Math.min(prev + 1, images.length - 1));
+  const swipe = useSwipe(showPrev, showNext);
+
+  return (
+    <div className="absolute inset-0" {...(hasMany ? swipe : {})}>
+      <div
+        className="flex h-full transition-transform duration-300 ease-out"
+        style={{ transform: `translateX(-${index * 100}%)` }}
+      >
+        {images.map((photo, i) => (
+          <button
+            key={photo.url}
+            type="button"
+            onClick={() => onOpen(i)}
+            className="relative w-full h-full shrink-0 overflow-hidden cursor-zoom-in"
+            aria-label={`Agrandir la photo ${i + 1}`}
+          >
+            <ResponsiveImage
+              photo={photo}
+              alt={i === 0 ? alt : `${alt} - photo ${i + 1}`}
+              sizes="(min-width: 768px) 50vw, 100vw"
+              className="w-full h-full object-cover transition-transform duration-500 ease-out group-hover:scale-105"
+            />
+          </button>
+        ))}
+      </div>
+
+      {hasMany && (
+        <>
+          {index > 0 && (
+            <button
+              type="button"
+              onClick={showPrev}
+              className="hidden md:flex absolute left-3 top-1/2 -translate-y-1/2 z-10 p-2 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 hover:bg-black/60 transition-opacity"
+              aria-label="Photo précédente"
+            >
+              <ChevronLeft size={20} />
+            </button>
+          )}
+          {index < images.length - 1 && (
+            <button
+              type="button"
+              onClick={showNext}
+              className="hidden md:flex absolute right-3 top-1/2 -translate-y-1/2 z-10 p-2 rounded-full bg-black/40 text-white opacity-0 group-hover:opacity-100 hover:bg-black/60 transition-opacity"
+              aria-label="Photo suivante"
+            >
+              <ChevronRight size={20} />
+            </button>
+          )}
+          <div className="absolute bottom-16 md:bottom-20 left-1/2 -translate-x-1/2 z-10 flex gap-1.5">
+            {images.map((photo, i) => (
+              <button
+                key={photo.url}
+                type="button"
+                onClick={() => setIndex(i)}
+                className={`h-1.5 rounded-full transition-all ${i === index ? 'w-5 bg-white' : 'w-1.5 bg-white/60'}`}
+                aria-label={`Voir la photo ${i + 1}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CarGallery;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, Star, X } from 'lucide-react';
+import { CarPhoto } from '../types';
+
+// A saved picture (photo) or one picked in this form and not uploaded yet (file)
+export interface GalleryItem {
+  key: string;
+  photo?: CarPhoto;
+  file?: File;
+  preview: string;
+}
+
+interface CarGalleryEditorProps {
+  items: GalleryItem[];
+  coverKey: string | null;
+  onChange: (items: GalleryItem[]) => void;
+  onCoverChange: (key: string) => void;
+}
+
+export const galleryItemFromFile = (file: File): GalleryItem => ({
+  key: `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  file,
+  preview: URL.createObjectURL(file),
+});
+
+export const galleryItemFromPhoto = (photo: CarPhoto): GalleryItem => ({ key: photo.url, photo, preview: photo.url });
+
+const moveItem = (items: GalleryItem[], from: number, to: number): GalleryItem[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// Thumbnails reordered by drag and drop, or with the arrow buttons on touch screens
+const CarGalleryEditor: React.FC<CarGalleryEditorProps> = ({ items, coverKey, onChange, onCoverChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const added = files.map(galleryItemFromFile);
+    onChange([...items, ...added]);
+    if (!coverKey) onCoverChange(added[0].key);
+  };
+
+  const handleRemove = (index: number) => {
+    const removed = items[index];
+    if (removed.file) URL.revokeObjectURL(removed.preview);
+    const next = items.filter((_, i) => i !== index);
+    onChange(next);
+    if (removed.key === coverKey && next.length > 0) onCoverChange(next[0].key);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onChange(moveItem(items, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {items.map((item, index) => {
+          const isCover = item.key === coverKey;
+          return (
+            <div
+              key={item.key}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative rounded-lg overflow-hidden border-2 cursor-move bg-gray-100 ${
+                isCover ? 'border-gold-500' : 'border-transparent'
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <img src={item.preview} alt={`Photo ${index + 1}`} className="w-full h-28 object-cover pointer-events-none" />
+
+              <button
+                type="button"
+                onClick={() => handleRemove(index)}
+                className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white hover:bg-black/80"
+                aria-label="Retirer la photo"
+              >
+                <X size={14} />
+              </button>
+
+              <div className="absolute bottom-0 inset-x-0 flex items-center justify-between gap-1 p-1 bg-black/50 text-white">
+                <button
+                  type="button"
+                  onClick={() => onChange(moveItem(items, index, index - 1))}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-white/20 disabled:opacity-30"
+                  aria-label="Déplacer avant"
+                >
+                  <ChevronLeft size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onCoverChange(item.key)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs ${isCover ? 'text-gold-400' : 'hover:bg-white/20'}`}
+                  aria-pressed={isCover}
+                >
+                  <Star size={12} className={isCover ? 'fill-current' : ''} />
+                  {isCover ? 'Couverture' : 'Choisir'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(moveItem(items, index, index + 1))}
+                  disabled={index === items.length - 1}
+                  className="p-1 rounded hover:bg-white/20 disabled:opacity-30"
+                  aria-label="Déplacer après"
+                >
+                  <ChevronRight size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <label className="flex flex-col items-center justify-center gap-1 h-28 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer text-gray-500 hover:bg-gray-50">
+          <ImagePlus size={20} />
+          <span className="text-xs">Ajouter des photos</span>
+          <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Glissez les photos pour changer leur ordre. La couverture est affichée en premier dans le catalogue.
+      </p>
+    </div>
+  );
+};
+
+export default CarGalleryEditor;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Coupon, CouponDiscountType } from '../types';
+import { fetchCoupons, saveCoupon, deleteCoupon } from '../lib/coupons';
+import { CAR_CATEGORIES } from '../lib/cars';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const emptyCouponForm = {
+  code: '',
+  discount_type: 'percent' as CouponDiscountType,
+  discount_value: '',
+  max_uses: '',
+  expires_on: '',
+  min_days: '',
+  allowed_categories: [] as string[],
+};
+
+const CouponsTab: React.FC = () => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyCouponForm);
+  const today = getAgencyToday();
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const loadCoupons = async () => {
+    try {
+      setCoupons(await fetchCoupons());
+    } catch (err: any) {
+      console.error('Error fetching coupons:', err);
+      setError('Impossible de charger les codes promo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCategory = (category: string) => {
+    const categories = formData.allowed_categories.includes(category)
+      ? formData.allowed_categories.filter(c => c !== category)
+      : [...formData.allowed_categories, category];
+    setFormData({ ...formData, allowed_categories: categories });
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const { id, created_at, used_count, ...input } = coupon;
+      await saveCoupon({ ...input, is_active: !coupon.is_active }, id);
+      await loadCoupons();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Supprimer le code ${coupon.code} ?`)) return;
+    try {
+      await deleteCoupon(coupon.id);
+      await loadCoupons();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const discountValue = parseInt(formData.discount_value, 10);
+      if (isNaN(discountValue) || discountValue <= 0) {
+        throw new Error('La valeur de la remise doit être un nombre positif');
+      }
+      if (formData.discount_type === 'percent' && discountValue > 100) {
+        throw new Error('Une remise en pourcentage ne peut pas dépasser 100%');
+      }
+
+      await saveCoupon({
+        code: formData.code,
+        discount_type: formData.discount_type,
+        discount_value: discountValue,
+        max_uses: formData.max_uses ? parseInt(formData.max_uses, 10) : null,
+        expires_on: formData.expires_on || null,
+        min_days: formData.min_days ? parseInt(formData.min_days, 10) : null,
+        allowed_categories: formData.allowed_categories.length ? formData.allowed_categories : null,
+        is_active: true,
+      });
+
+      setFormData(emptyCouponForm);
+      await loadCoupons();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement du code promo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-semibold text-gray-800">Codes Promo ({coupons.length})</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Coupons List */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Code</th>
+                <th className="px-4 py-3 font-medium">Remise</th>
+                <th className="px-4 py-3 font-medium">Utilisations</th>
+                <th className="px-4 py-3 font-medium">Expiration</th>
+                <th className="px-4 py-3 font-medium">Conditions</th>
+                <th className="px-4 py-3 font-medium">Actif</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map(coupon => {
+                const isExpired = !!coupon.expires_on && coupon.expires_on < today;
+                const isExhausted = coupon.max_uses !== null && coupon.used_count >= coupon.max_uses;
+                return (
+                  <tr key={coupon.id} className={`border-t border-gray-100 ${isExpired || isExhausted ? 'opacity-50' : ''}`}>
+                    <td className="px-4 py-3 font-mono font-semibold text-gray-900">{coupon.code}</td>
+                    <td className="px-4 py-3">
+                      {coupon.discount_type === 'percent' ? `-${coupon.discount_value}%` : `-${coupon.discount_value} MAD`}
+                    </td>
+                    <td className="px-4 py-3">
+                      {coupon.used_count}{coupon.max_uses !== null ? ` / ${coupon.max_uses}` : ''}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {coupon.expires_on ? formatDisplayDate(coupon.expires_on) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">
+                      {coupon.min_days ? `${coupon.min_days}+ jours` : ''}
+                      {coupon.min_days && coupon.allowed_categories?.length ? ' · ' : ''}
+                      {coupon.allowed_categories?.join(', ')}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={coupon.is_active}
+                        onChange={() => handleToggleActive(coupon)}
+                        className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button onClick={() => handleDelete(coupon)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {coupons.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">Aucun code promo</p>
+          </div>
+        )}
+      </div>
+
+      {/* Add Coupon Form */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Nouveau code promo</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelStyle}>Code *</label>
+            <input
+              type="text"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+              placeholder="Ex: SUMMER10"
+              required
+              className={`${inputStyle} uppercase`}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Type de remise *</label>
+            <select
+              value={formData.discount_type}
+              onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as CouponDiscountType })}
+              className={inputStyle}
+            >
+              <option value="percent">Pourcentage (%)</option>
+              <option value="fixed">Montant fixe (MAD)</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelStyle}>Valeur *</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formData.discount_value}
+              onChange={(e) => setFormData({ ...formData, discount_value: e.target.value.replace(/\D/g, '') })}
+              required
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Utilisations max <span className="text-gray-500 text-xs">(optionnel)</span></label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formData.max_uses}
+              onChange={(e) => setFormData({ ...formData, max_uses: e.target.value.replace(/\D/g, '') })}
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Expire le <span className="text-gray-500 text-xs">(optionnel, inclus)</span></label>
+            <input
+              type="date"
+              value={formData.expires_on}
+              onChange={(e) => setFormData({ ...formData, expires_on: e.target.value })}
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Durée minimum (jours) <span className="text-gray-500 text-xs">(optionnel)</span></label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={formData.min_days}
+              onChange={(e) => setFormData({ ...formData, min_days: e.target.value.replace(/\D/g, '') })}
+              className={inputStyle}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className={labelStyle}>Catégories autorisées <span className="text-gray-500 text-xs">(aucune = toutes)</span></span>
+          <div className="flex flex-wrap gap-4">
+            {CAR_CATEGORIES.map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.allowed_categories.includes(category)}
+                  onChange={() => toggleCategory(category)}
+                  className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {saving ? <Loader2 className="animate-spin" size={20} /> : <Plus size={20} />}
+          <span>Créer le code</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CouponsTab;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { BookingRequest, Customer, CustomerTag, SupabaseCar } from '../types';
+import { BOOKING_STATUS_LABELS } from '../lib/bookings';
+import { formatPhone, getCustomerStats, updateCustomer, CUSTOMER_TAG_LABELS, CUSTOMER_TAG_STYLES } from '../lib/customers';
+import { formatDisplayDate } from '../lib/dates';
+import { ArrowLeft, Ban, Loader2, MessageCircle, Phone, Save } from 'lucide-react';
+
+interface CustomerProfileProps {
+  customer: Customer;
+  bookings: BookingRequest[];
+  cars: SupabaseCar[];
+  onBack: () => void;
+  onUpdated: () => void;
+}
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const CustomerProfile: React.FC<CustomerProfileProps> = ({ customer, bookings, cars, onBack, onUpdated }) => {
+  const [formData, setFormData] = useState({
+    full_name: customer.full_name,
+    email: customer.email || '',
+    notes: customer.notes || '',
+    tags: customer.tags,
+    is_blocked: customer.is_blocked,
+    blocked_reason: customer.blocked_reason || '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFormData({
+      full_name: customer.full_name,
+      email: customer.email || '',
+      notes: customer.notes || '',
+      tags: customer.tags,
+      is_blocked: customer.is_blocked,
+      blocked_reason: customer.blocked_reason || '',
+    });
+  }, [customer]);
+
+  const stats = getCustomerStats(customer.id, bookings);
+  const history = [...bookings].sort((a, b) => b.pickupDate.localeCompare(a.pickupDate));
+
+  const getCarName = (carId: string) => {
+    const car = cars.find(c => c.id.toString() === carId);
+    return car ? `${car.brand} ${car.name}` : 'Véhicule supprimé';
+  };
+
+  const toggleTag = (tag: CustomerTag) => {
+    const tags = formData.tags.includes(tag) ? formData.tags.filter(t => t !== tag) : [...formData.tags, tag];
+    setFormData({ ...formData, tags });
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await updateCustomer(customer.id, {
+        full_name: formData.full_name.trim(),
+        email: formData.email.trim() || null,
+        notes: formData.notes.trim() || null,
+        tags: formData.tags,
+        is_blocked: formData.is_blocked,
+        blocked_reason: formData.is_blocked ? formData.blocked_reason.trim() : null,
+      });
+      onUpdated();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de la mise à jour du client');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft size={16} /> Tous les clients
+      </button>
+
+      <div className="bg-white rounded-xl shadow-md p-6 flex flex-wrap justify-between gap-6">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-2xl font-serif font-bold text-gray-900">{customer.full_name}</h2>
+            {customer.tags.map(tag => (
+              <span key={tag} className={`px-2 py-0.5 rounded-full text-xs font-medium ${CUSTOMER_TAG_STYLES[tag]}`}>
+                {CUSTOMER_TAG_LABELS[tag]}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+            <a href={`tel:+${customer.phone}`} className="flex items-center gap-1 hover:underline">
+              <Phone size={14} className="text-gold-600" /> {formatPhone(customer.phone)}
+            </a>
+            <a
+              href={`https://wa.me/${customer.phone}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 hover:underline"
+            >
+              <MessageCircle size={14} className="text-green-600" /> WhatsApp
+            </a>
+          </div>
+          {customer.is_blocked && (
+            <p className="flex items-center gap-2 text-sm text-red-700">
+              <Ban size={14} /> Client bloqué{customer.blocked_reason && ` : ${customer.blocked_reason}`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-6 text-center">
+          <div>
+            <p className="text-2xl font-bold text-gray-900">{stats.bookingCount}</p>
+            <p className="text-xs text-gray-500">réservations</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-gold-600">{stats.totalSpend.toLocaleString()} MAD</p>
+            <p className="text-xs text-gray-500">dépensés</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Booking history */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <h3 className="font-semibold text-gray-900 px-6 pt-6 pb-3">Historique</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Dates</th>
+                <th className="px-4 py-3 font-medium">Véhicule</th>
+                <th className="px-4 py-3 font-medium">Livraison</th>
+                <th className="px-4 py-3 font-medium">Montant</th>
+                <th className="px-4 py-3 font-medium">Statut</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(booking => (
+                <tr key={booking.id} className="border-t border-gray-100">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatDisplayDate(booking.pickupDate)} → {formatDisplayDate(booking.dropoffDate)}
+                  </td>
+                  <td className="px-4 py-3">{getCarName(booking.carId)}</td>
+                  <td className="px-4 py-3 text-gray-500">{booking.city}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">{booking.totalPrice.toLocaleString()} MAD</td>
+                  <td className="px-4 py-3">{BOOKING_STATUS_LABELS[booking.status]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {history.length === 0 && (
+          <p className="text-center text-gray-500 py-8">Aucune réservation</p>
+        )}
+      </div>
+
+      {/* Edit customer */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Fiche client</h3>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelStyle}>Nom complet *</label>
+            <input
+              type="text"
+              value={formData.full_name}
+              onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+              required
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Email</label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              className={inputStyle}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className={labelStyle}>Étiquettes</span>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(CUSTOMER_TAG_LABELS) as CustomerTag[]).map(tag => (
+              <label key={tag} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.tags.includes(tag)}
+                  onChange={() => toggleTag(tag)}
+                  className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                />
+                {CUSTOMER_TAG_LABELS[tag]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelStyle}>Notes</label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            rows={3}
+            placeholder="Préférences, siège bébé habituel, société..."
+            className={inputStyle}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-red-700">
+            <input
+              type="checkbox"
+              checked={formData.is_blocked}
+              onChange={(e) => setFormData({ ...formData, is_blocked: e.target.checked })}
+              className="w-4 h-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            Bloquer ce client
+          </label>
+          {formData.is_blocked && (
+            <input
+              type="text"
+              value={formData.blocked_reason}
+              onChange={(e) => setFormData({ ...formData, blocked_reason: e.target.value })}
+              placeholder="Motif du blocage *"
+              required
+              className={inputStyle}
+            />
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {saving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+          <span>Enregistrer</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CustomerProfile;
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { BookingRequest, Customer, SupabaseCar } from '../types';
+import { fetchBookings } from '../lib/bookings';
+import {
+  fetchCustomers,
+  formatPhone,
+  getCustomerStats,
+  matchesCustomerSearch,
+  CUSTOMER_TAG_LABELS,
+  CUSTOMER_TAG_STYLES,
+} from '../lib/customers';
+import { formatDisplayDate } from '../lib/dates';
+import { Ban, Search } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+import CustomerProfile from './CustomerProfile';
+
+interface CustomersTabProps {
+  cars: SupabaseCar[];
+}
+
+const CustomersTab: React.FC<CustomersTabProps> = ({ cars }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  const loadCustomers = async () => {
+    try {
+      const [customerData, bookingData] = await Promise.all([fetchCustomers(), fetchBookings()]);
+      setCustomers(customerData);
+      setBookings(bookingData);
+    } catch (err: any) {
+      console.error('Error fetching customers:', err);
+      setError('Impossible de charger les clients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const selectedCustomer = customers.find(c => c.id === selectedId);
+  if (selectedCustomer) {
+    return (
+      <CustomerProfile
+        customer={selectedCustomer}
+        bookings={bookings.filter(b => b.customerId === selectedCustomer.id)}
+        cars={cars}
+        onBack={() => setSelectedId(null)}
+        onUpdated={loadCustomers}
+      />
+    );
+  }
+
+  const filtered = customers.filter(c => matchesCustomerSearch(c, search));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-xl font-semibold text-gray-800">Clients ({filtered.length})</h2>
+        <div className="relative w-full sm:w-72">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Nom, téléphone ou email"
+            className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Client</th>
+                <th className="px-4 py-3 font-medium">Téléphone</th>
+                <th className="px-4 py-3 font-medium">Réservations</th>
+                <th className="px-4 py-3 font-medium">Total dépensé</th>
+                <th className="px-4 py-3 font-medium">Dernière location</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(customer => {
+                const stats = getCustomerStats(customer.id, bookings);
+                return (
+                  <tr
+                    key={customer.id}
+                    onClick={() => setSelectedId(customer.id)}
+                    className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">{customer.full_name}</span>
+                        {customer.tags.map(tag => (
+                          <span key={tag} className={`px-2 py-0.5 rounded-full text-xs font-medium ${CUSTOMER_TAG_STYLES[tag]}`}>
+                            {CUSTOMER_TAG_LABELS[tag]}
+                          </span>
+                        ))}
+                        {customer.is_blocked && (
+                          <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                            <Ban size={12} /> Bloqué
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-700">{formatPhone(customer.phone)}</td>
+                    <td className="px-4 py-3">{stats.bookingCount}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{stats.totalSpend.toLocaleString()} MAD</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">
+                      {stats.lastPickupDate ? formatDisplayDate(stats.lastPickupDate) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filtered.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">{search ? 'Aucun client ne correspond à la recherche' : 'Aucun client'}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomersTab;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { DamagePoint } from '../types';
+import { Trash2 } from 'lucide-react';
+
+interface DamageDiagramProps {
+  damages: DamagePoint[];
+  onChange?: (damages: DamagePoint[]) => void; // read-only when omitted
+  highlightIds?: string[]; // drawn in red, e.g. new damage at return
+}
+
+const VIEW_WIDTH = 200;
+const VIEW_HEIGHT = 320;
+
+// Top view of a car, front facing up; tap to mark a damage
+const DamageDiagram: React.FC<DamageDiagramProps> = ({ damages, onChange, highlightIds = [] }) => {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onChange) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point: DamagePoint = {
+      id: Math.random().toString(36).substring(2, 10),
+      x: Math.round(((e.clientX - rect.left) / rect.width) * 1000) / 10,
+      y: Math.round(((e.clientY - rect.top) / rect.height) * 1000) / 10,
+      note: '',
+    };
+    onChange([...damages, point]);
+  };
+
+  const updateNote = (id: string, note: string) => {
+    onChange?.(damages.map(d => (d.id === id ? { ...d, note } : d)));
+  };
+
+  const removePoint = (id: string) => {
+    onChange?.(damages.filter(d => d.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        onClick={handleClick}
+        className={`w-full max-w-[220px] mx-auto block bg-gray-50 rounded-lg ${onChange ? 'cursor-crosshair' : ''}`}
+      >
+        {/* Body */}
+        <rect x="40" y="20" width="120" height="280" rx="45" fill="#ffffff" stroke="#9ca3af" strokeWidth="3" />
+        {/* Windscreen and rear window */}
+        <path d="M58 95 Q100 75 142 95 L134 125 Q100 115 66 125 Z" fill="#e5e7eb" stroke="#9ca3af" strokeWidth="2" />
+        <path d="M64 225 Q100 235 136 225 L142 250 Q100 265 58 250 Z" fill="#e5e7eb" stroke="#9ca3af" strokeWidth="2" />
+        {/* Roof */}
+        <rect x="66" y="130" width="68" height="90" rx="8" fill="none" stroke="#d1d5db" strokeWidth="2" />
+        {/* Wheels */}
+        <rect x="28" y="60" width="14" height="40" rx="4" fill="#6b7280" />
+        <rect x="158" y="60" width="14" height="40" rx="4" fill="#6b7280" />
+        <rect x="28" y="220" width="14" height="40" rx="4" fill="#6b7280" />
+        <rect x="158" y="220" width="14" height="40" rx="4" fill="#6b7280" />
+        {/* Mirrors */}
+        <rect x="26" y="115" width="14" height="8" rx="3" fill="#9ca3af" />
+        <rect x="160" y="115" width="14" height="8" rx="3" fill="#9ca3af" />
+        <text x="100" y="14" textAnchor="middle" fontSize="10" fill="#9ca3af">AVANT</text>
+
+        {damages.map((damage, idx) => {
+          const highlighted = highlightIds.includes(damage.id);
+          return (
+            <g key={damage.id}>
+              <circle
+                cx={(damage.x / 100) * VIEW_WIDTH}
+                cy={(damage.y / 100) * VIEW_HEIGHT}
+                r="9"
+                fill={highlighted ? '#dc2626' : '#d97706'}
+                stroke="#ffffff"
+                strokeWidth="2"
+              />
+              <text
+                x={(damage.x / 100) * VIEW_WIDTH}
+                y={(damage.y / 100) * VIEW_HEIGHT + 3.5}
+                textAnchor="middle"
+                fontSize="10"
+                fontWeight="bold"
+                fill="#ffffff"
+              >
+                {idx + 1}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {damages.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center">
+          {onChange ? 'Touchez le schéma pour signaler un dégât' : 'Aucun dégât signalé'}
+        </p>
+      ) : (
+        <ol className="space-y-2 text-sm">
+          {damages.map((damage, idx) => (
+            <li key={damage.id} className="flex items-center gap-2">
+              <span
+                className={`w-6 h-6 flex-shrink-0 rounded-full text-white text-xs font-bold flex items-center justify-center ${
+                  highlightIds.includes(damage.id) ? 'bg-red-600' : 'bg-gold-600'
+                }`}
+              >
+                {idx + 1}
+              </span>
+              {onChange ? (
+                <>
+                  <input
+                    type="text"
+                    value={damage.note}
+                    onChange={(e) => updateNote(damage.id, e.target.value)}
+                    placeholder="Rayure, bosse, impact..."
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removePoint(damage.id)}
+                    className="text-red-500 hover:text-red-700"
+                    aria-label="Supprimer"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              ) : (
+                <span className="text-gray-700">{damage.note || 'Dégât'}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default DamageDiagram;
@@ -1,26 +1,102 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabaseClient';
-import { SupabaseCar } from '../types';
-import { LogOut, Plus, Edit, Trash2, Loader2, X } from 'lucide-react';
+import { Addon, CarPhoto, Permission, Promotion, StaffProfile, SupabaseCar, UnitCounts } from '../types';
+import { fetchUnitCounts } from '../lib/vehicleUnits';
+import { fetchPromotions, resolvePromotion } from '../lib/promotions';
+import { todayRange, CAR_CATEGORIES } from '../lib/cars';
+import { ADDON_PRICING_LABELS, fetchAddons, fetchCarAddonLinks, setCarAddons } from '../lib/addons';
+import { fetchCurrentStaff, hasPermission } from '../lib/staff';
+import { hasActiveSession, onAuthRefreshed, signOut } from '../lib/auth';
+import { clearDraft, loadDraft, saveDraft } from '../lib/drafts';
+import { formatDisplayDate } from '../lib/dates';
+import { exportFleet } from '../lib/fleetImport';
+import { fetchCarImages, saveCarImages, uploadCarImage } from '../lib/carImages';
+import { LogOut, Plus, Edit, Trash2, Loader2, X, Car as CarIcon, CalendarCheck, KeyRound, Tags, Percent, Ticket, PackagePlus, Plane, UserCheck, Users, Wallet, Wrench, Truck, ShieldCheck, History, FileUp, FileDown } from 'lucide-react';
 import LoadingSpinner from './LoadingSpinner';
+import ReservationsTab from './ReservationsTab';
+import CustomersTab from './CustomersTab';
+import AirportArrivalsTab from './AirportArrivalsTab';
+import DepositsTab from './DepositsTab';
+import MaintenanceTab from './MaintenanceTab';
+import PricingTab from './PricingTab';
+import CouponsTab from './CouponsTab';
+import AddonsTab from './AddonsTab';
+import DriverRequirementsTab from './DriverRequirementsTab';
+import DeliveriesTab from './DeliveriesTab';
+import TeamTab from './TeamTab';
+import AuditLogTab from './AuditLogTab';
+import PriceHistoryModal from './PriceHistoryModal';
+import FleetImportModal from './FleetImportModal';
+import CarGalleryEditor, { GalleryItem, galleryItemFromPhoto } from './CarGalleryEditor';
+import VehicleUnitsModal from './VehicleUnitsModal';
+import PromotionsModal from './PromotionsModal';
+
+type DashboardTab =
+  | 'cars' | 'bookings' | 'customers' | 'airport' | 'deliveries' | 'deposits' | 'maintenance'
+  | 'pricing' | 'coupons' | 'addons' | 'drivers' | 'team' | 'audit';
+
+// Tabs are only shown to roles holding the matching permission
+const DASHBOARD_TABS: { id: DashboardTab; label: string; icon: React.ElementType; permission: Permission }[] = [
+  { id: 'cars', label: 'Véhicules', icon: CarIcon, permission: 'fleet.manage' },
+  { id: 'bookings', label: 'Réservations', icon: CalendarCheck, permission: 'bookings.manage' },
+  { id: 'customers', label: 'Clients', icon: Users, permission: 'bookings.manage' },
+  { id: 'airport', label: 'Aéroport', icon: Plane, permission: 'bookings.manage' },
+  { id: 'deliveries', label: 'Mes livraisons', icon: Truck, permission: 'deliveries.view' },
+  { id: 'deposits', label: 'Cautions', icon: Wallet, permission: 'bookings.manage' },
+  { id: 'maintenance', label: 'Entretien', icon: Wrench, permission: 'fleet.manage' },
+  { id: 'pricing', label: 'Tarifs', icon: Tags, permission: 'pricing.manage' },
+  { id: 'coupons', label: 'Codes Promo', icon: Ticket, permission: 'pricing.manage' },
+  { id: 'addons', label: 'Options', icon: PackagePlus, permission: 'pricing.manage' },
+  { id: 'drivers', label: 'Conducteurs', icon: UserCheck, permission: 'pricing.manage' },
+  { id: 'team', label: 'Équipe', icon: ShieldCheck, permission: 'staff.manage' },
+  { id: 'audit', label: 'Historique', icon: History, permission: 'staff.manage' },
+];
+
+const ACCESS_DENIED = 'Votre rôle ne permet pas cette action.';
 
 const Dashboard: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<DashboardTab>('cars');
+  const [staff, setStaff] = useState<StaffProfile | null>(null);
   const [cars, setCars] = useState<SupabaseCar[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingCar, setEditingCar] = useState<SupabaseCar | null>(null);
+  const [unitCounts, setUnitCounts] = useState<Record<string, UnitCounts>>({});
+  const [unitsCar, setUnitsCar] = useState<SupabaseCar | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [promotionsCar, setPromotionsCar] = useState<SupabaseCar | null>(null);
+  const [priceHistoryCar, setPriceHistoryCar] = useState<SupabaseCar | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
     checkAuth();
     fetchCars();
+    loadUnitCounts();
+    loadPromotions();
+
+    // Pick up role changes when the session is refreshed
+    return onAuthRefreshed(checkAuth);
   }, []);
 
   const checkAuth = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user || user.email !== 'admin@trevi.com') {
+    try {
+      const profile = await fetchCurrentStaff();
+      if (!profile) {
+        navigate('/login');
+        return;
+      }
+      setStaff(profile);
+      // Stay on the current tab while the role still allows it
+      setActiveTab(current =>
+        hasPermission(profile, DASHBOARD_TABS.find(tab => tab.id === current)!.permission)
+          ? current
+          : DASHBOARD_TABS.find(tab => hasPermission(profile, tab.permission))?.id || 'cars'
+      );
+    } catch (err: any) {
+      console.error('Error checking staff access:', err);
       navigate('/login');
     }
   };
@@ -34,6 +110,7 @@ const Dashboard: React.FC = () => {
 
       if (error) throw error;
       setCars(data || []);
+      restoreCarDraft(data || []);
     } catch (err: any) {
       console.error('Error fetching cars:', err);
     } finally {
@@ -41,15 +118,63 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Reopen a car form left unsaved when the session expired
+  const restoreCarDraft = (loadedCars: SupabaseCar[]) => {
+    const draft = loadDraft<CarFormDraft>(CAR_FORM_DRAFT);
+    if (!draft) return;
+
+    if (draft.carId === null) {
+      setShowAddModal(true);
+      return;
+    }
+    const draftCar = loadedCars.find(c => c.id === draft.carId);
+    if (draftCar) {
+      setEditingCar(draftCar);
+      setShowEditModal(true);
+    } else {
+      clearDraft(CAR_FORM_DRAFT);
+    }
+  };
+
+  const loadUnitCounts = async () => {
+    try {
+      setUnitCounts(await fetchUnitCounts());
+    } catch (err: any) {
+      console.error('Error fetching unit counts:', err);
+    }
+  };
+
+  const loadPromotions = async () => {
+    try {
+      setPromotions(await fetchPromotions());
+    } catch (err: any) {
+      console.error('Error fetching promotions:', err);
+    }
+  };
+
+  const getCarPromotions = (car: SupabaseCar) => promotions.filter(p => p.car_id === car.id);
+
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    clearDraft(CAR_FORM_DRAFT);
+    await signOut();
     navigate('/login');
   };
 
+  // Runs an action only if the staff member's role allows it; RLS has the last word
+  const withPermission = (permission: Permission, action: () => void) => {
+    if (!hasPermission(staff, permission)) {
+      alert(ACCESS_DENIED);
+      return;
+    }
+    action();
+  };
+
   const handleDelete = async (id: number) => {
     if (!confirm('Êtes-vous sûr de vouloir supprimer ce véhicule ?')) return;
 
     try {
+      if (!hasPermission(staff, 'fleet.manage')) throw new Error(ACCESS_DENIED);
+
       const { error } = await supabase
         .from('cars')
         .delete()
@@ -62,12 +187,12 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  const handleEdit = (car: SupabaseCar) => {
+  const handleEdit = (car: SupabaseCar) => withPermission('fleet.manage', () => {
     setEditingCar(car);
     setShowEditModal(true);
-  };
+  });
 
-  if (loading) {
+  if (loading || !staff) {
     return (
       <div className="min-h-screen bg-luxury-50 flex items-center justify-center">
         <LoadingSpinner />
@@ -93,24 +218,97 @@ const Dashboard: React.FC = () => {
         </div>
       </header>
 
+      {/* Tabs */}
+      <nav className="bg-white border-t border-gray-100">
+        <div className="container mx-auto px-6 flex gap-2 overflow-x-auto">
+          {DASHBOARD_TABS.filter(tab => hasPermission(staff, tab.permission)).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setActiveTab(id)}
+              className={`flex items-center gap-2 px-4 py-3 border-b-2 font-medium whitespace-nowrap transition-all ${
+                activeTab === id ? 'border-gold-600 text-gold-700' : 'border-transparent text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              <Icon size={18} />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      </nav>
+
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
-        <div className="flex justify-between items-center mb-6">
+        {activeTab === 'bookings' ? (
+          <ReservationsTab cars={cars} />
+        ) : activeTab === 'customers' ? (
+          <CustomersTab cars={cars} />
+        ) : activeTab === 'airport' ? (
+          <AirportArrivalsTab cars={cars} />
+        ) : activeTab === 'deposits' ? (
+          <DepositsTab cars={cars} />
+        ) : activeTab === 'maintenance' ? (
+          <MaintenanceTab cars={cars} />
+        ) : activeTab === 'pricing' ? (
+          <PricingTab cars={cars} promotions={promotions} />
+        ) : activeTab === 'coupons' ? (
+          <CouponsTab />
+        ) : activeTab === 'addons' ? (
+          <AddonsTab />
+        ) : activeTab === 'drivers' ? (
+          <DriverRequirementsTab />
+        ) : activeTab === 'deliveries' ? (
+          <DeliveriesTab cars={cars} staff={staff} />
+        ) : activeTab === 'team' ? (
+          <TeamTab currentEmail={staff.email} />
+        ) : activeTab === 'audit' ? (
+          <AuditLogTab cars={cars} />
+        ) : !hasPermission(staff, 'fleet.manage') ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">Aucune section n'est accessible avec votre rôle.</p>
+          </div>
+        ) : (
+        <>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
           <h2 className="text-xl font-semibold text-gray-800">
             Gestion des Véhicules ({cars.length})
           </h2>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="flex items-center gap-2 px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all transform hover:scale-105"
-          >
-            <Plus size={20} />
-            <span>Ajouter un Véhicule</span>
-          </button>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => exportFleet(cars, 'xlsx')}
+              className="flex items-center gap-2 px-4 py-3 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+            >
+              <FileDown size={20} />
+              <span>Excel</span>
+            </button>
+            <button
+              onClick={() => exportFleet(cars, 'csv')}
+              className="flex items-center gap-2 px-4 py-3 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+            >
+              <FileDown size={20} />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={() => withPermission('fleet.manage', () => setShowImportModal(true))}
+              className="flex items-center gap-2 px-4 py-3 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+            >
+              <FileUp size={20} />
+              <span>Importer</span>
+            </button>
+            <button
+              onClick={() => withPermission('fleet.manage', () => setShowAddModal(true))}
+              className="flex items-center gap-2 px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all transform hover:scale-105"
+            >
+              <Plus size={20} />
+              <span>Ajouter un Véhicule</span>
+            </button>
+          </div>
         </div>
 
         {/* Cars Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {cars.map((car) => (
+          {cars.map((car) => {
+            const activePromo = resolvePromotion(getCarPromotions(car), todayRange(), car.price_per_day);
+            return (
             <div key={car.id} className="bg-white rounded-xl shadow-md overflow-hidden hover:shadow-xl transition-shadow">
               <div className="relative h-48 bg-gray-200">
                 <img
@@ -129,10 +327,11 @@ const Dashboard: React.FC = () => {
                 <div className="space-y-1 text-sm text-gray-600 mb-4">
                   <p>
                     <span className="font-medium">Prix:</span>{' '}
-                    {car.promo_price && car.promo_price < car.price_per_day ? (
+                    {activePromo ? (
                       <>
                         <span className="line-through text-gray-400">{car.price_per_day}</span>{' '}
-                        <span className="text-red-600 font-semibold">{car.promo_price}</span> MAD/jour
+                        <span className="text-red-600 font-semibold">{activePromo.promo_price}</span> MAD/jour
+                        <span className="ml-2 text-xs text-red-600">({activePromo.label}{activePromo.ends_on ? ` jusqu'au ${formatDisplayDate(activePromo.ends_on)}` : ''})</span>
                       </>
                     ) : (
                       <>{car.price_per_day} MAD/jour</>
@@ -141,6 +340,8 @@ const Dashboard: React.FC = () => {
                   <p><span className="font-medium">Carburant:</span> {car.fuel_type}</p>
                   <p><span className="font-medium">Transmission:</span> {car.gearbox}</p>
                   <p><span className="font-medium">Catégorie:</span> {car.category}</p>
+                  <p><span className="font-medium">Caution:</span> {(car.deposit_amount ?? 0).toLocaleString()} MAD</p>
+                  <p><span className="font-medium">Unités en service:</span> {unitCounts[car.id.toString()]?.active || 0}</p>
                   <p>
                     <span className="font-medium">Disponible:</span>{' '}
                     <span className={car.is_available ? 'text-green-600' : 'text-red-600'}>
@@ -148,6 +349,30 @@ const Dashboard: React.FC = () => {
                     </span>
                   </p>
                 </div>
+                <div className="flex gap-2 mb-2">
+                  <button
+                    onClick={() => withPermission('fleet.manage', () => setUnitsCar(car))}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                  >
+                    <KeyRound size={16} />
+                    <span>Unités</span>
+                  </button>
+                  <button
+                    onClick={() => withPermission('pricing.manage', () => setPromotionsCar(car))}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                  >
+                    <Percent size={16} />
+                    <span>Promotions ({getCarPromotions(car).length})</span>
+                  </button>
+                  <button
+                    onClick={() => setPriceHistoryCar(car)}
+                    className="flex items-center justify-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                    title="Historique des prix"
+                    aria-label="Historique des prix"
+                  >
+                    <History size={16} />
+                  </button>
+                </div>
                 <div className="flex gap-2">
                   <button
                     onClick={() => handleEdit(car)}
@@ -166,7 +391,8 @@ const Dashboard: React.FC = () => {
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
 
         {cars.length === 0 && (
@@ -174,11 +400,14 @@ const Dashboard: React.FC = () => {
             <p className="text-gray-500 text-lg">Aucun véhicule enregistré</p>
           </div>
         )}
+        </>
+        )}
       </main>
 
       {/* Add Car Modal */}
       {showAddModal && (
         <CarFormModal
+          staff={staff}
           onClose={() => setShowAddModal(false)}
           onSuccess={() => {
             setShowAddModal(false);
@@ -187,10 +416,47 @@ const Dashboard: React.FC = () => {
         />
       )}
 
+      {/* Vehicle Units Modal */}
+      {unitsCar && (
+        <VehicleUnitsModal
+          car={unitsCar}
+          onClose={() => setUnitsCar(null)}
+          onChanged={loadUnitCounts}
+        />
+      )}
+
+      {/* Promotions Modal */}
+      {promotionsCar && (
+        <PromotionsModal
+          car={promotionsCar}
+          promotions={getCarPromotions(promotionsCar)}
+          onClose={() => setPromotionsCar(null)}
+          onChanged={loadPromotions}
+        />
+      )}
+
+      {/* Fleet Import Modal */}
+      {showImportModal && (
+        <FleetImportModal
+          cars={cars}
+          onClose={() => setShowImportModal(false)}
+          onImported={fetchCars}
+        />
+      )}
+
+      {/* Price History Modal */}
+      {priceHistoryCar && (
+        <PriceHistoryModal
+          car={priceHistoryCar}
+          onClose={() => setPriceHistoryCar(null)}
+        />
+      )}
+
       {/* Edit Car Modal */}
       {showEditModal && editingCar && (
         <CarFormModal
           car={editingCar}
+          staff={staff}
           onClose={() => {
             setShowEditModal(false);
             setEditingCar(null);
@@ -209,113 +475,93 @@ const Dashboard: React.FC = () => {
 // Car Form Modal Component
 interface CarFormModalProps {
   car?: SupabaseCar;
+  staff: StaffProfile;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess }) => {
-  const [formData, setFormData] = useState({
-    name: car?.name || '',
-    brand: car?.brand || '',
-    price_per_day: car?.price_per_day ? String(Math.round(Number(car.price_per_day))) : '',
-    promo_price: car?.promo_price ? String(Math.round(Number(car.promo_price))) : '',
-    fuel_type: car?.fuel_type || 'Essence',
-    gearbox: car?.gearbox || 'Manuelle',
-    category: car?.category || 'Berline',
-    is_available: car?.is_available ?? true,
-    description: car?.description || '',
+const getInitialFormData = (car?: SupabaseCar) => ({
+  name: car?.name || '',
+  brand: car?.brand || '',
+  price_per_day: car?.price_per_day ? String(Math.round(Number(car.price_per_day))) : '',
+  fuel_type: car?.fuel_type || 'Essence',
+  gearbox: car?.gearbox || 'Manuelle',
+  category: car?.category || 'Berline',
+  deposit_amount: car?.deposit_amount !== undefined ? String(car.deposit_amount) : '5000',
+  is_available: car?.is_available ?? true,
+  description: car?.description || '',
+});
+
+// Unsaved car form, kept across an expired session (picked image files can't be)
+const CAR_FORM_DRAFT = 'car-form';
+
+interface CarFormDraft {
+  carId: number | null;
+  formData: ReturnType<typeof getInitialFormData>;
+  selectedAddonIds: number[];
+}
+
+const CarFormModal: React.FC<CarFormModalProps> = ({ car, staff, onClose, onSuccess }) => {
+  const [restoredDraft] = useState(() => {
+    const draft = loadDraft<CarFormDraft>(CAR_FORM_DRAFT);
+    return draft && draft.carId === (car?.id ?? null) ? draft : null;
   });
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(car?.image_url || null);
+  const [formData, setFormData] = useState(restoredDraft?.formData || getInitialFormData(car));
+  const [gallery, setGallery] = useState<GalleryItem[]>(
+    car?.image_url ? [galleryItemFromPhoto({ url: car.image_url, variants: [], placeholder: null })] : []
+  );
+  const [coverKey, setCoverKey] = useState<string | null>(car?.image_url || null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [addons, setAddons] = useState<Addon[]>([]);
+  const [selectedAddonIds, setSelectedAddonIds] = useState<number[]>(restoredDraft?.selectedAddonIds || []);
   const priceInputRef = useRef<HTMLInputElement>(null);
-  const promoInputRef = useRef<HTMLInputElement>(null);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
+  const pristineFormData = useRef(JSON.stringify(getInitialFormData(car)));
+  const addonsEdited = useRef(false);
 
-  const uploadImage = async (file: File): Promise<string> => {
-    try {
-      const fileExt = file.name.split('.').pop();
-      const timestamp = Date.now();
-      const randomStr = Math.random().toString(36).substring(2, 15);
-      const fileName = `${timestamp}-${randomStr}.${fileExt}`;
-      const filePath = fileName;
-
-      // Upload the file
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('car-images')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        
-        // If file already exists, try with a different name
-        if (uploadError.message.includes('already exists') || uploadError.message.includes('duplicate')) {
-          const newFileName = `${timestamp}-${randomStr}-${Math.random().toString(36).substring(2, 9)}.${fileExt}`;
-          const { data: retryData, error: retryError } = await supabase.storage
-            .from('car-images')
-            .upload(newFileName, file, {
-              cacheControl: '3600',
-              upsert: false
-            });
-          
-          if (retryError) {
-            console.error('Retry upload error:', retryError);
-            throw new Error(`Erreur lors du téléchargement de l'image: ${retryError.message}`);
-          }
-          
-          const { data: { publicUrl } } = supabase.storage
-            .from('car-images')
-            .getPublicUrl(newFileName);
-          
-          if (!publicUrl) {
-            throw new Error('Impossible d\'obtenir l\'URL publique de l\'image');
-          }
-          
-          return publicUrl;
-        }
-        
-        // Handle permission errors
-        if (uploadError.message.includes('permission') || uploadError.message.includes('policy') || uploadError.message.includes('403')) {
-          throw new Error('Erreur de permissions. Vérifiez que le bucket "car-images" autorise les téléchargements pour les utilisateurs authentifiés.');
-        }
-        
-        throw new Error(`Erreur lors du téléchargement: ${uploadError.message}`);
-      }
+  useEffect(() => {
+    if (!restoredDraft && !addonsEdited.current && JSON.stringify(formData) === pristineFormData.current) return;
+    saveDraft<CarFormDraft>(CAR_FORM_DRAFT, { carId: car?.id ?? null, formData, selectedAddonIds });
+  }, [formData, selectedAddonIds]);
 
-      // Verify upload succeeded
-      if (!uploadData) {
-        throw new Error('Le téléchargement a échoué - aucune donnée retournée');
+  useEffect(() => {
+    const loadAddons = async () => {
+      try {
+        const [allAddons, links] = await Promise.all([fetchAddons(), fetchCarAddonLinks()]);
+        setAddons(allAddons);
+        if (car && !restoredDraft) setSelectedAddonIds(links[car.id.toString()] || []);
+      } catch (err: any) {
+        console.error('Error fetching addons:', err);
       }
+    };
+    loadAddons();
+  }, [car]);
 
-      // Get the public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('car-images')
-        .getPublicUrl(filePath);
-
-      if (!publicUrl) {
-        throw new Error('Impossible d\'obtenir l\'URL publique de l\'image téléchargée');
+  useEffect(() => {
+    if (!car) return;
+    const loadGallery = async () => {
+      try {
+        const images = await fetchCarImages(car.id);
+        if (images.length === 0) return;
+        setGallery(images.map(galleryItemFromPhoto));
+        if (!images.some(image => image.url === car.image_url)) setCoverKey(images[0].url);
+      } catch (err: any) {
+        console.error('Error fetching car images:', err);
       }
+    };
+    loadGallery();
+  }, [car]);
+
+  const toggleAddon = (addonId: number) => {
+    addonsEdited.current = true;
+    setSelectedAddonIds(prev =>
+      prev.includes(addonId) ? prev.filter(id => id !== addonId) : [...prev, addonId]
+    );
+  };
 
-      return publicUrl;
-    } catch (err: any) {
-      console.error('Error in uploadImage:', err);
-      throw err;
-    }
+  const handleClose = () => {
+    clearDraft(CAR_FORM_DRAFT);
+    onClose();
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -324,20 +570,35 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
     setError(null);
 
     try {
-      let imageUrl = car?.image_url || '';
-
-      // Upload new image if provided
-      if (imageFile) {
-        try {
-          imageUrl = await uploadImage(imageFile);
-          console.log('Image uploaded successfully, URL:', imageUrl);
-        } catch (uploadErr: any) {
-          console.error('Failed to upload image:', uploadErr);
-          setError(uploadErr.message || 'Erreur lors du téléchargement de l\'image');
-          setLoading(false);
-          return; // Stop here if image upload fails
+      // The draft is kept; the session listener sends the user to the login page
+      if (!(await hasActiveSession())) {
+        throw new Error('Votre session a expiré. Reconnectez-vous pour enregistrer ce véhicule.');
+      }
+      if (!hasPermission(staff, 'fleet.manage')) throw new Error(ACCESS_DENIED);
+
+      // Upload the newly picked pictures, keeping the gallery order
+      const galleryPhotos: CarPhoto[] = [];
+      const uploads = new Map<string, CarPhoto>();
+      let imageUrl = '';
+      try {
+        for (const item of gallery) {
+          const photo = item.photo || await uploadCarImage(item.file as File);
+          if (!item.photo) uploads.set(item.key, photo);
+          galleryPhotos.push(photo);
+          if (item.key === coverKey) imageUrl = photo.url;
+        }
+      } catch (uploadErr: any) {
+        console.error('Failed to upload image:', uploadErr);
+        setError(uploadErr.message || 'Erreur lors du téléchargement de l\'image');
+        setLoading(false);
+        return; // Stop here if image upload fails
+      } finally {
+        // Uploaded pictures are not sent again if the save has to be retried
+        if (uploads.size > 0) {
+          setGallery(prev => prev.map(item => (uploads.has(item.key) ? { ...item, photo: uploads.get(item.key), file: undefined } : item)));
         }
       }
+      imageUrl = imageUrl || galleryPhotos[0]?.url || '';
 
       // Get price values directly from input refs to ensure we have the latest values
       // This is especially important when Enter key is pressed
@@ -349,37 +610,21 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
         setLoading(false);
         return;
       }
-      
-      let promoPrice: number | null = null;
-      const promoPriceValue = (promoInputRef.current?.value || String(formData.promo_price || '')).trim();
-      if (promoPriceValue !== '') {
-        const parsed = parseInt(promoPriceValue, 10);
-        if (!isNaN(parsed) && parsed >= 0) {
-          promoPrice = parsed;
-        }
-      }
 
       const carData = {
         name: String(formData.name),
         brand: String(formData.brand),
         price_per_day: pricePerDay,
-        promo_price: promoPrice,
         fuel_type: String(formData.fuel_type),
         gearbox: String(formData.gearbox),
         category: String(formData.category),
+        deposit_amount: parseInt(formData.deposit_amount, 10) || 0,
         is_available: Boolean(formData.is_available),
         description: formData.description ? String(formData.description) : null,
-        image_url: String(imageUrl), // Always include image_url, whether new or existing
+        image_url: String(imageUrl), // Cover picture, also first in the gallery
       };
 
-      // Debug logging
-      console.log('Form data before save:', {
-        original_price_per_day: formData.price_per_day,
-        original_promo_price: formData.promo_price,
-        processed_price_per_day: pricePerDay,
-        processed_promo_price: promoPrice,
-        carData: carData
-      });
+      let savedCarId = car?.id;
 
       if (car) {
         // Update existing car
@@ -397,31 +642,6 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
         if (!data || data.length === 0) {
           throw new Error('Aucune donnée retournée après la mise à jour');
         }
-        
-        // Debug logging - check what was actually saved
-        console.log('Car updated successfully:', data);
-        console.log('Price comparison:', {
-          sent_price_per_day: carData.price_per_day,
-          received_price_per_day: data[0]?.price_per_day,
-          sent_promo_price: carData.promo_price,
-          received_promo_price: data[0]?.promo_price,
-        });
-        
-        // If the saved value doesn't match what we sent, show a warning
-        if (data[0]?.price_per_day !== carData.price_per_day) {
-          console.warn('WARNING: Price mismatch!', {
-            sent: carData.price_per_day,
-            received: data[0]?.price_per_day,
-            difference: carData.price_per_day - data[0]?.price_per_day
-          });
-        }
-        if (carData.promo_price !== null && data[0]?.promo_price !== carData.promo_price) {
-          console.warn('WARNING: Promo price mismatch!', {
-            sent: carData.promo_price,
-            received: data[0]?.promo_price,
-            difference: carData.promo_price - data[0]?.promo_price
-          });
-        }
       } else {
         // Create new car
         const { data, error } = await supabase
@@ -437,8 +657,15 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
         if (!data || data.length === 0) {
           throw new Error('Aucune donnée retournée après la création');
         }
+        savedCarId = data[0].id;
+      }
+
+      if (savedCarId) {
+        await setCarAddons(savedCarId, selectedAddonIds);
+        await saveCarImages(savedCarId, galleryPhotos);
       }
 
+      clearDraft(CAR_FORM_DRAFT);
       onSuccess();
     } catch (err: any) {
       console.error('Error in handleSubmit:', err);
@@ -456,7 +683,7 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
             {car ? 'Modifier le Véhicule' : 'Ajouter un Véhicule'}
           </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-gray-500 hover:text-gray-700 transition-colors"
           >
             <X size={24} />
@@ -464,6 +691,12 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {restoredDraft && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+              Saisie non enregistrée restaurée. Sélectionnez à nouveau l'image si vous en aviez choisi une.
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
               {error}
@@ -532,41 +765,6 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Prix Promo (MAD) <span className="text-gray-500 text-xs">(optionnel)</span>
-              </label>
-              <input
-                ref={promoInputRef}
-                type="text"
-                inputMode="numeric"
-                value={formData.promo_price}
-                onChange={(e) => {
-                  const rawValue = e.target.value;
-                  // Allow empty string for typing
-                  if (rawValue === '') {
-                    setFormData({ ...formData, promo_price: '' });
-                    return;
-                  }
-                  
-                  // Only allow digits
-                  const cleanValue = rawValue.replace(/\D/g, '');
-                  if (cleanValue !== '') {
-                    setFormData({ ...formData, promo_price: cleanValue });
-                  }
-                }}
-                onBlur={(e) => {
-                  // Ensure value is properly set on blur
-                  const value = e.target.value.trim();
-                  if (value === '') {
-                    setFormData({ ...formData, promo_price: '' });
-                  }
-                }}
-                placeholder="Laissez vide si pas de promo"
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
-              />
-            </div>
-
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Type de Carburant *
@@ -615,13 +813,26 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
                 required
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
               >
-                <option value="Berline">Berline</option>
-                <option value="SUV">SUV</option>
-                <option value="Citadine">Citadine</option>
-                <option value="Luxe">Luxe</option>
-                <option value="4x4">4x4</option>
+                {CAR_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Caution (MAD) *
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={formData.deposit_amount}
+                onChange={(e) => setFormData({ ...formData, deposit_amount: e.target.value.replace(/\D/g, '') })}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Montant bloqué avec l'assurance standard</p>
+            </div>
           </div>
 
           <div>
@@ -648,31 +859,42 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ car, onClose, onSuccess })
             </label>
           </div>
 
+          {addons.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Options proposées</span>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {addons.map(addon => (
+                  <label key={addon.id} className={`flex items-center gap-2 text-sm text-gray-700 ${addon.is_active ? '' : 'opacity-50'}`}>
+                    <input
+                      type="checkbox"
+                      checked={selectedAddonIds.includes(addon.id)}
+                      onChange={() => toggleAddon(addon.id)}
+                      className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                    />
+                    {addon.name}
+                    <span className="text-gray-400">({addon.price} MAD {ADDON_PRICING_LABELS[addon.pricing_type]})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Image {car && '(optionnel - laissez vide pour conserver l\'actuelle)'}
+              Photos
             </label>
-            <input
-              type="file"
-              accept="image/*"
-              onChange={handleFileChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+            <CarGalleryEditor
+              items={gallery}
+              coverKey={coverKey}
+              onChange={setGallery}
+              onCoverChange={setCoverKey}
             />
-            {imagePreview && (
-              <div className="mt-4">
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="w-full h-48 object-cover rounded-lg border border-gray-300"
-                />
-              </div>
-            )}
           </div>
 
           <div className="flex gap-4 pt-4">
             <button
               type="button"
-              onClick={onClose}
+              onClick={handleClose}
               className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
             >
               Annuler
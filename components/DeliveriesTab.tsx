@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { BookingRequest, StaffProfile, SupabaseCar } from '../types';
+import { fetchBookings, BOOKING_STATUS_LABELS } from '../lib/bookings';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Car as CarIcon, MapPin, Phone, Plane } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DeliveriesTabProps {
+  cars: SupabaseCar[];
+  staff: StaffProfile;
+}
+
+const DeliveriesTab: React.FC<DeliveriesTabProps> = ({ cars, staff }) => {
+  const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBookings();
+  }, []);
+
+  const loadBookings = async () => {
+    try {
+      setBookings(await fetchBookings());
+    } catch (err: any) {
+      console.error('Error fetching deliveries:', err);
+      setError('Impossible de charger les livraisons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCarName = (carId: string) => {
+    const car = cars.find(c => c.id.toString() === carId);
+    return car ? `${car.brand} ${car.name}` : 'Véhicule supprimé';
+  };
+
+  // Cars still to hand over, or to collect back, by the signed-in driver
+  const today = getAgencyToday();
+  const deliveries = bookings
+    .filter(b =>
+      b.deliveryDriverEmail === staff.email &&
+      (b.status === 'confirmed' || b.status === 'in_progress') &&
+      b.dropoffDate >= today
+    )
+    .sort((a, b) =>
+      a.pickupDate.localeCompare(b.pickupDate) || (a.pickupTime || '99:99').localeCompare(b.pickupTime || '99:99')
+    );
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-800">Mes livraisons ({deliveries.length})</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {deliveries.map(booking => (
+          <div key={booking.id} className="bg-white rounded-xl shadow-md p-4 flex flex-wrap items-center gap-4">
+            <div className="w-28 text-center">
+              <span className="block text-sm font-semibold text-gray-900">{formatDisplayDate(booking.pickupDate)}</span>
+              <span className="block text-2xl font-bold text-gray-900">{booking.pickupTime || '--:--'}</span>
+            </div>
+
+            <div className="flex-1 min-w-[200px] space-y-1 text-sm text-gray-700">
+              <p className="flex items-center gap-2 font-semibold text-gray-900">
+                <MapPin size={16} className="text-gold-600" /> {booking.city}
+              </p>
+              {booking.flightNumber && (
+                <p className="flex items-center gap-2">
+                  <Plane size={14} className="text-gray-500" />
+                  {booking.flightNumber}
+                  {booking.flightArrivalTime && ` · arrivée ${booking.flightArrivalTime}`}
+                  {booking.flightTerminal && ` · ${booking.flightTerminal}`}
+                </p>
+              )}
+              <p>
+                {booking.fullName} ·{' '}
+                <a href={`tel:${booking.phone}`} className="inline-flex items-center gap-1 hover:underline">
+                  <Phone size={12} /> {booking.phone}
+                </a>
+              </p>
+              <p className="flex items-center gap-2 text-gray-500">
+                <CarIcon size={14} /> {getCarName(booking.carId)}
+                <span>· Retour le {formatDisplayDate(booking.dropoffDate)}{booking.returnTime && ` à ${booking.returnTime}`}</span>
+              </p>
+            </div>
+
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+              booking.status === 'in_progress' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
+            }`}>
+              {BOOKING_STATUS_LABELS[booking.status]}
+            </span>
+          </div>
+        ))}
+
+        {deliveries.length === 0 && (
+          <div className="bg-white rounded-xl shadow-md text-center py-12">
+            <p className="text-gray-500 text-lg">Aucune livraison attribuée</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeliveriesTab;
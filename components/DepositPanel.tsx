@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { BookingDeposit, BookingRequest, DamagePoint, DepositMethod, DepositStatus, RetentionCategory } from '../types';
+import {
+  addRetention,
+  deleteRetention,
+  fetchBookingDeposit,
+  getRetainedAmount,
+  recordDeposit,
+  releaseDeposit,
+  DEPOSIT_METHOD_LABELS,
+  DEPOSIT_STATUS_LABELS,
+  RETENTION_CATEGORY_LABELS,
+} from '../lib/deposits';
+import { compareInspections, fetchBookingInspections } from '../lib/inspections';
+import { AGENCY_TIME_ZONE } from '../lib/dates';
+import { Loader2, Plus, Trash2, Wallet } from 'lucide-react';
+
+interface DepositPanelProps {
+  booking: BookingRequest;
+}
+
+const inputStyle = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent text-sm";
+
+const STATUS_STYLES: Record<DepositStatus, string> = {
+  held: 'bg-amber-100 text-amber-800',
+  partially_retained: 'bg-orange-100 text-orange-800',
+  retained: 'bg-red-100 text-red-800',
+  released: 'bg-green-100 text-green-800',
+};
+
+const emptyRetentionForm = {
+  amount: '',
+  category: 'damage' as RetentionCategory,
+  reason: '',
+  damage_id: '',
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: AGENCY_TIME_ZONE,
+  });
+
+const DepositPanel: React.FC<DepositPanelProps> = ({ booking }) => {
+  const [deposit, setDeposit] = useState<BookingDeposit | null>(null);
+  const [newDamages, setNewDamages] = useState<DamagePoint[]>([]);
+  const [amount, setAmount] = useState(booking.depositAmount !== undefined ? booking.depositAmount.toString() : '');
+  const [method, setMethod] = useState<DepositMethod>('card_preauth');
+  const [retentionForm, setRetentionForm] = useState(emptyRetentionForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAmount(booking.depositAmount !== undefined ? booking.depositAmount.toString() : '');
+    setRetentionForm(emptyRetentionForm);
+    setError(null);
+    loadDeposit();
+
+    // Damage found at return can be charged against the deposit
+    fetchBookingInspections(booking.id)
+      .then(inspections => {
+        const checkOut = inspections.find(i => i.kind === 'check_out');
+        const checkIn = inspections.find(i => i.kind === 'check_in');
+        setNewDamages(checkOut && checkIn ? compareInspections(checkOut, checkIn).newDamages : checkIn?.damages || []);
+      })
+      .catch(err => console.error('Error fetching inspections:', err.message));
+  }, [booking.id]);
+
+  const loadDeposit = async () => {
+    try {
+      setDeposit(await fetchBookingDeposit(booking.id));
+    } catch (err: any) {
+      console.error('Error fetching deposit:', err);
+      setError('Impossible de charger la caution');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadDeposit();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de la mise à jour de la caution');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecord = () => run(async () => {
+    const value = parseInt(amount, 10);
+    if (isNaN(value)) throw new Error('Indiquez le montant de la caution');
+    await recordDeposit(booking.id, value, method);
+  });
+
+  const handleAddRetention = () => run(async () => {
+    if (!deposit) return;
+    const value = parseInt(retentionForm.amount, 10);
+    if (isNaN(value) || value <= 0) throw new Error('Le montant retenu doit être un nombre positif');
+    if (!retentionForm.reason.trim()) throw new Error('Indiquez le motif de la retenue');
+    await addRetention(deposit, {
+      amount: value,
+      category: retentionForm.category,
+      reason: retentionForm.reason.trim(),
+      damage_id: retentionForm.category === 'damage' && retentionForm.damage_id ? retentionForm.damage_id : null,
+    });
+    setRetentionForm(emptyRetentionForm);
+  });
+
+  const handleRelease = () => {
+    if (!deposit) return;
+    const refund = deposit.amount - getRetainedAmount(deposit);
+    if (!confirm(`Restituer ${refund.toLocaleString()} MAD au client et clôturer la caution ?`)) return;
+    run(() => releaseDeposit(deposit));
+  };
+
+  const getDamageLabel = (damageId: string) => {
+    const idx = newDamages.findIndex(d => d.id === damageId);
+    return idx === -1 ? 'Dégât' : `Dégât n°${idx + 1}${newDamages[idx].note ? ` (${newDamages[idx].note})` : ''}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="animate-spin text-gold-600" size={20} />
+      </div>
+    );
+  }
+
+  const retained = deposit ? getRetainedAmount(deposit) : 0;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h3 className="font-medium text-gray-900 flex items-center gap-2">
+        <Wallet size={16} className="text-gold-600" /> Caution
+      </h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!deposit ? (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.replace(/\D/g, ''))}
+            placeholder="Montant (MAD)"
+            className={inputStyle}
+          />
+          <select value={method} onChange={(e) => setMethod(e.target.value as DepositMethod)} className={inputStyle}>
+            {(Object.keys(DEPOSIT_METHOD_LABELS) as DepositMethod[]).map(m => (
+              <option key={m} value={m}>{DEPOSIT_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRecord}
+            disabled={saving || !amount}
+            className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+            <span>Caution encaissée</span>
+          </button>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-semibold text-gray-900">{deposit.amount.toLocaleString()} MAD</p>
+              <p className="text-gray-500">
+                {DEPOSIT_METHOD_LABELS[deposit.method]} · le {formatTimestamp(deposit.collected_at)}
+              </p>
+            </div>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[deposit.status]}`}>
+              {DEPOSIT_STATUS_LABELS[deposit.status]}
+            </span>
+          </div>
+
+          {deposit.deposit_retentions.length > 0 && (
+            <ul className="space-y-1">
+              {deposit.deposit_retentions.map(retention => (
+                <li key={retention.id} className="flex items-center justify-between gap-2">
+                  <span className="text-gray-700">
+                    <span className="font-medium">{RETENTION_CATEGORY_LABELS[retention.category]}</span>
+                    {retention.damage_id && ` · ${getDamageLabel(retention.damage_id)}`} — {retention.reason}
+                  </span>
+                  <span className="flex items-center gap-2 whitespace-nowrap">
+                    -{retention.amount.toLocaleString()} MAD
+                    {deposit.status === 'held' && (
+                      <button
+                        onClick={() => run(() => deleteRetention(deposit, retention.id))}
+                        className="text-red-500 hover:text-red-700"
+                        aria-label="Supprimer"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {deposit.status === 'held' ? (
+            <>
+              <div className="grid grid-cols-2 gap-2 pt-2 border-t">
+                <select
+                  value={retentionForm.category}
+                  onChange={(e) => setRetentionForm({ ...retentionForm, category: e.target.value as RetentionCategory })}
+                  className={inputStyle}
+                >
+                  {(Object.keys(RETENTION_CATEGORY_LABELS) as RetentionCategory[]).map(c => (
+                    <option key={c} value={c}>{RETENTION_CATEGORY_LABELS[c]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={retentionForm.amount}
+                  onChange={(e) => setRetentionForm({ ...retentionForm, amount: e.target.value.replace(/\D/g, '') })}
+                  placeholder="Montant retenu"
+                  className={inputStyle}
+                />
+                {retentionForm.category === 'damage' && newDamages.length > 0 && (
+                  <select
+                    value={retentionForm.damage_id}
+                    onChange={(e) => setRetentionForm({ ...retentionForm, damage_id: e.target.value })}
+                    className={`${inputStyle} col-span-2`}
+                  >
+                    <option value="">Dégât de l'état des lieux (optionnel)</option>
+                    {newDamages.map(damage => (
+                      <option key={damage.id} value={damage.id}>{getDamageLabel(damage.id)}</option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="text"
+                  value={retentionForm.reason}
+                  onChange={(e) => setRetentionForm({ ...retentionForm, reason: e.target.value })}
+                  placeholder="Motif"
+                  className={`${inputStyle} col-span-2`}
+                />
+                <button
+                  onClick={handleAddRetention}
+                  disabled={saving || !retentionForm.amount}
+                  className="col-span-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all disabled:opacity-50"
+                >
+                  Ajouter une retenue
+                </button>
+              </div>
+              <button
+                onClick={handleRelease}
+                disabled={saving}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-all disabled:opacity-50"
+              >
+                {saving && <Loader2 className="animate-spin" size={16} />}
+                <span>Restituer {(deposit.amount - retained).toLocaleString()} MAD</span>
+              </button>
+            </>
+          ) : (
+            <p className="text-gray-600 pt-2 border-t">
+              {(deposit.amount - retained).toLocaleString()} MAD restitués
+              {retained > 0 && `, ${retained.toLocaleString()} MAD retenus`}
+              {deposit.released_at && ` · le ${formatTimestamp(deposit.released_at)}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepositPanel;
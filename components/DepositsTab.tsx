@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { SupabaseCar } from '../types';
+import { fetchOverdueDeposits, getRetainedAmount, OverdueDeposit, DEPOSIT_METHOD_LABELS } from '../lib/deposits';
+import { daysBetween } from '../lib/availability';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Phone } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DepositsTabProps {
+  cars: SupabaseCar[];
+}
+
+const DepositsTab: React.FC<DepositsTabProps> = ({ cars }) => {
+  const [deposits, setDeposits] = useState<OverdueDeposit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const today = getAgencyToday();
+
+  useEffect(() => {
+    loadDeposits();
+  }, []);
+
+  const loadDeposits = async () => {
+    try {
+      setDeposits(await fetchOverdueDeposits(today));
+    } catch (err: any) {
+      console.error('Error fetching deposits:', err);
+      setError('Impossible de charger les cautions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCarName = (carId: number | null) => {
+    const car = cars.find(c => c.id === carId);
+    return car ? `${car.brand} ${car.name}` : 'Véhicule supprimé';
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800">Cautions à restituer ({deposits.length})</h2>
+        <p className="text-sm text-gray-500">
+          Cautions encore bloquées après la date de retour. Restituez-les depuis la réservation.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Client</th>
+                <th className="px-4 py-3 font-medium">Véhicule</th>
+                <th className="px-4 py-3 font-medium">Retour prévu</th>
+                <th className="px-4 py-3 font-medium">Retard</th>
+                <th className="px-4 py-3 font-medium">Caution</th>
+                <th className="px-4 py-3 font-medium">Retenu</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deposits.map(deposit => {
+                const overdueDays = daysBetween(deposit.bookings.dropoff_date, today);
+                const retained = getRetainedAmount(deposit);
+                return (
+                  <tr key={deposit.id} className="border-t border-gray-100">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{deposit.bookings.full_name}</p>
+                      <a href={`tel:${deposit.bookings.phone}`} className="inline-flex items-center gap-1 text-gray-500 hover:underline">
+                        <Phone size={12} /> {deposit.bookings.phone}
+                      </a>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{getCarName(deposit.bookings.car_id)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {formatDisplayDate(deposit.bookings.dropoff_date)}
+                      {deposit.bookings.return_time && ` ${deposit.bookings.return_time.slice(0, 5)}`}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${overdueDays > 7 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+                        {overdueDays} j
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <p className="font-semibold text-gray-900">{deposit.amount.toLocaleString()} MAD</p>
+                      <p className="text-gray-500">{DEPOSIT_METHOD_LABELS[deposit.method]}</p>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">{retained > 0 ? `${retained.toLocaleString()} MAD` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {deposits.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">Aucune caution en retard de restitution</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DepositsTab;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { DriverRequirement } from '../types';
+import { fetchDriverRequirements, saveDriverRequirement, getRequirement } from '../lib/driverRequirements';
+import { CAR_CATEGORIES } from '../lib/cars';
+import { Loader2, Save } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+
+type RequirementForm = Record<string, { min_age: string; min_licence_years: string }>;
+
+const DriverRequirementsTab: React.FC = () => {
+  const [forms, setForms] = useState<RequirementForm>({});
+  const [loading, setLoading] = useState(true);
+  const [savingCategory, setSavingCategory] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRequirements();
+  }, []);
+
+  const loadRequirements = async () => {
+    try {
+      const requirements = await fetchDriverRequirements();
+      const next: RequirementForm = {};
+      CAR_CATEGORIES.forEach(category => {
+        const requirement = getRequirement(category, requirements);
+        next[category] = {
+          min_age: String(requirement.min_age),
+          min_licence_years: String(requirement.min_licence_years),
+        };
+      });
+      setForms(next);
+    } catch (err: any) {
+      console.error('Error fetching driver requirements:', err);
+      setError('Impossible de charger les conditions conducteur');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = (category: string, field: 'min_age' | 'min_licence_years', value: string) => {
+    setForms(prev => ({ ...prev, [category]: { ...prev[category], [field]: value.replace(/\D/g, '') } }));
+  };
+
+  const handleSave = async (category: string) => {
+    setSavingCategory(category);
+    setError(null);
+    try {
+      const requirement: DriverRequirement = {
+        category,
+        min_age: parseInt(forms[category].min_age, 10),
+        min_licence_years: parseInt(forms[category].min_licence_years, 10) || 0,
+      };
+      if (isNaN(requirement.min_age) || requirement.min_age < 18) {
+        throw new Error("L'âge minimum doit être d'au moins 18 ans");
+      }
+      await saveDriverRequirement(requirement);
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement des conditions');
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-semibold text-gray-800">Conditions Conducteur</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Catégorie</th>
+                <th className="px-4 py-3 font-medium">Âge minimum</th>
+                <th className="px-4 py-3 font-medium">Ancienneté du permis (ans)</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {CAR_CATEGORIES.map(category => (
+                <tr key={category} className="border-t border-gray-100">
+                  <td className="px-4 py-3 font-semibold text-gray-900">{category}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={forms[category]?.min_age || ''}
+                      onChange={(e) => updateForm(category, 'min_age', e.target.value)}
+                      className={inputStyle}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={forms[category]?.min_licence_years || ''}
+                      onChange={(e) => updateForm(category, 'min_licence_years', e.target.value)}
+                      className={inputStyle}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => handleSave(category)}
+                      disabled={savingCategory !== null}
+                      className="flex items-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+                    >
+                      {savingCategory === category ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+                      <span>Enregistrer</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Les conditions sont vérifiées à la date de départ. Un conducteur refusé se voit proposer les catégories qui lui sont accessibles.
+      </p>
+    </div>
+  );
+};
+
+export default DriverRequirementsTab;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Car } from '../types';
 import { 
   Fuel, 
@@ -17,6 +17,8 @@ import {
   Baby
 } from 'lucide-react';
 import ScrollReveal from './ScrollReveal';
+import CarGallery from './CarGallery';
+import Lightbox from './Lightbox';
 
 interface FleetProps {
   cars: Car[];
@@ -24,6 +26,8 @@ interface FleetProps {
 }
 
 const Fleet: React.FC<FleetProps> = ({ cars, onSelectCar }) => {
+  const [lightbox, setLightbox] = useState<{ car: Car; index: number } | null>(null);
+
   // Helper to get the correct icon component
   const getBadgeIcon = (iconName?: string) => {
     switch(iconName) {
@@ -85,13 +89,10 @@ const Fleet: React.FC<FleetProps> = ({ cars, onSelectCar }) => {
 
                 {/* Image Section */}
                 <div className="relative h-72 md:h-96 overflow-hidden bg-gray-100 shrink-0">
-                  <img 
-                    src={car.image} 
+                  <CarGallery
+                    images={car.images}
                     alt={`${car.make} ${car.model} - Location de voiture ${car.type} à Casablanca, Maroc - ${car.pricePerDay} MAD/jour`}
-                    className="w-full h-full object-cover transition-transform duration-500 ease-out group-hover:scale-105"
-                    loading="lazy"
-                    decoding="async"
-                    style={{ willChange: 'transform' }}
+                    onOpen={(index) => setLightbox({ car, index })}
                   />
                   
                   {/* Gradient Overlay for Text Readability */}
@@ -146,7 +147,7 @@ const Fleet: React.FC<FleetProps> = ({ cars, onSelectCar }) => {
                     
                     {/* Availability Pill */}
                     <div className="flex flex-col items-end">
-                      {car.isAvailable ? (
+                      {car.isAvailable && car.availableCount > 0 ? (
                         <span className="flex items-center gap-2 text-[10px] md:text-xs font-bold text-emerald-700 bg-emerald-50 px-2 py-1 md:px-3 md:py-1.5 rounded-full border border-emerald-100 shadow-sm">
                             <CircleDot size={8} className="fill-emerald-500 text-emerald-500 animate-pulse" />
                             {car.availableCount} dispo
@@ -306,6 +307,15 @@ const Fleet: React.FC<FleetProps> = ({ cars, onSelectCar }) => {
           ))}
         </div>
       </div>
+
+      {lightbox && (
+        <Lightbox
+          images={lightbox.car.images}
+          startIndex={lightbox.index}
+          alt={`${lightbox.car.make} ${lightbox.car.model}`}
+          onClose={() => setLightbox(null)}
+        />
+      )}
     </section>
   );
 };
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { SupabaseCar } from '../types';
+import { applyFleetImport, planFleetImport, FleetImportPlan, FLEET_COLUMNS } from '../lib/fleetImport';
+import { readSpreadsheetFile, SPREADSHEET_ACCEPT } from '../lib/spreadsheet';
+import { formatAuditValue } from '../lib/audit';
+import { ArrowRight, FileUp, Loader2, X } from 'lucide-react';
+
+interface FleetImportModalProps {
+  cars: SupabaseCar[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const FleetImportModal: React.FC<FleetImportModalProps> = ({ cars, onClose, onImported }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<FleetImportPlan | null>(null);
+  const [reading, setReading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    setError(null);
+    setPlan(null);
+    setFileName(file.name);
+    try {
+      setPlan(planFleetImport(await readSpreadsheetFile(file), cars));
+    } catch (err: any) {
+      console.error('Error reading fleet file:', err);
+      setError(err.message || 'Impossible de lire le fichier');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setApplying(true);
+    setError(null);
+    try {
+      await applyFleetImport(plan);
+      onImported();
+      onClose();
+    } catch (err: any) {
+      // Nothing was written, so the checked plan can be fixed and applied again
+      setError(err.message || 'Erreur lors de l\'import');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const changeCount = plan ? plan.creates.length + plan.updates.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">Importer des véhicules</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="text-sm text-gray-600 space-y-1">
+            <p>
+              Fichier CSV ou Excel (.xlsx) avec une ligne d'en-tête. Colonnes reconnues :{' '}
+              <span className="font-mono text-xs">{FLEET_COLUMNS.join(', ')}</span>.
+            </p>
+            <p>
+              Une ligne avec un <span className="font-mono text-xs">id</span> met à jour ce véhicule, sans id elle en crée
+              un nouveau. Partez d'un export pour garder le bon format.
+            </p>
+          </div>
+
+          <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 text-gray-700">
+            {reading ? <Loader2 className="animate-spin" size={20} /> : <FileUp size={20} />}
+            <span>{fileName || 'Choisir un fichier'}</span>
+            <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFileChange} className="hidden" />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-4 text-sm">
+              <div className="flex flex-wrap gap-2">
+                <span className="px-2 py-1 rounded-full bg-green-100 text-green-800">{plan.creates.length} création(s)</span>
+                <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">{plan.updates.length} mise(s) à jour</span>
+                <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-700">{plan.unchanged} inchangé(s)</span>
+                {plan.errors.length > 0 && (
+                  <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">{plan.errors.length} ligne(s) en erreur</span>
+                )}
+              </div>
+
+              {plan.errors.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-2">
+                  <p className="font-medium text-red-800">Aucun changement ne sera appliqué tant que ces lignes sont en erreur :</p>
+                  <ul className="space-y-1 text-red-700">
+                    {plan.errors.map(({ line, messages }) => (
+                      <li key={line}>
+                        <span className="font-medium">Ligne {line} :</span> {messages.join(' · ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.creates.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium text-gray-900">Nouveaux véhicules</h3>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {plan.creates.map(({ line, car }) => (
+                      <li key={line} className="px-3 py-2 flex justify-between gap-2">
+                        <span className="text-gray-900">{car.brand} {car.name} <span className="text-gray-500">· {car.category}</span></span>
+                        <span className="text-gray-700">{car.price_per_day} MAD/jour</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.updates.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium text-gray-900">Modifications</h3>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {plan.updates.map(({ line, car, diff }) => (
+                      <li key={line} className="px-3 py-2 space-y-1">
+                        <p className="font-medium text-gray-900">{car.brand} {car.name} <span className="text-gray-400 font-normal">#{car.id}</span></p>
+                        {diff.map(change => (
+                          <p key={change.field} className="flex flex-wrap items-center gap-1 text-gray-700">
+                            <span className="font-mono text-xs">{change.field}</span>
+                            <span className="text-red-700 line-through break-all">{formatAuditValue(change.before)}</span>
+                            <ArrowRight size={12} className="text-gray-400" />
+                            <span className="text-green-700 break-all">{formatAuditValue(change.after)}</span>
+                          </p>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+            >
+              Annuler
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!plan || applying || plan.errors.length > 0 || changeCount === 0}
+              className="flex-1 px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {applying && <Loader2 className="animate-spin" size={20} />}
+              <span>Appliquer {changeCount > 0 ? `${changeCount} changement(s)` : ''}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FleetImportModal;
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { CarPhoto } from '../types';
+import ResponsiveImage from './ResponsiveImage';
+
+const SWIPE_THRESHOLD = 50; // px of horizontal travel before a touch counts as a swipe
+
+// Touch handlers calling onPrev / onNext on a horizontal swipe
+export const useSwipe = (onPrev: () => void, onNext: () => void) => {
+  const startX = useRef<number | null>(null);
+
+  return {
+    onTouchStart: (e: React.TouchEvent) => {
+      startX.current = e.touches[0].clientX;
+    },
+    onTouchEnd: (e: React.TouchEvent) => {
+      if (startX.current === null) return;
+      const deltaX = e.changedTouches[0].clientX - startX.current;
+      startX.current = null;
+      if (deltaX > SWIPE_THRESHOLD) onPrev();
+      else if (deltaX < -SWIPE_THRESHOLD) onNext();
+    },
+  };
+};
+
+interface LightboxProps {
+  images: CarPhoto[];
+  startIndex: number;
+  alt: string;
+  onClose: () => void;
+}
+
+const Lightbox: React.FC<LightboxProps> = ({ images, startIndex, alt, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  const hasMany = images.length > 1;
+
+  const showPrev = () => setIndex(prev => (prev - 1 + images.length) % images.length);
+  const showNext = () => setIndex(prev => (prev + 1) % images.length);
+  const swipe = useSwipe(showPrev, showNext);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') showPrev();
+      else if (e.key === 'ArrowRight') showNext();
+    };
+    // Keep the page behind from scrolling while the lightbox is open
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose, images.length]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/90 flex items-center justify-center"
+      role="dialog"
+      aria-modal="true"
+      aria-label={alt}
+      onClick={onClose}
+      {...swipe}
+    >
+      <div className="relative w-full h-full overflow-hidden">
+        <ResponsiveImage
+          key={images[index].url}
+          photo={images[index]}
+          alt={`${alt} - photo ${index + 1}`}
+          sizes="100vw"
+          className="w-full h-full object-contain select-none"
+          loading="eager"
+        />
+      </div>
+
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+        aria-label="Fermer"
+      >
+        <X size={24} />
+      </button>
+
+      {hasMany && (
+        <>
+          <button
+            onClick={(e) => { e.stopPropagation(); showPrev(); }}
+            className="absolute left-2 md:left-6 p-2 md:p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+            aria-label="Photo précédente"
+          >
+            <ChevronLeft size={28} />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); showNext(); }}
+            className="absolute right-2 md:right-6 p-2 md:p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+            aria-label="Photo suivante"
+          >
+            <ChevronRight size={28} />
+          </button>
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/60 text-white text-sm">
+            {index + 1} / {images.length}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Lightbox;
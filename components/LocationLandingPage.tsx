@@ -10,8 +10,8 @@ import {
   ThumbsUp, HelpCircle, ChevronRight, Compass, ShieldAlert 
 } from 'lucide-react';
 import { LOCATIONS } from '../lib/locationsData';
-import { supabase } from '../lib/supabaseClient';
-import { Car, SupabaseCar } from '../types';
+import { fetchCatalog } from '../lib/cars';
+import { Car } from '../types';
 
 const LocationLandingPage: React.FC = () => {
   const { citySlug } = useParams<{ citySlug: string }>();
@@ -254,77 +254,7 @@ const LocationLandingPage: React.FC = () => {
     const fetchCars = async () => {
       try {
         setIsLoading(true);
-        const { data, error } = await supabase.from('cars').select('*');
-
-        if (error) throw error;
-
-        if (data) {
-          const mappedCars: Car[] = (data as SupabaseCar[]).map((row, index) => {
-            let accentColor = '#2C7873';
-            let badgeIcon = 'Star';
-            let badge = undefined;
-
-            const catLower = row.category.toLowerCase();
-            if (catLower.includes('suv') || catLower.includes('4x4')) {
-              accentColor = '#E27D60';
-              badgeIcon = 'Fire';
-            } else if (catLower.includes('luxe') || catLower.includes('luxury') || row.price_per_day > 600) {
-              accentColor = '#E8B44A';
-              badgeIcon = 'Crown';
-              badge = 'Luxe';
-            } else if (catLower.includes('eco') || catLower.includes('citadine')) {
-              accentColor = '#2C7873';
-              badgeIcon = 'Sparkles';
-              if (row.price_per_day < 300) badge = 'Meilleur Prix';
-            } else {
-              accentColor = '#1A3C5A';
-              badgeIcon = 'Zap';
-            }
-
-            if (row.promo_price && row.promo_price < row.price_per_day) {
-              badge = 'Promo';
-              badgeIcon = 'Zap';
-            }
-
-            return {
-              id: row.id.toString(),
-              make: row.brand,
-              model: row.name,
-              type: row.category,
-              transmission: row.gearbox,
-              fuel: row.fuel_type,
-              pricePerDay: row.price_per_day,
-              promoPrice: row.promo_price,
-              features: ['Climatisation', 'Bluetooth', 'Sécurité ABS', 'GPS'],
-              accessories: ['Sièges auto', 'JAWAZ'],
-              image: row.image_url,
-              description: row.description || undefined,
-              isAvailable: row.is_available,
-              accentColor,
-              rating: 4.5 + (index % 5) * 0.1,
-              reviewCount: 40 + (index * 12),
-              availableCount: row.is_available ? (3 + (index % 5)) : 0,
-              badge,
-              badgeIcon
-            };
-          });
-
-          // Sort cars by model
-          const priorityOrder = ['kardian', 'accent', 'duster', 'creta'];
-          const sortedCars = mappedCars.sort((a, b) => {
-            const modelA = a.model.toLowerCase();
-            const modelB = b.model.toLowerCase();
-            const indexA = priorityOrder.findIndex(p => modelA.includes(p));
-            const indexB = priorityOrder.findIndex(p => modelB.includes(p));
-
-            if (indexA !== -1 && indexB !== -1) return indexA - indexB;
-            if (indexA !== -1) return -1;
-            if (indexB !== -1) return 1;
-            return 0;
-          });
-
-          setCars(sortedCars);
-        }
+        setCars(await fetchCatalog());
       } catch (err: any) {
         console.error('Error fetching cars:', err.message);
         setError('Impossible de charger les véhicules.');
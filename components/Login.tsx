@@ -1,14 +1,38 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
-import { LogIn, Loader2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { fetchCurrentStaff } from '../lib/staff';
+import { formatLockoutDelay, sendPasswordReset, signInStaff, signOut } from '../lib/auth';
+import { LogIn, Loader2, Lock, Mail } from 'lucide-react';
+
+// Set by the dashboard when it sends users back here
+interface LoginLocationState {
+  from?: string;
+  expired?: boolean;
+}
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'login' | 'reset'>('login');
+  const [resetSent, setResetSent] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(new Date());
   const navigate = useNavigate();
+  const location = useLocation();
+  const state = (location.state || {}) as LoginLocationState;
+
+  // Tick once a second while locked so the countdown stays current
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      const current = new Date();
+      setNow(current);
+      if (current >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,21 +40,23 @@ const Login: React.FC = () => {
     setError(null);
 
     try {
-      const { data, error: signInError } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (signInError) throw signInError;
-
-      if (data.user) {
-        // Vérifier que l'email est celui de l'admin
-        if (data.user.email === 'admin@trevi.com') {
-          navigate('/dashboard');
-        } else {
-          await supabase.auth.signOut();
-          setError('Accès non autorisé. Seuls les administrateurs peuvent accéder.');
-        }
+      const result = await signInStaff(email, password);
+      if (result.lockedUntil) {
+        setNow(new Date());
+        setLockedUntil(result.lockedUntil);
+      }
+      if (result.error) {
+        // The lockout banner already says why
+        if (!result.lockedUntil) setError(result.error);
+        return;
+      }
+
+      // Only accounts registered as staff members get in
+      if (await fetchCurrentStaff()) {
+        navigate(state.from || '/dashboard', { replace: true });
+      } else {
+        await signOut();
+        setError('Accès non autorisé. Ce compte n\'a pas de rôle dans l\'équipe.');
       }
     } catch (err: any) {
       setError(err.message || 'Erreur lors de la connexion');
@@ -39,26 +65,73 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await sendPasswordReset(email);
+      setResetSent(true);
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'envoi de l\'email');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: 'login' | 'reset') => {
+    setMode(next);
+    setError(null);
+    setResetSent(false);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-luxury-50 to-luxury-100 flex items-center justify-center px-4 py-12">
       <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
         <div className="text-center mb-8">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-gold-600 rounded-full mb-4">
-            <LogIn className="text-white" size={32} />
+            {mode === 'login' ? <LogIn className="text-white" size={32} /> : <Mail className="text-white" size={32} />}
           </div>
           <h1 className="text-3xl font-serif font-bold text-gray-900 mb-2">
-            Panel d'Administration
+            {mode === 'login' ? 'Panel d\'Administration' : 'Mot de passe oublié'}
           </h1>
-          <p className="text-gray-600">Connectez-vous pour continuer</p>
+          <p className="text-gray-600">
+            {mode === 'login'
+              ? 'Connectez-vous pour continuer'
+              : 'Recevez un lien pour choisir un nouveau mot de passe'}
+          </p>
         </div>
 
-        <form onSubmit={handleLogin} className="space-y-6">
+        <form onSubmit={mode === 'login' ? handleLogin : handleReset} className="space-y-6">
+          {state.expired && mode === 'login' && !error && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+              Votre session a expiré. Reconnectez-vous pour reprendre votre saisie.
+            </div>
+          )}
+
+          {lockedUntil && mode === 'login' && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+              <Lock size={16} className="mt-0.5 shrink-0" />
+              <span>
+                Trop de tentatives échouées. Réessayez dans {formatLockoutDelay(lockedUntil, now)} ou
+                réinitialisez votre mot de passe.
+              </span>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
               {error}
             </div>
           )}
 
+          {resetSent && (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+              Si un compte existe pour {email}, un email de réinitialisation vient d'être envoyé.
+            </div>
+          )}
+
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
               Email
@@ -73,37 +146,63 @@ const Login: React.FC = () => {
             />
           </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Mot de passe
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent transition-all"
-            />
-          </div>
+          {mode === 'login' && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Mot de passe
+                </label>
+                <button
+                  type="button"
+                  onClick={() => switchMode('reset')}
+                  className="text-sm text-gold-700 hover:underline"
+                >
+                  Mot de passe oublié ?
+                </button>
+              </div>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent transition-all"
+              />
+            </div>
+          )}
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || (mode === 'login' && lockedUntil !== null)}
             className="w-full bg-gold-600 text-white py-3 rounded-lg font-medium hover:bg-gold-700 transition-all transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {loading ? (
               <>
                 <Loader2 className="animate-spin" size={20} />
-                <span>Connexion en cours...</span>
+                <span>{mode === 'login' ? 'Connexion en cours...' : 'Envoi en cours...'}</span>
               </>
-            ) : (
+            ) : mode === 'login' ? (
               <>
                 <LogIn size={20} />
                 <span>Se connecter</span>
               </>
+            ) : (
+              <>
+                <Mail size={20} />
+                <span>Envoyer le lien</span>
+              </>
             )}
           </button>
+
+          {mode === 'reset' && (
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              className="w-full text-sm text-gray-600 hover:text-gray-900"
+            >
+              Retour à la connexion
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import { ComplianceDocument, ComplianceDocumentKind, MaintenanceKind, SupabaseCar, SupabaseVehicleUnit, UnitMaintenance } from '../types';
+import { fetchVehicleUnits } from '../lib/vehicleUnits';
+import {
+  deleteMaintenance,
+  fetchComplianceDocuments,
+  fetchMaintenance,
+  getDueItems,
+  saveComplianceDocument,
+  saveMaintenance,
+  COMPLIANCE_KIND_LABELS,
+  DUE_SOON_DAYS,
+  MAINTENANCE_KIND_LABELS,
+} from '../lib/maintenance';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { AlertTriangle, Loader2, Plus, Save, Trash2, Wrench } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface MaintenanceTabProps {
+  cars: SupabaseCar[];
+}
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const emptyMaintenanceForm = {
+  kind: 'oil_change' as MaintenanceKind,
+  description: '',
+  starts_on: '',
+  ends_on: '',
+  mileage: '',
+  cost: '',
+  next_due_on: '',
+  next_due_mileage: '',
+};
+
+type ComplianceForm = Record<ComplianceDocumentKind, { reference: string; expires_on: string }>;
+
+const toNumber = (value: string) => (value ? parseInt(value, 10) : null);
+
+const MaintenanceTab: React.FC<MaintenanceTabProps> = ({ cars }) => {
+  const [units, setUnits] = useState<SupabaseVehicleUnit[]>([]);
+  const [maintenance, setMaintenance] = useState<UnitMaintenance[]>([]);
+  const [documents, setDocuments] = useState<ComplianceDocument[]>([]);
+  const [unitId, setUnitId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyMaintenanceForm);
+  const [complianceForm, setComplianceForm] = useState<ComplianceForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = getAgencyToday();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [unitData, maintenanceData, documentData] = await Promise.all([
+        fetchVehicleUnits(),
+        fetchMaintenance(),
+        fetchComplianceDocuments(),
+      ]);
+      setUnits(unitData);
+      setMaintenance(maintenanceData);
+      setDocuments(documentData);
+      setUnitId(current => current ?? unitData[0]?.id ?? null);
+    } catch (err: any) {
+      console.error('Error fetching maintenance data:', err);
+      setError('Impossible de charger les entretiens');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reset the forms to the selected unit's papers
+  useEffect(() => {
+    const form = {} as ComplianceForm;
+    (Object.keys(COMPLIANCE_KIND_LABELS) as ComplianceDocumentKind[]).forEach(kind => {
+      const document = documents.find(d => d.unit_id === unitId && d.kind === kind);
+      form[kind] = { reference: document?.reference || '', expires_on: document?.expires_on || '' };
+    });
+    setComplianceForm(form);
+  }, [unitId, documents]);
+
+  useEffect(() => {
+    setFormData(emptyMaintenanceForm);
+  }, [unitId]);
+
+  const getUnitLabel = (unit: SupabaseVehicleUnit) => {
+    const car = cars.find(c => c.id === unit.car_id);
+    return `${unit.plate_number} — ${car ? `${car.brand} ${car.name}` : 'Véhicule supprimé'}`;
+  };
+
+  const handleSaveDocument = async (kind: ComplianceDocumentKind) => {
+    if (unitId === null || !complianceForm) return;
+    setError(null);
+    try {
+      await saveComplianceDocument({
+        unit_id: unitId,
+        kind,
+        reference: complianceForm[kind].reference.trim() || null,
+        expires_on: complianceForm[kind].expires_on || null,
+      });
+      await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (record: UnitMaintenance) => {
+    if (!confirm(`Supprimer l'entretien du ${formatDisplayDate(record.starts_on)} ?`)) return;
+    try {
+      await deleteMaintenance(record.id);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (unitId === null) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveMaintenance({
+        unit_id: unitId,
+        kind: formData.kind,
+        description: formData.description.trim() || null,
+        starts_on: formData.starts_on,
+        ends_on: formData.ends_on || formData.starts_on,
+        mileage: toNumber(formData.mileage),
+        cost: toNumber(formData.cost),
+        next_due_on: formData.next_due_on || null,
+        next_due_mileage: toNumber(formData.next_due_mileage),
+      });
+      setFormData(emptyMaintenanceForm);
+      await loadData();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement de l\'entretien');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const dueItems = getDueItems(units, maintenance, documents, today);
+  const selectedUnit = units.find(u => u.id === unitId);
+  const unitRecords = maintenance.filter(m => m.unit_id === unitId);
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-semibold text-gray-800">Entretien & Conformité</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Due soon */}
+      <div className="bg-white rounded-xl shadow-md p-6 space-y-3">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <AlertTriangle size={18} className="text-amber-500" />
+          À prévoir sous {DUE_SOON_DAYS} jours ({dueItems.length})
+        </h3>
+        {dueItems.length === 0 ? (
+          <p className="text-sm text-gray-500">Rien à prévoir pour le moment.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {dueItems.map((item, idx) => {
+              const unit = units.find(u => u.id === item.unitId)!;
+              return (
+                <li key={idx} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                  <button onClick={() => setUnitId(item.unitId)} className="text-left hover:underline">
+                    <span className="font-medium text-gray-900">{item.label}</span>
+                    <span className="text-gray-500"> · {getUnitLabel(unit)}</span>
+                  </button>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${item.overdue ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+                    {item.overdue ? 'En retard' : 'Bientôt'}
+                    {item.dueOn && ` · ${formatDisplayDate(item.dueOn)}`}
+                    {item.dueMileage !== undefined && ` · ${item.dueMileage.toLocaleString()} km`}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {units.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md text-center py-12">
+          <p className="text-gray-500 text-lg">Aucune unité enregistrée</p>
+        </div>
+      ) : (
+        <>
+          <div className="max-w-md">
+            <label className={labelStyle}>Unité</label>
+            <select
+              value={unitId ?? ''}
+              onChange={(e) => setUnitId(parseInt(e.target.value, 10))}
+              className={inputStyle}
+            >
+              {units.map(unit => (
+                <option key={unit.id} value={unit.id}>{getUnitLabel(unit)}</option>
+              ))}
+            </select>
+            {selectedUnit && (
+              <p className="text-sm text-gray-500 mt-1">{selectedUnit.mileage.toLocaleString()} km au compteur</p>
+            )}
+          </div>
+
+          {/* Compliance documents */}
+          {complianceForm && (
+            <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+              <h3 className="font-semibold text-gray-900">Papiers du véhicule</h3>
+              {(Object.keys(COMPLIANCE_KIND_LABELS) as ComplianceDocumentKind[]).map(kind => {
+                const expiresOn = complianceForm[kind].expires_on;
+                const isExpired = !!expiresOn && expiresOn < today;
+                return (
+                  <div key={kind} className="grid grid-cols-1 md:grid-cols-[160px_1fr_180px_auto] gap-3 items-center">
+                    <span className={`text-sm font-medium ${isExpired ? 'text-red-700' : 'text-gray-700'}`}>
+                      {COMPLIANCE_KIND_LABELS[kind]}
+                    </span>
+                    <input
+                      type="text"
+                      value={complianceForm[kind].reference}
+                      onChange={(e) => setComplianceForm({ ...complianceForm, [kind]: { ...complianceForm[kind], reference: e.target.value } })}
+                      placeholder="Référence / n° de police"
+                      className={inputStyle}
+                    />
+                    <input
+                      type="date"
+                      value={expiresOn}
+                      onChange={(e) => setComplianceForm({ ...complianceForm, [kind]: { ...complianceForm[kind], expires_on: e.target.value } })}
+                      className={`${inputStyle} ${isExpired ? 'border-red-300' : ''}`}
+                      aria-label="Date d'expiration"
+                    />
+                    <button
+                      onClick={() => handleSaveDocument(kind)}
+                      className="px-3 py-2 text-gold-700 hover:bg-gray-100 rounded-lg"
+                      aria-label="Enregistrer"
+                    >
+                      <Save size={18} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Maintenance records */}
+          <div className="bg-white rounded-xl shadow-md overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600 text-left">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Intervention</th>
+                    <th className="px-4 py-3 font-medium">Immobilisation</th>
+                    <th className="px-4 py-3 font-medium">Kilométrage</th>
+                    <th className="px-4 py-3 font-medium">Coût</th>
+                    <th className="px-4 py-3 font-medium">Prochaine échéance</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {unitRecords.map(record => {
+                    const inProgress = record.starts_on <= today && today < record.ends_on;
+                    return (
+                      <tr key={record.id} className="border-t border-gray-100">
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-gray-900">{MAINTENANCE_KIND_LABELS[record.kind]}</p>
+                          {record.description && <p className="text-gray-500">{record.description}</p>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDisplayDate(record.starts_on)}
+                          {record.ends_on !== record.starts_on && ` → ${formatDisplayDate(record.ends_on)}`}
+                          {inProgress && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Au garage</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">{record.mileage !== null ? `${record.mileage.toLocaleString()} km` : '—'}</td>
+                        <td className="px-4 py-3">{record.cost !== null ? `${record.cost.toLocaleString()} MAD` : '—'}</td>
+                        <td className="px-4 py-3 text-gray-500">
+                          {record.next_due_on && formatDisplayDate(record.next_due_on)}
+                          {record.next_due_on && record.next_due_mileage !== null && ' ou '}
+                          {record.next_due_mileage !== null && `${record.next_due_mileage.toLocaleString()} km`}
+                          {!record.next_due_on && record.next_due_mileage === null && '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button onClick={() => handleDelete(record)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {unitRecords.length === 0 && (
+              <div className="text-center py-12">
+                <Wrench className="mx-auto text-gray-300 mb-2" size={32} />
+                <p className="text-gray-500 text-lg">Aucun entretien enregistré</p>
+              </div>
+            )}
+          </div>
+
+          {/* Add maintenance */}
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+            <h3 className="font-semibold text-gray-900">Nouvel entretien</h3>
+            <p className="text-sm text-gray-500">
+              L'unité n'est plus proposée à la location entre la date d'immobilisation et sa remise en service.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className={labelStyle}>Intervention *</label>
+                <select
+                  value={formData.kind}
+                  onChange={(e) => setFormData({ ...formData, kind: e.target.value as MaintenanceKind })}
+                  className={inputStyle}
+                >
+                  {(Object.keys(MAINTENANCE_KIND_LABELS) as MaintenanceKind[]).map(kind => (
+                    <option key={kind} value={kind}>{MAINTENANCE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-3">
+                <label className={labelStyle}>Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Ex: 4 pneus Michelin, garage Ain Sebaâ"
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>Immobilisé le *</label>
+                <input
+                  type="date"
+                  value={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                  required
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>Remis en service le</label>
+                <input
+                  type="date"
+                  value={formData.ends_on}
+                  min={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>Kilométrage</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.mileage}
+                  onChange={(e) => setFormData({ ...formData, mileage: e.target.value.replace(/\D/g, '') })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>Coût (MAD)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.cost}
+                  onChange={(e) => setFormData({ ...formData, cost: e.target.value.replace(/\D/g, '') })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>Prochaine échéance</label>
+                <input
+                  type="date"
+                  value={formData.next_due_on}
+                  onChange={(e) => setFormData({ ...formData, next_due_on: e.target.value })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelStyle}>ou à (km)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.next_due_mileage}
+                  onChange={(e) => setFormData({ ...formData, next_due_mileage: e.target.value.replace(/\D/g, '') })}
+                  className={inputStyle}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader2 className="animate-spin" size={20} /> : <Plus size={20} />}
+              <span>Ajouter l'entretien</span>
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceTab;
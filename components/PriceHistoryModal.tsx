@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { SupabaseCar } from '../types';
+import { fetchCarPriceHistory, formatAuditTimestamp, PriceChange } from '../lib/audit';
+import { ArrowRight, X } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PriceHistoryModalProps {
+  car: SupabaseCar;
+  onClose: () => void;
+}
+
+const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({ car, onClose }) => {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCarPriceHistory(car.id)
+      .then(setChanges)
+      .catch(err => {
+        console.error('Error fetching price history:', err);
+        setError("Impossible de charger l'historique des prix");
+      })
+      .finally(() => setLoading(false));
+  }, [car.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">
+            Historique des prix — {car.brand} {car.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <LoadingSpinner />
+          ) : changes.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Aucun changement de prix enregistré</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {changes.map(({ entry, before, after }) => (
+                <li key={entry.id} className="py-3 flex flex-wrap justify-between items-center gap-2">
+                  <div>
+                    <p className="flex items-center gap-2 font-medium text-gray-900">
+                      {before === null ? 'Prix initial' : <span className="text-gray-500 line-through">{before} MAD</span>}
+                      {before !== null && <ArrowRight size={14} className="text-gray-400" />}
+                      <span>{after} MAD/jour</span>
+                    </p>
+                    <p className="text-gray-500">{entry.actor_email || 'Système'}</p>
+                  </div>
+                  <span className="text-gray-500">{formatAuditTimestamp(entry.created_at)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryModal;
@@ -0,0 +1,442 @@
+import React, { useState, useEffect } from 'react';
+import { InsuranceTier, PricingRules, PricingSeason, Promotion, SupabaseCar } from '../types';
+import {
+  EMPTY_PRICING_RULES,
+  computeQuote,
+  fetchPricingRules,
+  saveSeason,
+  deleteSeason,
+  saveDurationTier,
+  deleteDurationTier,
+  saveWeekendAdjustment,
+  saveGracePeriod,
+} from '../lib/pricing';
+import { fetchInsuranceTiers, saveInsuranceTier, deleteInsuranceTier } from '../lib/insurance';
+import { addDays } from '../lib/availability';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Plus, Trash2, Loader2, Save } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PricingTabProps {
+  cars: SupabaseCar[];
+  promotions: Promotion[];
+}
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const emptySeasonForm = { label: '', start_date: '', end_date: '', adjustment_percent: '' };
+const emptyTierForm = { min_days: '', discount_percent: '' };
+const emptyInsuranceForm = { name: '', description: '', franchise_percent: '', price_per_day: '', deposit_percent: '' };
+
+const PricingTab: React.FC<PricingTabProps> = ({ cars, promotions }) => {
+  const [rules, setRules] = useState<PricingRules>(EMPTY_PRICING_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [seasonForm, setSeasonForm] = useState(emptySeasonForm);
+  const [tierForm, setTierForm] = useState(emptyTierForm);
+  const [weekendPercent, setWeekendPercent] = useState('0');
+  const [graceForm, setGraceForm] = useState({ free: '60', halfDay: '180' });
+  const [insuranceTiers, setInsuranceTiers] = useState<InsuranceTier[]>([]);
+  const [insuranceForm, setInsuranceForm] = useState(emptyInsuranceForm);
+
+  // Simulator state
+  const today = getAgencyToday();
+  const [simCarId, setSimCarId] = useState('');
+  const [simStart, setSimStart] = useState(today);
+  const [simEnd, setSimEnd] = useState(addDays(today, 7));
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  useEffect(() => {
+    if (!simCarId && cars.length > 0) setSimCarId(cars[0].id.toString());
+  }, [cars]);
+
+  const loadRules = async () => {
+    try {
+      const [data, tiers] = await Promise.all([fetchPricingRules(), fetchInsuranceTiers()]);
+      setRules(data);
+      setWeekendPercent(String(data.weekendAdjustmentPercent));
+      setGraceForm({ free: String(data.graceFreeMinutes), halfDay: String(data.graceHalfDayMinutes) });
+      setInsuranceTiers(tiers);
+    } catch (err: any) {
+      console.error('Error fetching pricing rules:', err);
+      setError('Impossible de charger les tarifs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a save action, then reload the rules
+  const runSave = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddSeason = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (seasonForm.end_date < seasonForm.start_date) {
+      setError('La date de fin de saison doit être après la date de début');
+      return;
+    }
+    runSave(async () => {
+      await saveSeason({
+        label: seasonForm.label.trim(),
+        start_date: seasonForm.start_date,
+        end_date: seasonForm.end_date,
+        adjustment_percent: Number(seasonForm.adjustment_percent),
+      });
+      setSeasonForm(emptySeasonForm);
+    });
+  };
+
+  const handleAddTier = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    runSave(async () => {
+      await saveDurationTier({
+        min_days: parseInt(tierForm.min_days, 10),
+        discount_percent: Number(tierForm.discount_percent),
+      });
+      setTierForm(emptyTierForm);
+    });
+  };
+
+  const handleAddInsurance = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    runSave(async () => {
+      await saveInsuranceTier({
+        name: insuranceForm.name.trim(),
+        description: insuranceForm.description.trim() || null,
+        franchise_percent: Number(insuranceForm.franchise_percent),
+        price_per_day: parseInt(insuranceForm.price_per_day, 10) || 0,
+        deposit_percent: parseInt(insuranceForm.deposit_percent, 10),
+        is_active: true,
+      });
+      setInsuranceForm(emptyInsuranceForm);
+    });
+  };
+
+  const handleToggleInsurance = (tier: InsuranceTier) => {
+    const { id, created_at, ...input } = tier;
+    runSave(() => saveInsuranceTier({ ...input, is_active: !tier.is_active }, id));
+  };
+
+  const handleDeleteInsurance = (tier: InsuranceTier) => {
+    if (!confirm(`Supprimer l'assurance "${tier.name}" ?`)) return;
+    runSave(() => deleteInsuranceTier(tier.id));
+  };
+
+  const handleDeleteSeason = (season: PricingSeason) => {
+    if (!confirm(`Supprimer la saison "${season.label}" ?`)) return;
+    runSave(() => deleteSeason(season.id));
+  };
+
+  const simCar = cars.find(c => c.id.toString() === simCarId);
+  const simQuote = simCar && simEnd > simStart
+    ? computeQuote(
+        { pricePerDay: simCar.price_per_day, promotions: promotions.filter(p => p.car_id === simCar.id) },
+        { start: simStart, end: simEnd },
+        rules
+      )
+    : null;
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <h2 className="text-xl font-semibold text-gray-800">Tarifs et Saisons</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Seasons */}
+        <section className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900">Saisons</h3>
+          <ul className="divide-y divide-gray-100">
+            {rules.seasons.map(season => (
+              <li key={season.id} className="flex justify-between items-center py-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{season.label}</span>
+                  <span className="block text-gray-500">
+                    {formatDisplayDate(season.start_date)} → {formatDisplayDate(season.end_date)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={season.adjustment_percent >= 0 ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                    {season.adjustment_percent > 0 ? '+' : ''}{season.adjustment_percent}%
+                  </span>
+                  <button onClick={() => handleDeleteSeason(season)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {rules.seasons.length === 0 && <li className="py-2 text-sm text-gray-500">Aucune saison définie</li>}
+          </ul>
+
+          <form onSubmit={handleAddSeason} className="grid grid-cols-2 gap-3 border-t pt-4">
+            <div className="col-span-2">
+              <label className={labelStyle}>Nom *</label>
+              <input
+                type="text"
+                value={seasonForm.label}
+                onChange={(e) => setSeasonForm({ ...seasonForm, label: e.target.value })}
+                placeholder="Ex: Haute saison été, Retour MRE, Aïd"
+                required
+                className={inputStyle}
+              />
+            </div>
+            <div>
+              <label className={labelStyle}>Début *</label>
+              <input type="date" value={seasonForm.start_date} onChange={(e) => setSeasonForm({ ...seasonForm, start_date: e.target.value })} required className={inputStyle} />
+            </div>
+            <div>
+              <label className={labelStyle}>Fin (incluse) *</label>
+              <input type="date" value={seasonForm.end_date} onChange={(e) => setSeasonForm({ ...seasonForm, end_date: e.target.value })} required className={inputStyle} />
+            </div>
+            <div>
+              <label className={labelStyle}>Ajustement (%) *</label>
+              <input
+                type="number"
+                value={seasonForm.adjustment_percent}
+                onChange={(e) => setSeasonForm({ ...seasonForm, adjustment_percent: e.target.value })}
+                placeholder="Ex: 30"
+                required
+                className={inputStyle}
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+              >
+                {saving ? <Loader2 className="animate-spin" size={18} /> : <Plus size={18} />}
+                <span>Ajouter</span>
+              </button>
+            </div>
+          </form>
+        </section>
+
+        {/* Duration Tiers & Weekend */}
+        <section className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900">Remises longue durée</h3>
+          <ul className="divide-y divide-gray-100">
+            {rules.durationTiers.map(tier => (
+              <li key={tier.id} className="flex justify-between items-center py-2 text-sm">
+                <span className="font-medium text-gray-900">{tier.min_days} jours et plus</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-green-600 font-semibold">-{tier.discount_percent}%</span>
+                  <button onClick={() => runSave(() => deleteDurationTier(tier.id))} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {rules.durationTiers.length === 0 && <li className="py-2 text-sm text-gray-500">Aucun palier défini</li>}
+          </ul>
+
+          <form onSubmit={handleAddTier} className="grid grid-cols-3 gap-3 border-t pt-4">
+            <div>
+              <label className={labelStyle}>À partir de (jours) *</label>
+              <input type="number" min={2} value={tierForm.min_days} onChange={(e) => setTierForm({ ...tierForm, min_days: e.target.value })} required className={inputStyle} />
+            </div>
+            <div>
+              <label className={labelStyle}>Remise (%) *</label>
+              <input type="number" min={0} max={100} value={tierForm.discount_percent} onChange={(e) => setTierForm({ ...tierForm, discount_percent: e.target.value })} required className={inputStyle} />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+              >
+                <Plus size={18} />
+                <span>Ajouter</span>
+              </button>
+            </div>
+          </form>
+
+          <div className="border-t pt-4">
+            <label className={labelStyle}>Ajustement week-end (samedi et dimanche, %)</label>
+            <div className="flex gap-3">
+              <input type="number" value={weekendPercent} onChange={(e) => setWeekendPercent(e.target.value)} className={inputStyle} />
+              <button
+                onClick={() => runSave(() => saveWeekendAdjustment(Number(weekendPercent) || 0))}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+              >
+                <Save size={18} />
+                <span>Enregistrer</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="border-t pt-4">
+            <span className={labelStyle}>Délai de grâce au retour (minutes après l'heure de départ)</span>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Gratuit jusqu'à</label>
+                <input type="number" min={0} value={graceForm.free} onChange={(e) => setGraceForm({ ...graceForm, free: e.target.value })} className={inputStyle} />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Demi-journée jusqu'à</label>
+                <input type="number" min={0} value={graceForm.halfDay} onChange={(e) => setGraceForm({ ...graceForm, halfDay: e.target.value })} className={inputStyle} />
+              </div>
+              <div className="flex items-end">
+                <button
+                  onClick={() => runSave(() => saveGracePeriod(parseInt(graceForm.free, 10) || 0, parseInt(graceForm.halfDay, 10) || 0))}
+                  disabled={saving}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+                >
+                  <Save size={18} />
+                  <span>Enregistrer</span>
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Au-delà, une journée complète est facturée.</p>
+          </div>
+        </section>
+      </div>
+
+      {/* Insurance Tiers */}
+      <section className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Assurances et franchise</h3>
+        <ul className="divide-y divide-gray-100">
+          {insuranceTiers.map(tier => (
+            <li key={tier.id} className={`flex justify-between items-center py-2 text-sm ${tier.is_active ? '' : 'opacity-50'}`}>
+              <div>
+                <span className="font-medium text-gray-900">{tier.name}</span>
+                <span className="block text-gray-500">
+                  Franchise {tier.franchise_percent}% · Caution {tier.deposit_percent}% du montant du véhicule
+                  {tier.description && ` · ${tier.description}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold text-gray-900 whitespace-nowrap">
+                  {tier.price_per_day > 0 ? `+${tier.price_per_day} MAD/jour` : 'Incluse'}
+                </span>
+                <input
+                  type="checkbox"
+                  checked={tier.is_active}
+                  onChange={() => handleToggleInsurance(tier)}
+                  className="w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+                  aria-label="Active"
+                />
+                <button onClick={() => handleDeleteInsurance(tier)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+          {insuranceTiers.length === 0 && <li className="py-2 text-sm text-gray-500">Aucune formule définie</li>}
+        </ul>
+
+        <form onSubmit={handleAddInsurance} className="grid grid-cols-1 md:grid-cols-3 gap-3 border-t pt-4">
+          <div>
+            <label className={labelStyle}>Nom *</label>
+            <input
+              type="text"
+              value={insuranceForm.name}
+              onChange={(e) => setInsuranceForm({ ...insuranceForm, name: e.target.value })}
+              placeholder="Ex: Franchise réduite"
+              required
+              className={inputStyle}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelStyle}>Description</label>
+            <input
+              type="text"
+              value={insuranceForm.description}
+              onChange={(e) => setInsuranceForm({ ...insuranceForm, description: e.target.value })}
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label className={labelStyle}>Franchise (%) *</label>
+            <input type="number" min={0} max={100} step="0.5" value={insuranceForm.franchise_percent} onChange={(e) => setInsuranceForm({ ...insuranceForm, franchise_percent: e.target.value })} required className={inputStyle} />
+          </div>
+          <div>
+            <label className={labelStyle}>Prix (MAD/jour) *</label>
+            <input type="number" min={0} value={insuranceForm.price_per_day} onChange={(e) => setInsuranceForm({ ...insuranceForm, price_per_day: e.target.value })} required className={inputStyle} />
+          </div>
+          <div>
+            <label className={labelStyle}>Caution restante (%) *</label>
+            <input type="number" min={0} max={100} value={insuranceForm.deposit_percent} onChange={(e) => setInsuranceForm({ ...insuranceForm, deposit_percent: e.target.value })} required className={inputStyle} />
+          </div>
+          <div className="md:col-span-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50"
+            >
+              <Plus size={18} />
+              <span>Ajouter</span>
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {/* Quote Simulator */}
+      <section className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Simulateur de devis</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className={labelStyle}>Véhicule</label>
+            <select value={simCarId} onChange={(e) => setSimCarId(e.target.value)} className={inputStyle}>
+              {cars.map(car => (
+                <option key={car.id} value={car.id}>{car.brand} {car.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelStyle}>Départ</label>
+            <input type="date" value={simStart} onChange={(e) => setSimStart(e.target.value)} className={inputStyle} />
+          </div>
+          <div>
+            <label className={labelStyle}>Retour</label>
+            <input type="date" value={simEnd} onChange={(e) => setSimEnd(e.target.value)} className={inputStyle} />
+          </div>
+        </div>
+
+        {simQuote && (
+          <div className="max-w-md space-y-2 text-sm">
+            {simQuote.lines.map((line, idx) => (
+              <div key={idx} className="flex justify-between gap-4 text-gray-600">
+                <span>
+                  {line.label}
+                  {line.detail && <span className="text-gray-400 ml-2">({line.detail})</span>}
+                </span>
+                <span className={line.amount < 0 ? 'text-green-600' : ''}>{line.amount.toLocaleString()} MAD</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-2 font-semibold text-gray-900">
+              <span>Total</span>
+              <span>{simQuote.total.toLocaleString()} MAD</span>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default PricingTab;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Promotion, SupabaseCar } from '../types';
+import { savePromotion, deletePromotion } from '../lib/promotions';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Plus, Trash2, Loader2, X } from 'lucide-react';
+
+interface PromotionsModalProps {
+  car: SupabaseCar;
+  promotions: Promotion[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const emptyPromoForm = {
+  label: '',
+  promo_price: '',
+  starts_on: getAgencyToday(),
+  ends_on: '',
+  min_days: '',
+};
+
+const PromotionsModal: React.FC<PromotionsModalProps> = ({ car, promotions, onClose, onChanged }) => {
+  const [formData, setFormData] = useState(emptyPromoForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = getAgencyToday();
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Supprimer la promotion "${promotion.label}" ?`)) return;
+    try {
+      await deletePromotion(promotion.id);
+      onChanged();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const promoPrice = parseInt(formData.promo_price, 10);
+      if (isNaN(promoPrice) || promoPrice < 0) {
+        throw new Error('Le prix promo doit être un nombre valide');
+      }
+      if (promoPrice >= car.price_per_day) {
+        throw new Error(`Le prix promo doit être inférieur au prix de base (${car.price_per_day} MAD)`);
+      }
+      if (formData.ends_on && formData.ends_on < formData.starts_on) {
+        throw new Error('La date de fin doit être après la date de début');
+      }
+
+      await savePromotion({
+        car_id: car.id,
+        label: formData.label.trim() || 'Promo',
+        promo_price: promoPrice,
+        starts_on: formData.starts_on,
+        ends_on: formData.ends_on || null,
+        min_days: formData.min_days ? parseInt(formData.min_days, 10) : null,
+      });
+
+      setFormData(emptyPromoForm);
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement de la promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">
+            Promotions — {car.brand} {car.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Promotions List */}
+          {promotions.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">Aucune promotion programmée</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {promotions.map(promotion => {
+                const isExpired = !!promotion.ends_on && promotion.ends_on < today;
+                return (
+                  <li key={promotion.id} className={`flex items-center justify-between px-4 py-3 text-sm ${isExpired ? 'opacity-50' : ''}`}>
+                    <div>
+                      <span className="font-semibold text-gray-900">{promotion.label}</span>
+                      <span className="text-red-600 font-semibold ml-3">{promotion.promo_price} MAD/jour</span>
+                      <span className="block text-gray-500">
+                        Du {formatDisplayDate(promotion.starts_on)} {promotion.ends_on ? `au ${formatDisplayDate(promotion.ends_on)}` : '(sans fin)'}
+                        {promotion.min_days ? ` · ${promotion.min_days} jours minimum` : ''}
+                        {isExpired ? ' · Expirée' : ''}
+                      </span>
+                    </div>
+                    <button onClick={() => handleDelete(promotion)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                      <Trash2 size={16} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Add Promotion Form */}
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-6">
+            <h3 className="font-semibold text-gray-800">Programmer une promotion</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Libellé</label>
+                <input
+                  type="text"
+                  value={formData.label}
+                  onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                  placeholder="Ex: Offre Printemps"
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Prix Promo (MAD/jour) *</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.promo_price}
+                  onChange={(e) => setFormData({ ...formData, promo_price: e.target.value.replace(/\D/g, '') })}
+                  required
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Début *</label>
+                <input
+                  type="date"
+                  value={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                  required
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Fin <span className="text-gray-500 text-xs">(optionnel, incluse)</span>
+                </label>
+                <input
+                  type="date"
+                  value={formData.ends_on}
+                  onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Durée minimum (jours) <span className="text-gray-500 text-xs">(optionnel)</span>
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.min_days}
+                  onChange={(e) => setFormData({ ...formData, min_days: e.target.value.replace(/\D/g, '') })}
+                  className={inputStyle}
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader2 className="animate-spin" size={20} /> : <Plus size={20} />}
+              <span>Ajouter la promotion</span>
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromotionsModal;
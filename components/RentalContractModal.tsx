@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { BookingRequest, FuelLevel, RentalContract, SupabaseVehicleUnit } from '../types';
+import {
+  buildContractPdf,
+  downloadContract,
+  getContractNumber,
+  saveSignedContract,
+  ContractDocument,
+  SignatureImage,
+  FUEL_LEVEL_LABELS,
+} from '../lib/contracts';
+import { formatDisplayDate, getAgencyToday } from '../lib/dates';
+import { Loader2, PenLine, X } from 'lucide-react';
+import SignaturePad from './SignaturePad';
+
+interface RentalContractModalProps {
+  booking: BookingRequest;
+  carName: string;
+  unit?: SupabaseVehicleUnit;
+  onClose: () => void;
+  onSigned: (contract: RentalContract) => void;
+}
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const RentalContractModal: React.FC<RentalContractModalProps> = ({ booking, carName, unit, onClose, onSigned }) => {
+  const [mileage, setMileage] = useState(unit ? unit.mileage.toString() : '');
+  const [fuelLevel, setFuelLevel] = useState<FuelLevel>('full');
+  const [idDocumentNumber, setIdDocumentNumber] = useState('');
+  const [accepted, setAccepted] = useState(false);
+  const [signature, setSignature] = useState<SignatureImage | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const startMileage = parseInt(mileage, 10);
+    if (isNaN(startMileage)) {
+      setError('Indiquez le kilométrage au départ');
+      return;
+    }
+    if (unit && startMileage < unit.mileage) {
+      setError(`Le kilométrage ne peut pas être inférieur au dernier relevé (${unit.mileage.toLocaleString()} km)`);
+      return;
+    }
+    if (!signature) {
+      setError('Le client doit signer le contrat');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const contract: ContractDocument = {
+        number: getContractNumber(booking.id),
+        signedOn: getAgencyToday(),
+        booking,
+        carName,
+        plateNumber: unit?.plate_number,
+        startMileage,
+        fuelLevel,
+        idDocumentNumber: idDocumentNumber.trim(),
+        signature,
+      };
+      const pdf = buildContractPdf(contract);
+      const saved = await saveSignedContract(contract, pdf, booking.unitId);
+      downloadContract(contract, pdf);
+      onSigned(saved);
+    } catch (err: any) {
+      console.error('Error saving rental contract:', err);
+      setError(err.message || 'Erreur lors de l\'enregistrement du contrat');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">Contrat de location</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+            <p><span className="font-medium">Locataire:</span> {booking.fullName} · {booking.phone}</p>
+            <p>
+              <span className="font-medium">Véhicule:</span> {carName}
+              {unit && <span className="ml-2 px-2 py-0.5 bg-white rounded font-mono text-xs">{unit.plate_number}</span>}
+            </p>
+            <p>
+              <span className="font-medium">Période:</span> {formatDisplayDate(booking.pickupDate)}{booking.pickupTime && ` ${booking.pickupTime}`} → {formatDisplayDate(booking.dropoffDate)}{booking.returnTime && ` ${booking.returnTime}`}
+            </p>
+            <p>
+              <span className="font-medium">Total:</span> {booking.totalPrice.toLocaleString()} MAD
+              {booking.depositAmount !== undefined && ` · Caution: ${booking.depositAmount.toLocaleString()} MAD`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelStyle}>Kilométrage départ *</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={mileage}
+                onChange={(e) => setMileage(e.target.value.replace(/\D/g, ''))}
+                required
+                className={inputStyle}
+              />
+            </div>
+            <div>
+              <label className={labelStyle}>Carburant *</label>
+              <select
+                value={fuelLevel}
+                onChange={(e) => setFuelLevel(e.target.value as FuelLevel)}
+                className={inputStyle}
+              >
+                {(Object.keys(FUEL_LEVEL_LABELS) as FuelLevel[]).map(level => (
+                  <option key={level} value={level}>{FUEL_LEVEL_LABELS[level]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelStyle}>N° CIN / Passeport *</label>
+              <input
+                type="text"
+                value={idDocumentNumber}
+                onChange={(e) => setIdDocumentNumber(e.target.value.toUpperCase())}
+                required
+                className={`${inputStyle} uppercase`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={accepted}
+              onChange={(e) => setAccepted(e.target.checked)}
+              required
+              className="mt-0.5 w-4 h-4 text-gold-600 focus:ring-gold-500 border-gray-300 rounded"
+            />
+            <span>
+              Le client a pris connaissance des{' '}
+              <a href="/terms" target="_blank" rel="noopener noreferrer" className="text-gold-600 hover:underline">
+                conditions générales de location
+              </a>
+              , reproduites dans le contrat.
+            </span>
+          </label>
+
+          <div>
+            <span className={labelStyle}>Signature du client *</span>
+            <SignaturePad onChange={setSignature} />
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving || !signature || !accepted}
+            className="w-full px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {saving ? <Loader2 className="animate-spin" size={20} /> : <PenLine size={20} />}
+            <span>Signer et enregistrer</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RentalContractModal;
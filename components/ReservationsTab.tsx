@@ -0,0 +1,628 @@
+import React, { useState, useEffect } from 'react';
+import { BookingDocument, BookingRequest, BookingStatus, Customer, RentalContract, StaffMember, SupabaseCar, SupabaseVehicleUnit } from '../types';
+import { fetchBookings, updateBookingStatus, BOOKING_STATUS_LABELS } from '../lib/bookings';
+import { fetchVehicleUnits, getRentableUnitCount } from '../lib/vehicleUnits';
+import { bookingRange, fetchBookedPeriods, rangesOverlap } from '../lib/availability';
+import { AGENCY_TIME_ZONE } from '../lib/dates';
+import { buildQuoteFromBooking, downloadQuote } from '../lib/quotes';
+import { DOCUMENT_KIND_LABELS, fetchBookingDocuments, getDocumentUrl } from '../lib/bookingDocuments';
+import { fetchBookingContract, getContractUrl } from '../lib/contracts';
+import { fetchCustomer, CUSTOMER_TAG_LABELS, CUSTOMER_TAG_STYLES } from '../lib/customers';
+import { assignDeliveryDriver, fetchStaffMembers } from '../lib/staff';
+import { Check, X, Ban, Loader2, Phone, Calendar, MapPin, Car as CarIcon, PlayCircle, Undo2, Plane, FileText, FileDown, PenLine, ClipboardCheck, Truck } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+import RentalContractModal from './RentalContractModal';
+import VehicleInspectionModal from './VehicleInspectionModal';
+import DepositPanel from './DepositPanel';
+
+interface ReservationsTabProps {
+  cars: SupabaseCar[];
+}
+
+const STATUS_FILTERS: BookingStatus[] = ['pending', 'confirmed', 'in_progress', 'returned', 'cancelled'];
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  confirmed: 'bg-green-100 text-green-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  returned: 'bg-gray-100 text-gray-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '-';
+  return new Date(dateStr).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: AGENCY_TIME_ZONE });
+};
+
+const ReservationsTab: React.FC<ReservationsTabProps> = ({ cars }) => {
+  const [bookings, setBookings] = useState<BookingRequest[]>([]);
+  const [units, setUnits] = useState<SupabaseVehicleUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<BookingStatus>('pending');
+  const [selectedBooking, setSelectedBooking] = useState<BookingRequest | null>(null);
+
+  useEffect(() => {
+    loadBookings();
+  }, []);
+
+  const loadBookings = async () => {
+    try {
+      const [data, unitData] = await Promise.all([fetchBookings(), fetchVehicleUnits()]);
+      setBookings(data);
+      setUnits(unitData);
+      // Keep the drawer in sync with the freshly loaded row
+      setSelectedBooking(prev => (prev ? data.find(b => b.id === prev.id) || null : null));
+    } catch (err: any) {
+      console.error('Error fetching bookings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCarName = (carId: string) => {
+    const car = cars.find(c => c.id.toString() === carId);
+    return car ? `${car.brand} ${car.name}` : 'Véhicule supprimé';
+  };
+
+  const countByStatus = (status: BookingStatus) => bookings.filter(b => b.status === status).length;
+  const filteredBookings = bookings.filter(b => b.status === statusFilter);
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">
+          Gestion des Réservations ({bookings.length})
+        </h2>
+      </div>
+
+      {/* Status Filters */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              statusFilter === status
+                ? 'bg-gold-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
+            }`}
+          >
+            {BOOKING_STATUS_LABELS[status]} ({countByStatus(status)})
+          </button>
+        ))}
+      </div>
+
+      {/* Bookings List */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Client</th>
+                <th className="px-4 py-3 font-medium">Véhicule</th>
+                <th className="px-4 py-3 font-medium">Dates</th>
+                <th className="px-4 py-3 font-medium">Livraison</th>
+                <th className="px-4 py-3 font-medium text-right">Total</th>
+                <th className="px-4 py-3 font-medium">Statut</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredBookings.map(booking => (
+                <tr
+                  key={booking.id}
+                  onClick={() => setSelectedBooking(booking)}
+                  className="border-t border-gray-100 hover:bg-gold-50 cursor-pointer transition-colors"
+                >
+                  <td className="px-4 py-3">
+                    <span className="block font-medium text-gray-900">{booking.fullName}</span>
+                    <span className="text-gray-500">{booking.phone}</span>
+                  </td>
+                  <td className="px-4 py-3">{getCarName(booking.carId)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatDate(booking.pickupDate)} → {formatDate(booking.dropoffDate)}
+                  </td>
+                  <td className="px-4 py-3">{booking.city}</td>
+                  <td className="px-4 py-3 text-right font-semibold whitespace-nowrap">
+                    {booking.totalPrice.toLocaleString()} MAD
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[booking.status]}`}>
+                      {BOOKING_STATUS_LABELS[booking.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredBookings.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500 text-lg">Aucune réservation</p>
+          </div>
+        )}
+      </div>
+
+      {selectedBooking && (
+        <BookingDrawer
+          booking={selectedBooking}
+          carName={getCarName(selectedBooking.carId)}
+          carCategory={cars.find(c => c.id.toString() === selectedBooking.carId)?.category}
+          units={units.filter(u => u.car_id.toString() === selectedBooking.carId)}
+          onClose={() => setSelectedBooking(null)}
+          onUpdated={loadBookings}
+        />
+      )}
+    </>
+  );
+};
+
+// Booking Detail Drawer Component
+interface BookingDrawerProps {
+  booking: BookingRequest;
+  carName: string;
+  carCategory?: string;
+  units: SupabaseVehicleUnit[];
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+const BookingDrawer: React.FC<BookingDrawerProps> = ({ booking, carName, carCategory, units, onClose, onUpdated }) => {
+  const [reason, setReason] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [freeUnits, setFreeUnits] = useState<SupabaseVehicleUnit[]>([]);
+  const [unitId, setUnitId] = useState('');
+  const [showReason, setShowReason] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<BookingDocument[]>([]);
+  const [contract, setContract] = useState<RentalContract | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [drivers, setDrivers] = useState<StaffMember[]>([]);
+  const [showContract, setShowContract] = useState(false);
+  const [showInspection, setShowInspection] = useState(false);
+
+  // Reset the local form when another booking is opened
+  useEffect(() => {
+    setReason('');
+    setOverrideReason('');
+    setShowReason(false);
+    setError(null);
+  }, [booking.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBookingDocuments(booking.id)
+      .then(docs => {
+        if (!cancelled) setDocuments(docs);
+      })
+      .catch(err => console.error('Error fetching booking documents:', err.message));
+    fetchBookingContract(booking.id)
+      .then(signed => {
+        if (!cancelled) setContract(signed);
+      })
+      .catch(err => console.error('Error fetching rental contract:', err.message));
+    setCustomer(null);
+    if (booking.customerId) {
+      fetchCustomer(booking.customerId)
+        .then(found => {
+          if (!cancelled) setCustomer(found);
+        })
+        .catch(err => console.error('Error fetching customer:', err.message));
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  useEffect(() => {
+    fetchStaffMembers()
+      .then(members => setDrivers(members.filter(m => m.role === 'driver')))
+      .catch(err => console.error('Error fetching drivers:', err.message));
+  }, []);
+
+  const changeDriver = async (driverEmail: string) => {
+    setError(null);
+    try {
+      await assignDeliveryDriver(booking.id, driverEmail || null);
+      onUpdated();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const openDocument = async (document: BookingDocument) => {
+    // Open the tab synchronously so popup blockers don't swallow it after the await
+    const documentWindow = window.open('', '_blank');
+    try {
+      const url = await getDocumentUrl(document);
+      if (documentWindow) documentWindow.location.href = url;
+    } catch (err: any) {
+      documentWindow?.close();
+      setError(err.message);
+    }
+  };
+
+  const openContract = async () => {
+    if (!contract) return;
+    const contractWindow = window.open('', '_blank');
+    try {
+      const url = await getContractUrl(contract);
+      if (contractWindow) contractWindow.location.href = url;
+    } catch (err: any) {
+      contractWindow?.close();
+      setError(err.message);
+    }
+  };
+
+  // Units of this car in service and not assigned to an overlapping booking
+  useEffect(() => {
+    if (booking.status !== 'pending' || !booking.carId) return;
+
+    const range = bookingRange(booking.pickupDate, booking.dropoffDate);
+    fetchBookedPeriods(booking.carId)
+      .then(periods => {
+        const taken = new Set(periods.filter(p => p.unitId && rangesOverlap(range, p)).map(p => p.unitId));
+        const available = units.filter(u => u.status === 'active' && !taken.has(u.id.toString()));
+        setFreeUnits(available);
+        setUnitId(available[0]?.id.toString() || '');
+      })
+      .catch(err => console.error('Error fetching booked periods:', err.message));
+  }, [booking.id, booking.status, units]);
+
+  const assignedUnit = units.find(u => u.id.toString() === booking.unitId);
+  const rentableUnitCount = getRentableUnitCount({
+    active: units.filter(u => u.status === 'active').length,
+    registered: units.length,
+  });
+
+  const changeStatus = async (status: BookingStatus) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await updateBookingStatus(booking, status, {
+        reason,
+        unitId,
+        unitCount: rentableUnitCount,
+        customerBlocked: customer?.is_blocked,
+        overrideReason,
+      });
+      setShowReason(false);
+      setReason('');
+      onUpdated();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de la mise à jour');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isPending = booking.status === 'pending';
+  const canCancel = booking.status === 'pending' || booking.status === 'confirmed';
+  const canSignContract = booking.status === 'confirmed' || booking.status === 'in_progress';
+  const canInspect = canSignContract || booking.status === 'returned';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md h-full shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-serif font-bold text-gray-900">{booking.fullName}</h2>
+            <span className="text-xs text-gray-400 uppercase tracking-wider">
+              Réf. {booking.id.slice(0, 8).toUpperCase()}
+            </span>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {customer?.is_blocked && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+              <Ban size={16} className="mt-0.5 flex-shrink-0" />
+              <span>Client bloqué{customer.blocked_reason && ` : ${customer.blocked_reason}`}</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[booking.status]}`}>
+              {BOOKING_STATUS_LABELS[booking.status]}
+            </span>
+            {customer?.tags.map(tag => (
+              <span key={tag} className={`px-2 py-0.5 rounded-full text-xs font-medium ${CUSTOMER_TAG_STYLES[tag]}`}>
+                {CUSTOMER_TAG_LABELS[tag]}
+              </span>
+            ))}
+          </div>
+          {customer?.notes && (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2 whitespace-pre-line">{customer.notes}</p>
+          )}
+
+          <div className="space-y-3 text-sm text-gray-700">
+            <p className="flex items-center gap-2">
+              <Phone size={16} className="text-gold-600" />
+              <a href={`tel:${booking.phone}`} className="hover:underline">{booking.phone}</a>
+            </p>
+            <p className="flex items-center gap-2">
+              <CarIcon size={16} className="text-gold-600" /> {carName}
+              {assignedUnit && (
+                <span className="px-2 py-0.5 bg-gray-100 rounded font-mono text-xs">{assignedUnit.plate_number}</span>
+              )}
+            </p>
+            <p className="flex items-center gap-2">
+              <Calendar size={16} className="text-gold-600" />
+              {formatDate(booking.pickupDate)}{booking.pickupTime && ` ${booking.pickupTime}`} → {formatDate(booking.dropoffDate)}{booking.returnTime && ` ${booking.returnTime}`}
+            </p>
+            <p className="flex items-center gap-2">
+              <MapPin size={16} className="text-gold-600" /> {booking.city}
+            </p>
+            {booking.flightNumber && (
+              <p className="flex items-center gap-2">
+                <Plane size={16} className="text-gold-600" />
+                Vol {booking.flightNumber}
+                {booking.flightTerminal && ` · ${booking.flightTerminal}`}
+                {booking.flightArrivalTime && ` · arrivée ${booking.flightArrivalTime}`}
+              </p>
+            )}
+            {booking.addons && booking.addons.length > 0 && (
+              <p>
+                <span className="font-medium">Options:</span>{' '}
+                {booking.addons.map(a => `${a.name}${a.quantity > 1 ? ` ×${a.quantity}` : ''}`).join(', ')}
+              </p>
+            )}
+            {booking.driverBirthDate && (
+              <p><span className="font-medium">Conducteur:</span> né(e) le {formatDate(booking.driverBirthDate)}{booking.licenceIssuedOn && `, permis du ${formatDate(booking.licenceIssuedOn)}`}</p>
+            )}
+            {booking.insuranceName && (
+              <p><span className="font-medium">Assurance:</span> {booking.insuranceName}</p>
+            )}
+            {booking.depositAmount !== undefined && (
+              <p><span className="font-medium">Caution:</span> {booking.depositAmount.toLocaleString()} MAD</p>
+            )}
+            {booking.couponCode && (
+              <p><span className="font-medium">Code promo:</span> {booking.couponCode} (-{booking.discountAmount} MAD)</p>
+            )}
+            <p><span className="font-medium">Total estimé:</span> {booking.totalPrice.toLocaleString()} MAD</p>
+            <p><span className="font-medium">Reçue le:</span> {formatDate(booking.createdAt)}</p>
+            {booking.cancellationReason && (
+              <p><span className="font-medium">Motif d'annulation:</span> {booking.cancellationReason}</p>
+            )}
+            {booking.blockOverrideReason && (
+              <p><span className="font-medium">Confirmée malgré le blocage:</span> {booking.blockOverrideReason}</p>
+            )}
+          </div>
+
+          {documents.length > 0 && (
+            <div className="space-y-2 text-sm">
+              <h3 className="font-medium text-gray-900">Documents du client</h3>
+              {documents.map(document => (
+                <button
+                  key={document.id}
+                  onClick={() => openDocument(document)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 text-left"
+                >
+                  <span className="flex items-center gap-2 text-gray-700">
+                    <FileText size={16} className="text-gold-600" /> {DOCUMENT_KIND_LABELS[document.kind]}
+                  </span>
+                  <span className="text-xs text-gray-400">Supprimé le {formatDate(document.purge_after)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={() => downloadQuote(buildQuoteFromBooking(booking, carName, carCategory))}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all text-sm"
+          >
+            <FileDown size={16} />
+            <span>Télécharger le devis</span>
+          </button>
+
+          {contract && (
+            <button
+              onClick={openContract}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 border border-green-200 bg-green-50 rounded-lg hover:bg-green-100 text-left text-sm"
+            >
+              <span className="flex items-center gap-2 text-green-800">
+                <FileText size={16} /> Contrat signé
+              </span>
+              <span className="text-xs text-green-700">le {formatDate(contract.signed_at)}</span>
+            </button>
+          )}
+
+          {canSignContract && (
+            <button
+              onClick={() => setShowContract(true)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all text-sm"
+            >
+              <PenLine size={16} />
+              <span>{contract ? 'Signer un nouveau contrat' : 'Contrat de location'}</span>
+            </button>
+          )}
+
+          {canInspect && (
+            <button
+              onClick={() => setShowInspection(true)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all text-sm"
+            >
+              <ClipboardCheck size={16} />
+              <span>État des lieux</span>
+            </button>
+          )}
+
+          {canSignContract && drivers.length > 0 && (
+            <div className="space-y-2 text-sm">
+              <label htmlFor="delivery-driver" className="flex items-center gap-2 font-medium text-gray-900">
+                <Truck size={16} className="text-gold-600" /> Livreur
+              </label>
+              <select
+                id="delivery-driver"
+                value={booking.deliveryDriverEmail || ''}
+                onChange={(e) => changeDriver(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+              >
+                <option value="">Non attribué</option>
+                {drivers.map(driver => (
+                  <option key={driver.email} value={driver.email}>{driver.full_name || driver.email}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {canInspect && <DepositPanel booking={booking} />}
+
+          {/* Actions */}
+          <div className="space-y-3 pt-4 border-t">
+            {isPending && units.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Unité attribuée
+                </label>
+                <select
+                  value={unitId}
+                  onChange={(e) => setUnitId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+                >
+                  {freeUnits.length === 0 && <option value="">Aucune unité libre sur ces dates</option>}
+                  {freeUnits.map(unit => (
+                    <option key={unit.id} value={unit.id}>
+                      {unit.plate_number}{unit.year ? ` (${unit.year})` : ''} — {unit.mileage.toLocaleString()} km
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {isPending && customer?.is_blocked && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Motif de confirmation malgré le blocage *
+                </label>
+                <textarea
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  rows={2}
+                  placeholder="Ex: Caution doublée, accord du gérant"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            {isPending && (
+              <button
+                onClick={() => changeStatus('confirmed')}
+                disabled={loading || (customer?.is_blocked && !overrideReason.trim())}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-all disabled:opacity-50"
+              >
+                {loading ? <Loader2 className="animate-spin" size={18} /> : <Check size={18} />}
+                <span>{customer?.is_blocked ? 'Confirmer malgré le blocage' : 'Confirmer'}</span>
+              </button>
+            )}
+
+            {booking.status === 'confirmed' && (
+              <button
+                onClick={() => changeStatus('in_progress')}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-all disabled:opacity-50"
+              >
+                <PlayCircle size={18} />
+                <span>Véhicule remis au client</span>
+              </button>
+            )}
+
+            {booking.status === 'in_progress' && (
+              <button
+                onClick={() => changeStatus('returned')}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-all disabled:opacity-50"
+              >
+                <Undo2 size={18} />
+                <span>Véhicule restitué</span>
+              </button>
+            )}
+
+            {canCancel && !showReason && (
+              <button
+                onClick={() => setShowReason(true)}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all disabled:opacity-50"
+              >
+                <Ban size={18} />
+                <span>{isPending ? 'Refuser' : 'Annuler'}</span>
+              </button>
+            )}
+
+            {canCancel && showReason && (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Motif {isPending ? 'du refus' : 'de l\'annulation'} *
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  placeholder="Ex: Véhicule indisponible sur ces dates"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent"
+                />
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setShowReason(false)}
+                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                  >
+                    Retour
+                  </button>
+                  <button
+                    onClick={() => changeStatus('cancelled')}
+                    disabled={loading || !reason.trim()}
+                    className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isPending ? 'Confirmer le refus' : 'Confirmer l\'annulation'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {showContract && (
+          <RentalContractModal
+            booking={booking}
+            carName={carName}
+            unit={assignedUnit}
+            onClose={() => setShowContract(false)}
+            onSigned={(signed) => {
+              setContract(signed);
+              setShowContract(false);
+            }}
+          />
+        )}
+
+        {showInspection && (
+          <VehicleInspectionModal
+            booking={booking}
+            carName={carName}
+            unit={assignedUnit}
+            onClose={() => setShowInspection(false)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReservationsTab;
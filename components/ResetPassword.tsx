@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabaseClient';
+import { clearLoginFailures, updatePassword, MIN_PASSWORD_LENGTH } from '../lib/auth';
+import { KeyRound, Loader2 } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+const inputStyle = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent transition-all";
+
+// Landing page of the recovery email. Supabase reads the token from the URL
+// and opens a short-lived session in which the password can be changed.
+const ResetPassword: React.FC = () => {
+  const [status, setStatus] = useState<'checking' | 'ready' | 'invalid'>('checking');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (window.location.hash.includes('error=')) {
+      setStatus('invalid');
+      return;
+    }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+      if (event === 'PASSWORD_RECOVERY') setStatus('ready');
+    });
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setStatus(current => (current === 'checking' ? (session ? 'ready' : 'invalid') : current));
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) {
+      setError('Les deux mots de passe ne correspondent pas.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await updatePassword(password);
+      clearLoginFailures().catch(err => console.error('Error clearing login failures:', err.message));
+      navigate('/dashboard', { replace: true });
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors du changement de mot de passe');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-luxury-50 to-luxury-100 flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gold-600 rounded-full mb-4">
+            <KeyRound className="text-white" size={32} />
+          </div>
+          <h1 className="text-3xl font-serif font-bold text-gray-900 mb-2">Nouveau mot de passe</h1>
+        </div>
+
+        {status === 'checking' ? (
+          <LoadingSpinner />
+        ) : status === 'invalid' ? (
+          <div className="space-y-6 text-center">
+            <p className="text-gray-600">Ce lien de réinitialisation est invalide ou a expiré.</p>
+            <button
+              onClick={() => navigate('/login', { replace: true })}
+              className="w-full bg-gold-600 text-white py-3 rounded-lg font-medium hover:bg-gold-700 transition-all"
+            >
+              Demander un nouveau lien
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Nouveau mot de passe
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+                className={inputStyle}
+              />
+              <p className="text-xs text-gray-500 mt-1">Au moins {MIN_PASSWORD_LENGTH} caractères.</p>
+            </div>
+
+            <div>
+              <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirmer le mot de passe
+              </label>
+              <input
+                id="confirmation"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+                required
+                className={inputStyle}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-gold-600 text-white py-3 rounded-lg font-medium hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {loading ? <Loader2 className="animate-spin" size={20} /> : <KeyRound size={20} />}
+              <span>Enregistrer</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { CarPhoto, ImageFormat } from '../types';
+
+interface ResponsiveImageProps {
+  photo: CarPhoto;
+  alt: string;
+  sizes: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+}
+
+const srcSetFor = (photo: CarPhoto, format: ImageFormat): string =>
+  photo.variants
+    .filter(variant => variant.format === format)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+
+// Serves the resized copies of a picture through srcset, with its blurred placeholder
+// until the right size has loaded. The parent must be positioned.
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ photo, alt, sizes, className = '', loading = 'lazy' }) => {
+  const [loaded, setLoaded] = useState(false);
+  const avif = srcSetFor(photo, 'avif');
+  const webp = srcSetFor(photo, 'webp');
+  const jpeg = srcSetFor(photo, 'jpeg');
+
+  return (
+    <>
+      <picture>
+        {avif && <source type="image/avif" srcSet={avif} sizes={sizes} />}
+        {webp && <source type="image/webp" srcSet={webp} sizes={sizes} />}
+        <img
+          src={photo.url}
+          srcSet={jpeg || undefined}
+          sizes={jpeg ? sizes : undefined}
+          alt={alt}
+          className={className}
+          loading={loading}
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+        />
+      </picture>
+      {photo.placeholder && (
+        <img
+          src={photo.placeholder}
+          alt=""
+          aria-hidden="true"
+          className={`absolute inset-0 w-full h-full object-cover blur-xl scale-110 pointer-events-none transition-opacity duration-500 ${
+            loaded ? 'opacity-0' : 'opacity-100'
+          }`}
+        />
+      )}
+    </>
+  );
+};
+
+export default ResponsiveImage;
@@ -0,0 +1,111 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Eraser } from 'lucide-react';
+import { SignatureImage } from '../lib/contracts';
+
+interface SignaturePadProps {
+  onChange: (signature: SignatureImage | null) => void;
+}
+
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 240;
+
+// Drawn with pointer events so it works with a finger on the agent's phone
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // JPEG has no transparency, so start from a white background
+  const resetCanvas = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+  };
+
+  useEffect(() => {
+    resetCanvas();
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setIsEmpty(false);
+    onChange({
+      dataUrl: e.currentTarget.toDataURL('image/jpeg', 0.85),
+      width: PAD_WIDTH,
+      height: PAD_HEIGHT,
+    });
+  };
+
+  const handleClear = () => {
+    resetCanvas();
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="relative border-2 border-dashed border-gray-300 rounded-lg overflow-hidden bg-white">
+        <canvas
+          ref={canvasRef}
+          width={PAD_WIDTH}
+          height={PAD_HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="w-full h-auto touch-none cursor-crosshair"
+        />
+        {isEmpty && (
+          <span className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm pointer-events-none">
+            Signez ici
+          </span>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={handleClear}
+        className="mt-2 flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <Eraser size={14} />
+        <span>Effacer</span>
+      </button>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { Permission, StaffMember, StaffRole, StaffRoleDefinition } from '../types';
+import { deleteStaffMember, fetchStaffMembers, fetchStaffRoles, saveStaffMember, PERMISSION_LABELS } from '../lib/staff';
+import { Check, Loader2, Trash2, UserPlus } from 'lucide-react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TeamTabProps {
+  currentEmail: string;
+}
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+
+const TeamTab: React.FC<TeamTabProps> = ({ currentEmail }) => {
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [roles, setRoles] = useState<StaffRoleDefinition[]>([]);
+  const [formData, setFormData] = useState({ email: '', full_name: '', role: 'agent' as StaffRole });
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    try {
+      const [memberData, roleData] = await Promise.all([fetchStaffMembers(), fetchStaffRoles()]);
+      setMembers(memberData);
+      setRoles(roleData);
+    } catch (err: any) {
+      console.error('Error fetching staff:', err);
+      setError("Impossible de charger l'équipe");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveStaffMember({
+        email: formData.email,
+        full_name: formData.full_name.trim() || null,
+        role: formData.role,
+      });
+      setFormData({ email: '', full_name: '', role: 'agent' });
+      await loadTeam();
+    } catch (err: any) {
+      setError(err.message || "Erreur lors de l'enregistrement du membre");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    try {
+      await saveStaffMember({ email: member.email, full_name: member.full_name, role });
+      await loadTeam();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors du changement de rôle');
+    }
+  };
+
+  const handleDelete = async (member: StaffMember) => {
+    if (!window.confirm(`Retirer l'accès de ${member.full_name || member.email} ?`)) return;
+
+    try {
+      await deleteStaffMember(member.email);
+      await loadTeam();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de la suppression du membre');
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-800">Équipe ({members.length})</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Membre</th>
+                <th className="px-4 py-3 font-medium">Rôle</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => {
+                const isCurrent = member.email === currentEmail;
+                return (
+                  <tr key={member.email} className="border-t border-gray-100">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{member.full_name || member.email}</p>
+                      {member.full_name && <p className="text-gray-500">{member.email}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {/* Owners cannot demote themselves and lock everyone out of this tab */}
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as StaffRole)}
+                        disabled={isCurrent}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent disabled:bg-gray-50"
+                      >
+                        {roles.map(role => (
+                          <option key={role.role} value={role.role}>{role.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!isCurrent && (
+                        <button
+                          onClick={() => handleDelete(member)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          aria-label="Retirer l'accès"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Add member */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Ajouter un membre</h3>
+          <p className="text-sm text-gray-500">
+            Le compte de connexion doit exister dans Supabase Auth avec la même adresse email.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            placeholder="Email *"
+            required
+            className={inputStyle}
+          />
+          <input
+            type="text"
+            value={formData.full_name}
+            onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+            placeholder="Nom complet"
+            className={inputStyle}
+          />
+          <select
+            value={formData.role}
+            onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
+            className={inputStyle}
+          >
+            {roles.map(role => (
+              <option key={role.role} value={role.role}>{role.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {saving ? <Loader2 className="animate-spin" size={20} /> : <UserPlus size={20} />}
+          <span>Ajouter</span>
+        </button>
+      </form>
+
+      {/* What each role can do */}
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <h3 className="font-semibold text-gray-900 px-6 pt-6 pb-3">Droits par rôle</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Droit</th>
+                {roles.map(role => (
+                  <th key={role.role} className="px-4 py-3 font-medium text-center">{role.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(PERMISSION_LABELS) as Permission[]).map(permission => (
+                <tr key={permission} className="border-t border-gray-100">
+                  <td className="px-4 py-3 text-gray-700">{PERMISSION_LABELS[permission]}</td>
+                  {roles.map(role => (
+                    <td key={role.role} className="px-4 py-3 text-center">
+                      {role.permissions.includes(permission) && <Check size={16} className="inline text-green-600" />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamTab;
@@ -0,0 +1,406 @@
+import React, { useState, useEffect } from 'react';
+import { BookingRequest, DamagePoint, FuelLevel, InspectionKind, SupabaseVehicleUnit, VehicleInspection } from '../types';
+import {
+  compareInspections,
+  fetchBookingInspections,
+  getInspectionPhotoUrls,
+  saveInspection,
+  uploadInspectionPhoto,
+  ACCEPTED_PHOTO_TYPES,
+  FUEL_LEVEL_ORDER,
+  INSPECTION_KIND_LABELS,
+} from '../lib/inspections';
+import { FUEL_LEVEL_LABELS } from '../lib/contracts';
+import { Camera, Edit, Loader2, Save, X } from 'lucide-react';
+import DamageDiagram from './DamageDiagram';
+
+interface VehicleInspectionModalProps {
+  booking: BookingRequest;
+  carName: string;
+  unit?: SupabaseVehicleUnit;
+  onClose: () => void;
+}
+
+type InspectionView = InspectionKind | 'diff';
+
+const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+const labelStyle = "block text-sm font-medium text-gray-700 mb-2";
+
+const emptyInspectionForm = {
+  mileage: '',
+  fuel_level: 'full' as FuelLevel,
+  damages: [] as DamagePoint[],
+  photos: [] as string[],
+  notes: '',
+};
+
+const VehicleInspectionModal: React.FC<VehicleInspectionModalProps> = ({ booking, carName, unit, onClose }) => {
+  const [inspections, setInspections] = useState<VehicleInspection[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [view, setView] = useState<InspectionView>(booking.status === 'confirmed' ? 'check_out' : 'check_in');
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState(emptyInspectionForm);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInspections();
+  }, [booking.id]);
+
+  // Previews of photos picked but not uploaded yet
+  useEffect(() => {
+    const urls = newPhotos.map(file => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [newPhotos]);
+
+  const loadInspections = async () => {
+    try {
+      const data = await fetchBookingInspections(booking.id);
+      setInspections(data);
+      setPhotoUrls(await getInspectionPhotoUrls(data.flatMap(i => i.photos)));
+    } catch (err: any) {
+      console.error('Error fetching inspections:', err);
+      setError('Impossible de charger les états des lieux');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const checkOut = inspections.find(i => i.kind === 'check_out');
+  const checkIn = inspections.find(i => i.kind === 'check_in');
+  const current = view === 'diff' ? undefined : inspections.find(i => i.kind === view);
+
+  const startEditing = (kind: InspectionKind) => {
+    const existing = inspections.find(i => i.kind === kind);
+    if (existing) {
+      setFormData({
+        mileage: existing.mileage.toString(),
+        fuel_level: existing.fuel_level,
+        damages: existing.damages,
+        photos: existing.photos,
+        notes: existing.notes || '',
+      });
+    } else if (kind === 'check_in' && checkOut) {
+      // Start the return from the pickup state so only new damage has to be marked
+      setFormData({ ...emptyInspectionForm, mileage: checkOut.mileage.toString(), damages: checkOut.damages });
+    } else {
+      setFormData({ ...emptyInspectionForm, mileage: unit ? unit.mileage.toString() : '' });
+    }
+    setNewPhotos([]);
+    setError(null);
+    setEditing(true);
+  };
+
+  const switchView = (next: InspectionView) => {
+    setView(next);
+    setEditing(false);
+    setError(null);
+  };
+
+  // Open the form straight away when the inspection for this step is missing
+  useEffect(() => {
+    if (!loading && view !== 'diff' && !inspections.some(i => i.kind === view)) {
+      startEditing(view);
+    }
+  }, [loading, view]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    setNewPhotos([...newPhotos, ...files]);
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (view === 'diff') return;
+    setError(null);
+
+    const mileage = parseInt(formData.mileage, 10);
+    if (isNaN(mileage)) {
+      setError('Indiquez le kilométrage');
+      return;
+    }
+    if (view === 'check_in' && checkOut && mileage < checkOut.mileage) {
+      setError(`Le kilométrage de retour ne peut pas être inférieur à celui du départ (${checkOut.mileage.toLocaleString()} km)`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const uploaded: string[] = [];
+      for (const file of newPhotos) {
+        uploaded.push(await uploadInspectionPhoto(booking.id, view, file));
+      }
+
+      await saveInspection({
+        booking_id: booking.id,
+        unit_id: booking.unitId ? parseInt(booking.unitId, 10) : null,
+        kind: view,
+        mileage,
+        fuel_level: formData.fuel_level,
+        damages: formData.damages,
+        photos: [...formData.photos, ...uploaded],
+        notes: formData.notes.trim() || null,
+      });
+
+      setEditing(false);
+      setNewPhotos([]);
+      await loadInspections();
+      if (view === 'check_in' && checkOut) setView('diff');
+    } catch (err: any) {
+      console.error('Error saving inspection:', err);
+      setError(err.message || 'Erreur lors de l\'enregistrement de l\'état des lieux');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPhotos = (paths: string[]) => (
+    paths.length > 0 ? (
+      <div className="grid grid-cols-3 gap-2">
+        {paths.map(path => (
+          <a key={path} href={photoUrls[path]} target="_blank" rel="noopener noreferrer">
+            <img src={photoUrls[path]} alt="" className="w-full aspect-square object-cover rounded-lg bg-gray-100" />
+          </a>
+        ))}
+      </div>
+    ) : (
+      <p className="text-sm text-gray-500">Aucune photo</p>
+    )
+  );
+
+  const renderSummary = (inspection: VehicleInspection, highlightIds?: string[]) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <span className="text-gray-500">Kilométrage</span>
+          <p className="font-semibold text-gray-900">{inspection.mileage.toLocaleString()} km</p>
+        </div>
+        <div>
+          <span className="text-gray-500">Carburant</span>
+          <p className="font-semibold text-gray-900">{FUEL_LEVEL_LABELS[inspection.fuel_level]}</p>
+        </div>
+      </div>
+      <DamageDiagram damages={inspection.damages} highlightIds={highlightIds} />
+      {inspection.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{inspection.notes}</p>}
+      {renderPhotos(inspection.photos)}
+    </div>
+  );
+
+  const renderDiff = () => {
+    if (!checkOut || !checkIn) return null;
+    const diff = compareInspections(checkOut, checkIn);
+    const newIds = diff.newDamages.map(d => d.id);
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xl font-bold text-gray-900">{diff.distance.toLocaleString()} km</p>
+            <p className="text-xs text-gray-500">parcourus</p>
+          </div>
+          <div className={`rounded-lg p-3 ${diff.fuelDelta < 0 ? 'bg-amber-50' : 'bg-gray-50'}`}>
+            <p className={`text-xl font-bold ${diff.fuelDelta < 0 ? 'text-amber-700' : 'text-gray-900'}`}>
+              {diff.fuelDelta === 0 ? '=' : `${diff.fuelDelta > 0 ? '+' : ''}${diff.fuelDelta}/4`}
+            </p>
+            <p className="text-xs text-gray-500">carburant</p>
+          </div>
+          <div className={`rounded-lg p-3 ${diff.newDamages.length > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+            <p className={`text-xl font-bold ${diff.newDamages.length > 0 ? 'text-red-700' : 'text-green-700'}`}>
+              {diff.newDamages.length}
+            </p>
+            <p className="text-xs text-gray-500">nouveau(x) dégât(s)</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">{INSPECTION_KIND_LABELS.check_out}</h3>
+            {renderSummary(checkOut)}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">{INSPECTION_KIND_LABELS.check_in}</h3>
+            {renderSummary(checkIn, newIds)}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const tabs: { id: InspectionView; label: string }[] = [
+    { id: 'check_out', label: INSPECTION_KIND_LABELS.check_out },
+    { id: 'check_in', label: INSPECTION_KIND_LABELS.check_in },
+    ...(checkOut && checkIn ? [{ id: 'diff' as InspectionView, label: 'Comparaison' }] : []),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[95vh] overflow-y-auto">
+        <div className="sticky top-0 z-10 bg-white border-b px-4 sm:px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-serif font-bold text-gray-900">État des lieux</h2>
+              <span className="text-sm text-gray-500">
+                {carName}{unit && ` · ${unit.plate_number}`}
+              </span>
+            </div>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700 transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+          <div className="flex gap-2 mt-4">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => switchView(tab.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  view === tab.id ? 'bg-gold-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="animate-spin text-gold-600" size={24} />
+            </div>
+          ) : view === 'diff' ? (
+            renderDiff()
+          ) : editing ? (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelStyle}>Kilométrage *</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={formData.mileage}
+                    onChange={(e) => setFormData({ ...formData, mileage: e.target.value.replace(/\D/g, '') })}
+                    required
+                    className={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label className={labelStyle}>Carburant *</label>
+                  <select
+                    value={formData.fuel_level}
+                    onChange={(e) => setFormData({ ...formData, fuel_level: e.target.value as FuelLevel })}
+                    className={inputStyle}
+                  >
+                    {FUEL_LEVEL_ORDER.map(level => (
+                      <option key={level} value={level}>{FUEL_LEVEL_LABELS[level]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <span className={labelStyle}>Dégâts</span>
+                {view === 'check_in' && checkOut && (
+                  <p className="text-xs text-gray-500 mb-2">Les dégâts relevés au départ sont repris ; ajoutez uniquement les nouveaux.</p>
+                )}
+                <DamageDiagram
+                  damages={formData.damages}
+                  onChange={(damages) => setFormData({ ...formData, damages })}
+                />
+              </div>
+
+              <div>
+                <span className={labelStyle}>Photos</span>
+                {(formData.photos.length > 0 || previews.length > 0) && (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-3">
+                    {formData.photos.map(path => (
+                      <img key={path} src={photoUrls[path]} alt="" className="w-full aspect-square object-cover rounded-lg bg-gray-100" />
+                    ))}
+                    {previews.map((url, idx) => (
+                      <div key={url} className="relative">
+                        <img src={url} alt="" className="w-full aspect-square object-cover rounded-lg" />
+                        <button
+                          type="button"
+                          onClick={() => setNewPhotos(newPhotos.filter((_, i) => i !== idx))}
+                          className="absolute top-1 right-1 bg-white rounded-full p-0.5 text-gray-700 shadow"
+                          aria-label="Retirer"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <label className="flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 cursor-pointer">
+                  <Camera size={20} />
+                  <span>Prendre une photo</span>
+                  <input
+                    type="file"
+                    accept={ACCEPTED_PHOTO_TYPES}
+                    capture="environment"
+                    multiple
+                    onChange={handlePhotoChange}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+
+              <div>
+                <label className={labelStyle}>Remarques</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className={inputStyle}
+                />
+              </div>
+
+              <div className="flex gap-3">
+                {current && (
+                  <button
+                    type="button"
+                    onClick={() => setEditing(false)}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                  >
+                    Annuler
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {saving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                  <span>Enregistrer</span>
+                </button>
+              </div>
+            </form>
+          ) : current ? (
+            <div className="space-y-6">
+              {renderSummary(current)}
+              <button
+                onClick={() => startEditing(current.kind)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all text-sm"
+              >
+                <Edit size={16} />
+                <span>Modifier</span>
+              </button>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleInspectionModal;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { SupabaseCar, SupabaseVehicleUnit, VehicleUnitStatus } from '../types';
+import { fetchVehicleUnits, saveVehicleUnit, deleteVehicleUnit, UNIT_STATUS_LABELS } from '../lib/vehicleUnits';
+import { Plus, Edit, Trash2, Loader2, X } from 'lucide-react';
+
+interface VehicleUnitsModalProps {
+  car: SupabaseCar;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const emptyUnitForm = {
+  plate_number: '',
+  year: '',
+  mileage: '',
+  status: 'active' as VehicleUnitStatus,
+};
+
+const VehicleUnitsModal: React.FC<VehicleUnitsModalProps> = ({ car, onClose, onChanged }) => {
+  const [units, setUnits] = useState<SupabaseVehicleUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyUnitForm);
+
+  useEffect(() => {
+    loadUnits();
+  }, [car.id]);
+
+  const loadUnits = async () => {
+    try {
+      setUnits(await fetchVehicleUnits(car.id));
+    } catch (err: any) {
+      console.error('Error fetching vehicle units:', err);
+      setError('Impossible de charger les unités');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(emptyUnitForm);
+  };
+
+  const handleEdit = (unit: SupabaseVehicleUnit) => {
+    setEditingId(unit.id);
+    setFormData({
+      plate_number: unit.plate_number,
+      year: unit.year ? String(unit.year) : '',
+      mileage: String(unit.mileage),
+      status: unit.status,
+    });
+  };
+
+  const handleDelete = async (unit: SupabaseVehicleUnit) => {
+    if (!confirm(`Supprimer l'unité ${unit.plate_number} ?`)) return;
+    try {
+      await deleteVehicleUnit(unit.id);
+      await loadUnits();
+      onChanged();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const plateNumber = formData.plate_number.trim().toUpperCase();
+      if (!plateNumber) {
+        throw new Error('La plaque d\'immatriculation est obligatoire');
+      }
+
+      await saveVehicleUnit({
+        car_id: car.id,
+        plate_number: plateNumber,
+        year: formData.year ? parseInt(formData.year, 10) : null,
+        mileage: formData.mileage ? parseInt(formData.mileage, 10) : 0,
+        status: formData.status,
+      }, editingId ?? undefined);
+
+      resetForm();
+      await loadUnits();
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Erreur lors de l\'enregistrement de l\'unité');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gold-500 focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-2xl font-serif font-bold text-gray-900">
+            Unités — {car.brand} {car.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Units List */}
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="animate-spin text-gold-600" size={24} />
+            </div>
+          ) : units.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">Aucune unité enregistrée pour ce modèle</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {units.map(unit => (
+                <li key={unit.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                  <div>
+                    <span className="font-mono font-semibold text-gray-900">{unit.plate_number}</span>
+                    <span className="text-gray-500 ml-3">
+                      {unit.year || '—'} · {unit.mileage.toLocaleString()} km
+                    </span>
+                    <span className={`ml-3 px-2 py-0.5 rounded-full text-xs font-medium ${
+                      unit.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {UNIT_STATUS_LABELS[unit.status]}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleEdit(unit)} className="text-blue-500 hover:text-blue-700" aria-label="Modifier">
+                      <Edit size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(unit)} className="text-red-500 hover:text-red-700" aria-label="Supprimer">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Add / Edit Unit Form */}
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-6">
+            <h3 className="font-semibold text-gray-800">
+              {editingId ? 'Modifier l\'unité' : 'Ajouter une unité'}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Plaque *</label>
+                <input
+                  type="text"
+                  value={formData.plate_number}
+                  onChange={(e) => setFormData({ ...formData, plate_number: e.target.value })}
+                  placeholder="Ex: 12345-A-6"
+                  required
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Année</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.year}
+                  onChange={(e) => setFormData({ ...formData, year: e.target.value.replace(/\D/g, '').slice(0, 4) })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Kilométrage</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.mileage}
+                  onChange={(e) => setFormData({ ...formData, mileage: e.target.value.replace(/\D/g, '') })}
+                  className={inputStyle}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Statut</label>
+                <select
+                  value={formData.status}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as VehicleUnitStatus })}
+                  className={inputStyle}
+                >
+                  {(Object.keys(UNIT_STATUS_LABELS) as VehicleUnitStatus[]).map(status => (
+                    <option key={status} value={status}>{UNIT_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-all"
+                >
+                  Annuler
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-6 py-3 bg-gold-600 text-white rounded-lg hover:bg-gold-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {saving ? <Loader2 className="animate-spin" size={20} /> : !editingId && <Plus size={20} />}
+                <span>{editingId ? 'Mettre à jour' : 'Ajouter'}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VehicleUnitsModal;
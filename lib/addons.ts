@@ -0,0 +1,119 @@
+import { supabase } from './supabaseClient';
+import { Addon, BookingAddon } from '../types';
+import { DateRange, bookingRange, rangesOverlap } from './availability';
+
+export type AddonInput = Omit<Addon, 'id' | 'created_at'>;
+
+export interface AddonBookedPeriod extends DateRange {
+  addonId: number;
+  quantity: number;
+}
+
+export const ADDON_PRICING_LABELS: Record<Addon['pricing_type'], string> = {
+  per_day: 'par jour',
+  flat: 'forfait',
+};
+
+// Days may include a half day from the return grace period
+export const computeAddonAmount = (addon: Addon, quantity: number, days: number): number =>
+  addon.pricing_type === 'per_day' ? Math.round(addon.price * quantity * days) : addon.price * quantity;
+
+// Snapshot the chosen add-ons with their current prices
+export const buildBookingAddons = (
+  addons: Addon[],
+  quantities: Record<number, number>,
+  days: number
+): BookingAddon[] =>
+  addons
+    .filter(addon => (quantities[addon.id] || 0) > 0)
+    .map(addon => ({
+      addon_id: addon.id,
+      name: addon.name,
+      quantity: quantities[addon.id],
+      unit_price: addon.price,
+      pricing_type: addon.pricing_type,
+      amount: computeAddonAmount(addon, quantities[addon.id], days),
+    }));
+
+// Units of a limited add-on still free over the range; null when stock is unlimited
+export const getAddonStockLeft = (
+  addon: Addon,
+  range: DateRange,
+  periods: AddonBookedPeriod[]
+): number | null => {
+  if (addon.stock === null) return null;
+  const reserved = periods
+    .filter(p => p.addonId === addon.id && rangesOverlap(range, p))
+    .reduce((sum, p) => sum + p.quantity, 0);
+  return Math.max(0, addon.stock - reserved);
+};
+
+export const fetchAddons = async (): Promise<Addon[]> => {
+  const { data, error } = await supabase
+    .from('addons')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Supported add-on ids per car id
+export const fetchCarAddonLinks = async (): Promise<Record<string, number[]>> => {
+  const { data, error } = await supabase
+    .from('car_addons')
+    .select('car_id, addon_id');
+
+  if (error) throw error;
+
+  const links: Record<string, number[]> = {};
+  (data || []).forEach((row: { car_id: number; addon_id: number }) => {
+    const key = row.car_id.toString();
+    links[key] = [...(links[key] || []), row.addon_id];
+  });
+  return links;
+};
+
+export const fetchAddonBookedPeriods = async (): Promise<AddonBookedPeriod[]> => {
+  const { data, error } = await supabase
+    .from('addon_booked_periods')
+    .select('addon_id, quantity, pickup_date, dropoff_date');
+
+  if (error) throw error;
+
+  return (data || []).map((row: { addon_id: number; quantity: number; pickup_date: string; dropoff_date: string }) => ({
+    addonId: row.addon_id,
+    quantity: row.quantity,
+    ...bookingRange(row.pickup_date, row.dropoff_date),
+  }));
+};
+
+export const saveAddon = async (addon: AddonInput, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('addons').update(addon).eq('id', id)
+    : await supabase.from('addons').insert([addon]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de l'option: ${error.message}`);
+};
+
+export const deleteAddon = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('addons').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression de l'option: ${error.message}`);
+};
+
+// Replace the set of add-ons a car supports
+export const setCarAddons = async (carId: number, addonIds: number[]): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from('car_addons')
+    .delete()
+    .eq('car_id', carId);
+
+  if (deleteError) throw new Error(`Erreur lors de la mise à jour des options: ${deleteError.message}`);
+  if (addonIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('car_addons')
+    .insert(addonIds.map(addonId => ({ car_id: carId, addon_id: addonId })));
+
+  if (error) throw new Error(`Erreur lors de la mise à jour des options: ${error.message}`);
+};
@@ -0,0 +1,124 @@
+import { supabase } from './supabaseClient';
+import { AuditAction, AuditEntry, AuditTable } from '../types';
+import { addDays } from './availability';
+import { AGENCY_TIME_ZONE, toAgencyTimestamp } from './dates';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  cars: 'Véhicule',
+  bookings: 'Réservation',
+  promotions: 'Promotion',
+  coupons: 'Code promo',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Création',
+  update: 'Modification',
+  delete: 'Suppression',
+};
+
+export const AUDIT_ACTION_STYLES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+// Columns shown under a readable name; the others keep their column name
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'Nom',
+  brand: 'Marque',
+  price_per_day: 'Prix/jour',
+  deposit_amount: 'Caution',
+  is_available: 'Disponible',
+  category: 'Catégorie',
+  fuel_type: 'Carburant',
+  gearbox: 'Transmission',
+  description: 'Description',
+  image_url: 'Image',
+  status: 'Statut',
+  cancellation_reason: "Motif d'annulation",
+  unit_id: 'Unité',
+  label: 'Libellé',
+  promo_price: 'Prix promo',
+  starts_on: 'Début',
+  ends_on: 'Fin',
+  min_days: 'Durée minimale',
+  code: 'Code',
+  discount_type: 'Type de remise',
+  discount_value: 'Remise',
+  is_active: 'Actif',
+};
+
+export interface AuditFilters {
+  table?: AuditTable;
+  action?: AuditAction;
+  actor?: string;
+  from?: string; // YYYY-MM-DD, agency days, inclusive
+  to?: string;
+}
+
+export interface PriceChange {
+  entry: AuditEntry;
+  before: number | null;
+  after: number | null;
+}
+
+const AUDIT_PAGE_SIZE = 200;
+
+export const fetchAuditLog = async (filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_PAGE_SIZE);
+
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor?.trim()) query = query.ilike('actor_email', `%${filters.actor.trim()}%`);
+  if (filters.from) {
+    query = query.gte('created_at', new Date(toAgencyTimestamp({ date: filters.from, time: '00:00' })).toISOString());
+  }
+  if (filters.to) {
+    query = query.lt('created_at', new Date(toAgencyTimestamp({ date: addDays(filters.to, 1), time: '00:00' })).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Every change of the daily price of a car, newest first
+export const fetchCarPriceHistory = async (carId: number): Promise<PriceChange[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', 'cars')
+    .eq('record_id', carId.toString())
+    .neq('action', 'delete')
+    .not('changes->price_per_day', 'is', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((entry: AuditEntry) => ({
+    entry,
+    before: entry.changes.price_per_day.before as number | null,
+    after: entry.changes.price_per_day.after as number | null,
+  }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// DD/MM/YYYY HH:mm on the agency clock
+export const formatAuditTimestamp = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('fr-FR', {
+    timeZone: AGENCY_TIME_ZONE,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
@@ -0,0 +1,94 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+// Route the recovery email brings staff back to
+export const RESET_PASSWORD_PATH = '/reset-password';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Set while the user logs out on purpose, so it isn't reported as an expired session
+let signingOut = false;
+
+export const signOut = async (): Promise<void> => {
+  signingOut = true;
+  try {
+    await supabase.auth.signOut();
+  } finally {
+    signingOut = false;
+  }
+};
+
+// Calls back when the session ends on its own (expired refresh token,
+// logout from another tab). Returns the unsubscribe function.
+export const onSessionExpired = (callback: () => void): (() => void) => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+    if (event === 'SIGNED_OUT' && !signingOut) callback();
+  });
+  return () => subscription.unsubscribe();
+};
+
+// Calls back when the session is renewed or the user changes, e.g. to reload their role.
+// Deferred because Supabase calls made inside the listener wait on the listener itself.
+export const onAuthRefreshed = (callback: () => void): (() => void) => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange(event => {
+    if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') setTimeout(callback, 0);
+  });
+  return () => subscription.unsubscribe();
+};
+
+// getSession() refreshes an expired access token, so null means the user has to log in again
+export const hasActiveSession = async (): Promise<boolean> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session !== null;
+};
+
+export const sendPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+    redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
+  });
+
+  if (error) throw new Error(`Erreur lors de l'envoi de l'email: ${error.message}`);
+};
+
+export const updatePassword = async (password: string): Promise<void> => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères.`);
+  }
+
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw new Error(`Erreur lors du changement de mot de passe: ${error.message}`);
+};
+
+export interface StaffSignInResult {
+  error: string | null;
+  lockedUntil: Date | null; // when this device may try again after repeated failures
+}
+
+// Signs in through the staff-sign-in function, which spaces out failed attempts per email and address
+export const signInStaff = async (email: string, password: string): Promise<StaffSignInResult> => {
+  const { data, error } = await supabase.functions.invoke('staff-sign-in', { body: { email, password } });
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    if (!body?.error) throw new Error(`Erreur lors de la connexion: ${error.message}`);
+    return {
+      error: body.error,
+      lockedUntil: body.retryAfter > 0 ? new Date(Date.now() + body.retryAfter * 1000) : null,
+    };
+  }
+
+  const { error: sessionError } = await supabase.auth.setSession(data.session);
+  if (sessionError) throw new Error(`Erreur lors de la connexion: ${sessionError.message}`);
+  return { error: null, lockedUntil: null };
+};
+
+export const clearLoginFailures = async (): Promise<void> => {
+  const { error } = await supabase.rpc('clear_login_failures');
+  if (error) throw error;
+};
+
+// "45 s" or "3 min" until the lockout ends
+export const formatLockoutDelay = (until: Date, now = new Date()): string => {
+  const seconds = Math.max(1, Math.ceil((until.getTime() - now.getTime()) / 1000));
+  return seconds < 60 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`;
+};
@@ -0,0 +1,107 @@
+import { supabase } from './supabaseClient';
+
+// Dates are plain YYYY-MM-DD strings. A car returned on a given day can be
+// picked up again that same day, so ranges are treated as [start, end).
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface BookedPeriod extends DateRange {
+  carId: string;
+  unitId?: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const toUtcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export const addDays = (date: string, days: number): string => {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export const daysBetween = (start: string, end: string): number =>
+  Math.round((toUtcDate(end).getTime() - toUtcDate(start).getTime()) / DAY_MS);
+
+// Days a booking keeps the car: a same-day rental still takes it for that day
+export const bookingRange = (pickupDate: string, dropoffDate: string): DateRange => ({
+  start: pickupDate,
+  end: dropoffDate > pickupDate ? dropoffDate : addDays(pickupDate, 1),
+});
+
+export const rangesOverlap = (a: DateRange, b: DateRange): boolean =>
+  a.start < b.end && b.start < a.end;
+
+export const fetchBookedPeriods = async (carId?: string): Promise<BookedPeriod[]> => {
+  let query = supabase
+    .from('car_booked_periods')
+    .select('car_id, pickup_date, dropoff_date, unit_id');
+
+  if (carId) {
+    query = query.eq('car_id', Number(carId));
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row: { car_id: number; pickup_date: string; dropoff_date: string; unit_id: number | null }) => ({
+    carId: row.car_id.toString(),
+    ...bookingRange(row.pickup_date, row.dropoff_date),
+    unitId: row.unit_id !== null ? row.unit_id.toString() : undefined,
+  }));
+};
+
+const overlappingPeriods = (range: DateRange, periods: BookedPeriod[], carId: string) =>
+  periods
+    .filter(p => p.carId === carId && rangesOverlap(range, p))
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+// Units taken during the range: each assigned unit counts once,
+// bookings not yet assigned to a unit count as one unit each.
+export const countBookedUnits = (range: DateRange, periods: BookedPeriod[], carId: string): number => {
+  const overlapping = overlappingPeriods(range, periods, carId);
+  const assignedUnits = new Set(overlapping.filter(p => p.unitId).map(p => p.unitId));
+  return assignedUnits.size + overlapping.filter(p => !p.unitId).length;
+};
+
+// unitCount is the number of rentable vehicles (see getRentableUnitCount)
+export const countFreeUnits = (
+  range: DateRange,
+  periods: BookedPeriod[],
+  carId: string,
+  unitCount: number
+): number => Math.max(0, unitCount - countBookedUnits(range, periods, carId));
+
+// First overlapping booked period when every unit of the car is taken, if any
+export const findConflict = (
+  range: DateRange,
+  periods: BookedPeriod[],
+  carId: string,
+  unitCount = 1
+): BookedPeriod | undefined => {
+  if (countFreeUnits(range, periods, carId, unitCount) > 0) return undefined;
+  return overlappingPeriods(range, periods, carId)[0];
+};
+
+// Earliest window of the same length, starting no earlier than requested, with a free unit
+export const findNextFreeWindow = (
+  range: DateRange,
+  periods: BookedPeriod[],
+  carId: string,
+  unitCount = 1
+): DateRange => {
+  const length = daysBetween(range.start, range.end);
+  let candidate = range;
+
+  while (findConflict(candidate, periods, carId, unitCount)) {
+    // Jump to the moment the first of the overlapping bookings frees its unit
+    const nextRelease = overlappingPeriods(candidate, periods, carId)
+      .map(p => p.end)
+      .sort()[0];
+    candidate = { start: nextRelease, end: addDays(nextRelease, length) };
+  }
+
+  return candidate;
+};
@@ -0,0 +1,77 @@
+import { supabase } from './supabaseClient';
+import { BookingDocument, BookingDocumentKind } from '../types';
+
+// Private bucket: never use getPublicUrl here, only short-lived signed URLs
+const DOCUMENTS_BUCKET = 'customer-documents';
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 5 * 60;
+
+// File extension stored for each accepted type; the bucket policy only accepts these
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'application/pdf': 'pdf',
+};
+
+export const ACCEPTED_DOCUMENT_TYPES = Object.keys(DOCUMENT_EXTENSIONS).join(',');
+
+export const DOCUMENT_KIND_LABELS: Record<BookingDocumentKind, string> = {
+  licence: 'Permis de conduire',
+  identity: "Passeport / Carte d'identité",
+};
+
+// Mirrors set_document_purge_date(); the purge-customer-documents function deletes them nightly
+export const DOCUMENT_RETENTION_DAYS = 30;
+
+// Returns the reason a file cannot be uploaded, if any
+export const getDocumentFileError = (file: File): string | null => {
+  if (!DOCUMENT_EXTENSIONS[file.type]) {
+    return 'Format non accepté. Utilisez une photo (JPG, PNG, WebP, HEIC) ou un PDF.';
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return 'Le fichier dépasse 10 Mo.';
+  }
+  return null;
+};
+
+export const uploadBookingDocument = async (bookingId: string, kind: BookingDocumentKind, file: File): Promise<void> => {
+  const fileError = getDocumentFileError(file);
+  if (fileError) throw new Error(fileError);
+
+  const path = `${bookingId}/${kind}-${Date.now()}.${DOCUMENT_EXTENSIONS[file.type]}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (uploadError) throw new Error(`Erreur lors de l'envoi du document: ${uploadError.message}`);
+
+  // Visitors can't read rows back, so don't ask for the inserted row
+  const { error } = await supabase
+    .from('booking_documents')
+    .insert([{ booking_id: bookingId, kind, storage_path: path }]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du document: ${error.message}`);
+};
+
+export const fetchBookingDocuments = async (bookingId: string): Promise<BookingDocument[]> => {
+  const { data, error } = await supabase
+    .from('booking_documents')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('uploaded_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getDocumentUrl = async (document: BookingDocument): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(document.storage_path, SIGNED_URL_SECONDS);
+
+  if (error || !data) throw new Error(`Impossible d'ouvrir le document: ${error?.message}`);
+  return data.signedUrl;
+};
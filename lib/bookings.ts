@@ -0,0 +1,182 @@
+import { supabase } from './supabaseClient';
+import { BookingRequest, BookingStatus, SupabaseBooking } from '../types';
+import { bookingRange, fetchBookedPeriods, findConflict, rangesOverlap } from './availability';
+
+export type NewBookingRequest = Omit<BookingRequest, 'id' | 'createdAt' | 'status' | 'cancellationReason' | 'statusUpdatedAt' | 'unitId' | 'customerId' | 'deliveryDriverEmail' | 'blockOverrideReason'>;
+
+export interface BookingStatusOptions {
+  reason?: string;
+  unitId?: string;
+  unitCount?: number;
+  customerBlocked?: boolean;
+  overrideReason?: string; // required to confirm a blocked customer's booking
+}
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'En attente',
+  confirmed: 'Confirmée',
+  in_progress: 'En cours',
+  returned: 'Restituée',
+  cancelled: 'Annulée',
+};
+
+// Flight numbers as printed on boarding passes, e.g. AT 205, 3O123, FR8124
+export const FLIGHT_NUMBER_PATTERN = '[A-Za-z0-9]{2}\\s?[0-9]{1,4}[A-Za-z]?';
+
+export const normalizeFlightNumber = (flightNumber: string) => flightNumber.replace(/\s/g, '').toUpperCase();
+
+export const isAirportDelivery = (city: string) => /a[ée]roport/i.test(city);
+
+// Transform a Supabase row to our camelCase BookingRequest
+export const mapBooking = (row: SupabaseBooking): BookingRequest => ({
+  id: row.id,
+  createdAt: row.created_at,
+  fullName: row.full_name,
+  phone: row.phone,
+  carId: row.car_id !== null ? row.car_id.toString() : '',
+  pickupDate: row.pickup_date,
+  dropoffDate: row.dropoff_date,
+  pickupTime: row.pickup_time ? row.pickup_time.slice(0, 5) : undefined,
+  returnTime: row.return_time ? row.return_time.slice(0, 5) : undefined,
+  city: row.delivery_city,
+  totalPrice: row.total_price,
+  status: row.status,
+  cancellationReason: row.cancellation_reason || undefined,
+  statusUpdatedAt: row.status_updated_at || undefined,
+  unitId: row.unit_id ? row.unit_id.toString() : undefined,
+  couponCode: row.coupon_code || undefined,
+  discountAmount: row.discount_amount || undefined,
+  addons: row.addons || [],
+  insuranceTierId: row.insurance_tier_id || undefined,
+  insuranceName: row.insurance_name || undefined,
+  depositAmount: row.deposit_amount ?? undefined,
+  flightNumber: row.flight_number || undefined,
+  flightTerminal: row.flight_terminal || undefined,
+  flightArrivalTime: row.flight_arrival_time ? row.flight_arrival_time.slice(0, 5) : undefined,
+  driverBirthDate: row.driver_birth_date || undefined,
+  licenceIssuedOn: row.licence_issued_on || undefined,
+  priceLines: row.price_lines || undefined,
+  customerId: row.customer_id ?? undefined,
+  deliveryDriverEmail: row.delivery_driver_email || undefined,
+  blockOverrideReason: row.block_override_reason || undefined,
+});
+
+// Save a booking request as "pending" and return it with the price the database stored.
+// The id is generated client-side because visitors are not allowed to read rows back.
+export const createBookingRequest = async (booking: NewBookingRequest): Promise<BookingRequest> => {
+  const id = crypto.randomUUID();
+  const row: SupabaseBooking = {
+    id,
+    full_name: booking.fullName,
+    phone: booking.phone,
+    car_id: booking.carId ? Number(booking.carId) : null,
+    pickup_date: booking.pickupDate,
+    dropoff_date: booking.dropoffDate,
+    pickup_time: booking.pickupTime || null,
+    return_time: booking.returnTime || null,
+    delivery_city: booking.city,
+    total_price: booking.totalPrice,
+    status: 'pending',
+    coupon_code: booking.couponCode || null,
+    discount_amount: booking.discountAmount || 0,
+    addons: booking.addons || [],
+    insurance_tier_id: booking.insuranceTierId || null,
+    insurance_name: booking.insuranceName || null,
+    deposit_amount: booking.depositAmount ?? null,
+    flight_number: booking.flightNumber ? normalizeFlightNumber(booking.flightNumber) : null,
+    flight_terminal: booking.flightTerminal || null,
+    flight_arrival_time: booking.flightArrivalTime || null,
+    driver_birth_date: booking.driverBirthDate || null,
+    licence_issued_on: booking.licenceIssuedOn || null,
+    price_lines: booking.priceLines || null,
+  };
+
+  const { error } = await supabase
+    .from('bookings')
+    .insert([row]);
+
+  if (error) {
+    throw new Error(`Erreur lors de l'enregistrement de la réservation: ${error.message}`);
+  }
+
+  // The database re-checks the promo code, so the stored price can differ from the form's.
+  // The row is saved either way: if it can't be read back, keep the submitted price.
+  const { data: stored, error: readError } = await supabase
+    .rpc('get_submitted_booking_price', { p_id: id })
+    .maybeSingle<Pick<SupabaseBooking, 'total_price' | 'discount_amount' | 'coupon_code'>>();
+
+  if (readError || !stored) {
+    console.error('Error reading stored booking price:', readError?.message);
+    return { ...booking, id, status: 'pending' };
+  }
+
+  return {
+    ...booking,
+    id,
+    status: 'pending',
+    totalPrice: stored.total_price,
+    discountAmount: stored.discount_amount || undefined,
+    couponCode: stored.coupon_code || undefined,
+  };
+};
+
+export const fetchBookings = async (): Promise<BookingRequest[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .order('pickup_date', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as SupabaseBooking[]).map(mapBooking);
+};
+
+// Move a booking to a new status. A reason is required when cancelling or rejecting,
+// and a booking can only be confirmed if a unit of the car is still free over its dates
+// and, for a blocked customer, with the reason for going ahead anyway.
+export const updateBookingStatus = async (
+  booking: BookingRequest,
+  status: BookingStatus,
+  { reason, unitId, unitCount, customerBlocked, overrideReason }: BookingStatusOptions = {}
+): Promise<void> => {
+  if (status === 'cancelled' && !reason?.trim()) {
+    throw new Error('Veuillez indiquer un motif d\'annulation.');
+  }
+
+  if (status === 'confirmed' && customerBlocked && !overrideReason?.trim()) {
+    throw new Error('Ce client est bloqué. Indiquez pourquoi vous confirmez malgré tout.');
+  }
+
+  if (status === 'confirmed' && booking.carId) {
+    if (unitCount === 0) {
+      throw new Error('Aucune unité de ce véhicule n\'est en service.');
+    }
+    const range = bookingRange(booking.pickupDate, booking.dropoffDate);
+    const periods = await fetchBookedPeriods(booking.carId);
+    const conflict = findConflict(range, periods, booking.carId, unitCount);
+    if (conflict) {
+      throw new Error(`Ce véhicule est déjà réservé du ${conflict.start} au ${conflict.end}.`);
+    }
+    if (unitId && periods.some(p => p.unitId === unitId && rangesOverlap(range, p))) {
+      throw new Error('Cette unité est déjà attribuée à une autre réservation sur ces dates.');
+    }
+  }
+
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      status,
+      cancellation_reason: status === 'cancelled' ? reason!.trim() : null,
+      status_updated_at: new Date().toISOString(),
+      ...(status === 'confirmed' && {
+        unit_id: unitId ? Number(unitId) : null,
+        block_override_reason: customerBlocked ? overrideReason!.trim() : null,
+      }),
+    })
+    .eq('id', booking.id);
+
+  // Raised by the database when another confirmation took the unit in the meantime
+  if (error?.code === '23P01') throw new Error(error.message);
+  if (error) {
+    throw new Error(`Erreur lors de la mise à jour de la réservation: ${error.message}`);
+  }
+};
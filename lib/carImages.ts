@@ -0,0 +1,100 @@
+import { supabase } from './supabaseClient';
+import { CarImage, CarPhoto, ImageVariant } from '../types';
+import { optimizeImage } from './imageOptimizer';
+
+const CAR_IMAGES_BUCKET = 'car-images';
+
+// Gallery pictures per car id, in display order
+export const fetchCarGalleries = async (): Promise<Record<string, CarPhoto[]>> => {
+  const { data, error } = await supabase
+    .from('car_images')
+    .select('car_id, url, variants, placeholder')
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  const galleries: Record<string, CarPhoto[]> = {};
+  (data || []).forEach(({ car_id, ...photo }: Pick<CarImage, 'car_id' | 'url' | 'variants' | 'placeholder'>) => {
+    const key = car_id.toString();
+    galleries[key] = [...(galleries[key] || []), photo];
+  });
+  return galleries;
+};
+
+export const fetchCarImages = async (carId: number): Promise<CarImage[]> => {
+  const { data, error } = await supabase
+    .from('car_images')
+    .select('*')
+    .eq('car_id', carId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Cover first, then the rest of the gallery in its saved order
+export const orderGallery = (cover: string, photos: CarPhoto[]): CarPhoto[] => {
+  const rest = photos.filter(photo => photo.url !== cover);
+  if (!cover) return rest;
+  const coverPhoto = photos.find(photo => photo.url === cover) || { url: cover, variants: [], placeholder: null };
+  return [coverPhoto, ...rest];
+};
+
+// Replaces the whole gallery of a car with these pictures, in this order.
+// Runs as one transaction: on failure the previous gallery is kept.
+export const saveCarImages = async (carId: number, photos: CarPhoto[]): Promise<void> => {
+  const { error } = await supabase.rpc('replace_car_images', {
+    p_car_id: carId,
+    p_photos: photos.map(({ url, variants, placeholder }) => ({ url, variants, placeholder })),
+  });
+
+  if (error) throw new Error(`Erreur lors de la mise à jour de la galerie: ${error.message}`);
+};
+
+const uploadBlob = async (filePath: string, blob: Blob): Promise<string> => {
+  const { error } = await supabase.storage
+    .from(CAR_IMAGES_BUCKET)
+    .upload(filePath, blob, {
+      contentType: blob.type,
+      cacheControl: '31536000', // file names are never reused
+      upsert: false
+    });
+
+  if (error) {
+    if (error.message.includes('permission') || error.message.includes('policy') || error.message.includes('403')) {
+      throw new Error('Erreur de permissions. Vérifiez que le bucket "car-images" autorise les téléchargements pour les utilisateurs authentifiés.');
+    }
+    throw new Error(`Erreur lors du téléchargement de l'image: ${error.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(CAR_IMAGES_BUCKET)
+    .getPublicUrl(filePath);
+
+  if (!publicUrl) {
+    throw new Error('Impossible d\'obtenir l\'URL publique de l\'image téléchargée');
+  }
+  return publicUrl;
+};
+
+// Optimises a picture in the browser and uploads all its sizes and formats to the
+// public bucket. The original file, with its EXIF data, never leaves the device.
+export const uploadCarImage = async (file: File): Promise<CarPhoto> => {
+  const { variants, placeholder } = await optimizeImage(file);
+
+  // Largest copy in a format every browser reads, for places that need a single URL
+  const fallbackIndex = variants.reduce((last, variant, index) => (variant.format !== 'avif' ? index : last), -1);
+  if (fallbackIndex === -1) throw new Error(`Impossible de convertir l'image ${file.name}`);
+
+  const baseName = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+
+  const uploaded: ImageVariant[] = await Promise.all(
+    variants.map(async ({ width, format, blob }) => ({
+      url: await uploadBlob(`${baseName}-${width}.${format === 'jpeg' ? 'jpg' : format}`, blob),
+      width,
+      format,
+    }))
+  );
+
+  return { url: uploaded[fallbackIndex].url, variants: uploaded, placeholder };
+};
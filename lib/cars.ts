@@ -0,0 +1,159 @@
+import { supabase } from './supabaseClient';
+import { Addon, Car, CarPhoto, Promotion, SupabaseCar, UnitCounts } from '../types';
+import { DateRange, addDays } from './availability';
+import { fetchUnitCounts, getRentableUnitCount } from './vehicleUnits';
+import { fetchPromotions, resolvePromotion } from './promotions';
+import { fetchAddons, fetchCarAddonLinks } from './addons';
+import { fetchCarGalleries, orderGallery } from './carImages';
+import { getAgencyToday } from './dates';
+
+export const CAR_CATEGORIES = ['Berline', 'SUV', 'Citadine', 'Luxe', '4x4'];
+
+// Values stored in cars.fuel_type / cars.gearbox and how the car form shows them
+export const FUEL_TYPE_LABELS: Record<string, string> = {
+  Essence: 'Essence',
+  Diesel: 'Diesel',
+  'diesel/essence': 'Essence et Diesel',
+};
+
+export const GEARBOX_LABELS: Record<string, string> = {
+  Manuelle: 'Manuelle',
+  Automatique: 'Automatique',
+  'automatique/manuelle': 'Automatique et Manuelle',
+};
+
+// Generate consistent UI visuals based on category/price
+const getCategoryStyle = (category: string, pricePerDay: number) => {
+  const catLower = category.toLowerCase();
+  if (catLower.includes('suv') || catLower.includes('4x4')) {
+    return { accentColor: '#E27D60', badgeIcon: 'Fire', badge: undefined }; // Orange
+  }
+  if (catLower.includes('luxe') || catLower.includes('luxury') || pricePerDay > 600) {
+    return { accentColor: '#E8B44A', badgeIcon: 'Crown', badge: 'Luxe' }; // Gold
+  }
+  if (catLower.includes('eco') || catLower.includes('citadine')) {
+    return { accentColor: '#2C7873', badgeIcon: 'Sparkles', badge: pricePerDay < 300 ? 'Meilleur Prix' : undefined }; // Teal
+  }
+  return { accentColor: '#1A3C5A', badgeIcon: 'Zap', badge: undefined }; // Navy
+};
+
+export const todayRange = (): DateRange => {
+  const today = getAgencyToday();
+  return { start: today, end: addDays(today, 1) };
+};
+
+// Resolve the promo active for the given dates and the badge that goes with it
+export const applyDateRange = (car: Car, range: DateRange): Car => {
+  const promotion = resolvePromotion(car.promotions, range, car.pricePerDay);
+  const { badge, badgeIcon } = getCategoryStyle(car.type, car.pricePerDay);
+
+  return {
+    ...car,
+    promoPrice: promotion ? promotion.promo_price : null,
+    promoLabel: promotion?.label,
+    // Override badge if promo exists
+    badge: promotion ? 'Promo' : badge,
+    badgeIcon: promotion ? 'Zap' : badgeIcon,
+  };
+};
+
+// Transform Supabase data to our Rich UI Car format
+export const mapSupabaseCar = (
+  row: SupabaseCar,
+  index: number,
+  units: UnitCounts | undefined,
+  promotions: Promotion[],
+  addons: Addon[],
+  gallery: CarPhoto[] = []
+): Car => {
+  const { accentColor } = getCategoryStyle(row.category, row.price_per_day);
+  const unitCount = getRentableUnitCount(units);
+
+  const car: Car = {
+    id: row.id.toString(),
+    make: row.brand,
+    model: row.name,
+    type: row.category,
+    transmission: row.gearbox,
+    fuel: row.fuel_type,
+    pricePerDay: row.price_per_day,
+    promotions,
+    features: ['Climatisation', 'Bluetooth', 'Sécurité ABS', 'GPS'], // Default features as they aren't in DB
+    accessories: addons.map(addon => addon.name),
+    addons,
+    deposit: row.deposit_amount ?? 0,
+    image: row.image_url,
+    images: orderGallery(row.image_url, gallery),
+    description: row.description || undefined,
+    isAvailable: row.is_available,
+    accentColor,
+    // Generate fake stats for UI if needed
+    rating: 4.5 + (index % 5) * 0.1,
+    reviewCount: 40 + (index * 12),
+    availableCount: row.is_available ? unitCount : 0,
+    unitCount,
+  };
+
+  return applyDateRange(car, todayRange());
+};
+
+// Sort cars by priority: specific models first, then the rest
+export const sortCars = (cars: Car[]): Car[] => {
+  const priorityOrder = ['kardian', 'accent', 'duster', 'creta'];
+  return [...cars].sort((a, b) => {
+    const modelA = a.model.toLowerCase();
+    const modelB = b.model.toLowerCase();
+
+    const indexA = priorityOrder.findIndex(p => modelA.includes(p));
+    const indexB = priorityOrder.findIndex(p => modelB.includes(p));
+
+    if (indexA !== -1 && indexB !== -1) return indexA - indexB;
+    if (indexA !== -1) return -1;
+    if (indexB !== -1) return 1;
+    return 0;
+  });
+};
+
+// Load the public catalogue with its stock and promotions
+// Value of an optional catalogue query, or the fallback when it failed
+const settledOr = <T>(result: PromiseSettledResult<T>, fallback: T, label: string): T => {
+  if (result.status === 'fulfilled') return result.value;
+  console.error(`Error fetching ${label}:`, result.reason?.message);
+  return fallback;
+};
+
+// Only the cars query is required: without units, promotions, add-ons or
+// galleries the catalogue still shows, with single cars at their base price
+export const fetchCatalog = async (): Promise<Car[]> => {
+  const [{ data, error }, [unitCountsResult, promotionsResult, addonsResult, addonLinksResult, galleriesResult]] = await Promise.all([
+    supabase.from('cars').select('*'),
+    Promise.allSettled([
+      fetchUnitCounts(),
+      fetchPromotions(),
+      fetchAddons(),
+      fetchCarAddonLinks(),
+      fetchCarGalleries(),
+    ]),
+  ]);
+
+  if (error) throw error;
+
+  const unitCounts = settledOr(unitCountsResult, {}, 'unit counts');
+  const promotions = settledOr(promotionsResult, [], 'promotions');
+  const addons = settledOr(addonsResult, [], 'add-ons');
+  const addonLinks = settledOr(addonLinksResult, {}, 'add-on links');
+  const galleries = settledOr(galleriesResult, {}, 'car galleries');
+
+  const mappedCars = ((data || []) as SupabaseCar[]).map((row, index) =>
+    mapSupabaseCar(
+      row,
+      index,
+      unitCounts[row.id.toString()],
+      promotions.filter(p => p.car_id === row.id),
+      addons.filter(a => a.is_active && (addonLinks[row.id.toString()] || []).includes(a.id)),
+      galleries[row.id.toString()]
+    )
+  );
+
+  return sortCars(mappedCars);
+};
@@ -0,0 +1,230 @@
+import { supabase } from './supabaseClient';
+import { BookingRequest, FuelLevel, RentalContract } from '../types';
+import { createPdf, downloadBlob, jpegFromDataUrl, PAGE_HEIGHT, PAGE_WIDTH } from './pdf';
+import { AGENCY_DETAILS, BRAND_COLOR } from './quotes';
+import { TERMS_CLAUSES } from './terms';
+import { formatDisplayDate, getAgencyToday } from './dates';
+
+// Private bucket: contracts are only ever opened through signed URLs
+const CONTRACTS_BUCKET = 'rental-contracts';
+const SIGNED_URL_SECONDS = 5 * 60;
+
+export const FUEL_LEVEL_LABELS: Record<FuelLevel, string> = {
+  empty: 'Réserve',
+  quarter: '1/4',
+  half: '1/2',
+  three_quarters: '3/4',
+  full: 'Plein',
+};
+
+export interface SignatureImage {
+  dataUrl: string; // JPEG from the signature pad
+  width: number; // px
+  height: number;
+}
+
+export interface ContractDocument {
+  number: string;
+  signedOn: string; // YYYY-MM-DD
+  booking: BookingRequest;
+  carName: string;
+  plateNumber?: string;
+  startMileage: number;
+  fuelLevel: FuelLevel;
+  idDocumentNumber: string;
+  signature: SignatureImage;
+}
+
+const formatAmount = (amount: number) => `${amount.toLocaleString('fr-FR')} MAD`;
+
+export const getContractNumber = (bookingId: string): string =>
+  `CTR-${getAgencyToday().replace(/-/g, '')}-${bookingId.slice(0, 8).toUpperCase()}`;
+
+export const buildContractPdf = (contract: ContractDocument): Blob => {
+  const { booking } = contract;
+  const pdf = createPdf();
+  const margin = 18;
+  const right = PAGE_WIDTH - margin;
+  const bottom = PAGE_HEIGHT - 20;
+  let y = 24;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      pdf.addPage();
+      y = 20;
+    }
+  };
+
+  // Header
+  pdf.text(margin, y, AGENCY_DETAILS.name.toUpperCase(), { size: 20, bold: true, color: BRAND_COLOR });
+  pdf.text(right, y, 'CONTRAT DE LOCATION', { size: 14, bold: true, align: 'right' });
+  y += 6;
+  pdf.text(margin, y, AGENCY_DETAILS.address, { size: 9, color: '#6b7280' });
+  pdf.text(right, y, `N° ${contract.number}`, { size: 9, align: 'right' });
+  y += 4.5;
+  pdf.text(margin, y, `${AGENCY_DETAILS.phone} · ${AGENCY_DETAILS.email}`, { size: 9, color: '#6b7280' });
+  pdf.text(right, y, `Réservation ${booking.id.slice(0, 8).toUpperCase()}`, { size: 9, align: 'right' });
+  y += 6;
+  pdf.line(margin, y, right, y, { color: BRAND_COLOR, width: 1.5 });
+  y += 10;
+
+  // Two-column blocks of label / value rows
+  const column = margin + (right - margin) / 2;
+  const block = (leftTitle: string, leftRows: string[][], rightTitle: string, rightRows: string[][]) => {
+    pdf.text(margin, y, leftTitle, { size: 8, bold: true, color: '#6b7280' });
+    pdf.text(column, y, rightTitle, { size: 8, bold: true, color: '#6b7280' });
+    y += 6;
+    const drawRows = (x: number, rows: string[][]) =>
+      rows.forEach(([label, value], idx) => {
+        pdf.text(x, y + idx * 5, `${label} :`, { size: 9.5, color: '#4b5563' });
+        pdf.text(x + 32, y + idx * 5, value, { size: 9.5, bold: true });
+      });
+    drawRows(margin, leftRows);
+    drawRows(column, rightRows);
+    y += Math.max(leftRows.length, rightRows.length) * 5 + 6;
+  };
+
+  block(
+    'LOCATAIRE',
+    [
+      ['Nom', booking.fullName],
+      ['Téléphone', booking.phone],
+      ['Né(e) le', booking.driverBirthDate ? formatDisplayDate(booking.driverBirthDate) : '—'],
+      ['Permis depuis', booking.licenceIssuedOn ? formatDisplayDate(booking.licenceIssuedOn) : '—'],
+      ['Pièce d\'identité', contract.idDocumentNumber],
+    ],
+    'VÉHICULE',
+    [
+      ['Modèle', contract.carName],
+      ['Immatriculation', contract.plateNumber || '—'],
+      ['Kilométrage', `${contract.startMileage.toLocaleString('fr-FR')} km`],
+      ['Carburant', FUEL_LEVEL_LABELS[contract.fuelLevel]],
+    ],
+  );
+
+  block(
+    'PÉRIODE',
+    [
+      ['Départ', `${formatDisplayDate(booking.pickupDate)}${booking.pickupTime ? ` à ${booking.pickupTime}` : ''}`],
+      ['Retour', `${formatDisplayDate(booking.dropoffDate)}${booking.returnTime ? ` à ${booking.returnTime}` : ''}`],
+      ['Livraison', booking.city],
+    ],
+    'MONTANTS',
+    [
+      ['Total location', formatAmount(booking.totalPrice)],
+      ['Caution', booking.depositAmount !== undefined ? formatAmount(booking.depositAmount) : '—'],
+      ['Assurance', booking.insuranceName || '—'],
+    ],
+  );
+
+  if (booking.addons?.length) {
+    const options = booking.addons.map(a => `${a.quantity > 1 ? `${a.quantity} × ` : ''}${a.name}`).join(', ');
+    pdf.wrapText(`Options : ${options}`, right - margin, 9).forEach(row => {
+      pdf.text(margin, y, row, { size: 9 });
+      y += 4.5;
+    });
+    y += 3;
+  }
+
+  pdf.line(margin, y, right, y, { color: '#e5e7eb' });
+  y += 8;
+
+  // Conditions générales
+  pdf.text(margin, y, 'CONDITIONS GÉNÉRALES DE LOCATION', { size: 9, bold: true });
+  y += 6;
+  const writeParagraph = (value: string, indent = 0) => {
+    pdf.wrapText(value, right - margin - indent, 8).forEach(row => {
+      ensureSpace(4);
+      pdf.text(margin + indent, y, row, { size: 8, color: '#374151' });
+      y += 3.8;
+    });
+    y += 1;
+  };
+  TERMS_CLAUSES.forEach(clause => {
+    ensureSpace(12);
+    pdf.text(margin, y, clause.title, { size: 8.5, bold: true });
+    y += 4.5;
+    clause.paragraphs.forEach((paragraph, idx) => {
+      writeParagraph(paragraph);
+      if (idx === 0) clause.items?.forEach(item => writeParagraph(`• ${item}`, 3));
+    });
+    y += 2;
+  });
+
+  // Signature
+  const signatureHeight = 30;
+  const signatureWidth = Math.min(80, (contract.signature.width / contract.signature.height) * signatureHeight);
+  ensureSpace(signatureHeight + 24);
+  y += 4;
+  pdf.text(margin, y, `Fait à Casablanca, le ${formatDisplayDate(contract.signedOn)}`, { size: 9.5 });
+  pdf.text(right, y, 'Signature du locataire', { size: 9.5, bold: true, align: 'right' });
+  y += 4;
+  pdf.text(right, y, '« Lu et approuvé »', { size: 8, color: '#6b7280', align: 'right' });
+  y += 3;
+  pdf.rect(right - signatureWidth, y, signatureWidth, signatureHeight, { color: '#d1d5db' });
+  pdf.image(
+    right - signatureWidth,
+    y,
+    signatureWidth,
+    signatureHeight,
+    jpegFromDataUrl(contract.signature.dataUrl, contract.signature.width, contract.signature.height),
+  );
+
+  return pdf.toBlob();
+};
+
+export const fetchBookingContract = async (bookingId: string): Promise<RentalContract | null> => {
+  const { data, error } = await supabase
+    .from('rental_contracts')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('signed_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+// Upload the signed PDF, then record it against the booking and unit
+export const saveSignedContract = async (
+  contract: ContractDocument,
+  pdf: Blob,
+  unitId?: string,
+): Promise<RentalContract> => {
+  const path = `${contract.booking.id}/${contract.number}-${Date.now()}.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(CONTRACTS_BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError) throw new Error(`Erreur lors de l'envoi du contrat: ${uploadError.message}`);
+
+  const { data, error } = await supabase
+    .from('rental_contracts')
+    .insert([{
+      booking_id: contract.booking.id,
+      unit_id: unitId ? parseInt(unitId, 10) : null,
+      storage_path: path,
+      start_mileage: contract.startMileage,
+      fuel_level: contract.fuelLevel,
+      id_document_number: contract.idDocumentNumber,
+    }])
+    .select()
+    .single();
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du contrat: ${error.message}`);
+  return data;
+};
+
+export const getContractUrl = async (contract: RentalContract): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(CONTRACTS_BUCKET)
+    .createSignedUrl(contract.storage_path, SIGNED_URL_SECONDS);
+
+  if (error || !data) throw new Error(`Impossible d'ouvrir le contrat: ${error?.message}`);
+  return data.signedUrl;
+};
+
+export const downloadContract = (contract: ContractDocument, pdf: Blob) => {
+  downloadBlob(pdf, `${contract.number}.pdf`);
+};
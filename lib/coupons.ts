@@ -0,0 +1,61 @@
+import { supabase } from './supabaseClient';
+import { Coupon } from '../types';
+
+export type CouponInput = Omit<Coupon, 'id' | 'created_at' | 'used_count'>;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// Look up an active, unexpired code that still has uses left
+export const validateCoupon = async (code: string): Promise<Coupon | null> => {
+  const { data, error } = await supabase.rpc('validate_coupon', { p_code: normalizeCouponCode(code) });
+  if (error) throw error;
+  return (data as Coupon[] | null)?.[0] || null;
+};
+
+// Returns the reason a valid code cannot be used for this rental, if any
+export const getCouponIneligibility = (coupon: Coupon, category: string, days: number): string | null => {
+  if (coupon.min_days && days < coupon.min_days) {
+    return `Le code ${coupon.code} est valable à partir de ${coupon.min_days} jours de location.`;
+  }
+  if (coupon.allowed_categories?.length && !coupon.allowed_categories.includes(category)) {
+    return `Le code ${coupon.code} est réservé aux catégories : ${coupon.allowed_categories.join(', ')}.`;
+  }
+  return null;
+};
+
+// Discount in MAD, never more than the amount it applies to
+export const computeCouponDiscount = (coupon: Coupon, subtotal: number): number => {
+  const discount = coupon.discount_type === 'percent'
+    ? Math.round(subtotal * coupon.discount_value / 100)
+    : coupon.discount_value;
+  return Math.min(discount, subtotal);
+};
+
+export const fetchCoupons = async (): Promise<Coupon[]> => {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveCoupon = async (coupon: CouponInput, id?: number): Promise<void> => {
+  const row = { ...coupon, code: normalizeCouponCode(coupon.code) };
+  const { error } = id
+    ? await supabase.from('coupons').update(row).eq('id', id)
+    : await supabase.from('coupons').insert([row]);
+
+  if (error) {
+    if (error.message.includes('duplicate') || error.message.includes('unique')) {
+      throw new Error(`Le code ${row.code} existe déjà.`);
+    }
+    throw new Error(`Erreur lors de l'enregistrement du code promo: ${error.message}`);
+  }
+};
+
+export const deleteCoupon = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('coupons').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression du code promo: ${error.message}`);
+};
@@ -0,0 +1,91 @@
+import { supabase } from './supabaseClient';
+import { BookingRequest, Customer, CustomerTag } from '../types';
+
+export const CUSTOMER_TAG_LABELS: Record<CustomerTag, string> = {
+  vip: 'VIP',
+  corporate: 'Entreprise',
+};
+
+export const CUSTOMER_TAG_STYLES: Record<CustomerTag, string> = {
+  vip: 'bg-gold-600 text-white',
+  corporate: 'bg-blue-100 text-blue-800',
+};
+
+export type CustomerUpdate = Partial<Pick<Customer, 'full_name' | 'email' | 'notes' | 'tags' | 'is_blocked' | 'blocked_reason'>>;
+
+export interface CustomerStats {
+  bookingCount: number;
+  totalSpend: number; // MAD, confirmed and completed rentals only
+  lastPickupDate?: string;
+}
+
+// Same rules as normalize_phone() in the database
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('00')) return digits.substring(2);
+  if (/^0[5-7]\d{8}$/.test(digits)) return `212${digits.substring(1)}`;
+  return digits;
+};
+
+// +212 6 16 92 55 72
+export const formatPhone = (phone: string): string => {
+  const match = phone.match(/^212(\d)(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  return match ? `+212 ${match.slice(1).join(' ')}` : `+${phone}`;
+};
+
+export const fetchCustomers = async (): Promise<Customer[]> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .order('full_name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchCustomer = async (id: number): Promise<Customer | null> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateCustomer = async (id: number, update: CustomerUpdate): Promise<void> => {
+  if (update.is_blocked && !update.blocked_reason?.trim()) {
+    throw new Error('Veuillez indiquer le motif du blocage.');
+  }
+
+  const { error } = await supabase
+    .from('customers')
+    .update(update)
+    .eq('id', id);
+
+  if (error) throw new Error(`Erreur lors de la mise à jour du client: ${error.message}`);
+};
+
+export const getCustomerStats = (customerId: number, bookings: BookingRequest[]): CustomerStats => {
+  const history = bookings.filter(b => b.customerId === customerId);
+  const billed = history.filter(b => b.status === 'confirmed' || b.status === 'in_progress' || b.status === 'returned');
+  return {
+    bookingCount: history.length,
+    totalSpend: billed.reduce((sum, b) => sum + b.totalPrice, 0),
+    lastPickupDate: history.map(b => b.pickupDate).sort().pop(),
+  };
+};
+
+// Matches on name, email or any part of the phone number, whatever its formatting
+export const matchesCustomerSearch = (customer: Customer, query: string): boolean => {
+  const text = query.trim().toLowerCase();
+  if (!text) return true;
+
+  const digits = text.replace(/\D/g, '');
+  return (
+    customer.full_name.toLowerCase().includes(text) ||
+    (customer.email || '').toLowerCase().includes(text) ||
+    (digits.length >= 3 && (customer.phone.includes(digits) || customer.phone.includes(normalizePhone(digits))))
+  );
+};
@@ -0,0 +1,57 @@
+// Rentals follow the agency's clock, whatever the customer's browser timezone.
+export const AGENCY_TIME_ZONE = 'Africa/Casablanca';
+
+export interface AgencyDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const agencyFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: AGENCY_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const getAgencyParts = (instant: Date) => {
+  const parts = agencyFormatter.formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+};
+
+// Minutes the agency clock is ahead of UTC at the given instant
+const getAgencyOffset = (instant: Date): number => {
+  const p = getAgencyParts(instant);
+  const wallClock = Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day), Number(p.hour), Number(p.minute));
+  return Math.round((wallClock - Math.floor(instant.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+};
+
+export const getAgencyNow = (): AgencyDateTime => {
+  const p = getAgencyParts(new Date());
+  return { date: `${p.year}-${p.month}-${p.day}`, time: `${p.hour}:${p.minute}` };
+};
+
+export const getAgencyToday = (): string => getAgencyNow().date;
+
+// UTC timestamp of a wall-clock date and time in Casablanca.
+// The offset is checked twice so the result stays right across DST changes.
+export const toAgencyTimestamp = ({ date, time }: AgencyDateTime): number => {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const firstGuess = wallClock - getAgencyOffset(new Date(wallClock)) * MINUTE_MS;
+  return wallClock - getAgencyOffset(new Date(firstGuess)) * MINUTE_MS;
+};
+
+export const minutesBetween = (start: AgencyDateTime, end: AgencyDateTime): number =>
+  Math.round((toAgencyTimestamp(end) - toAgencyTimestamp(start)) / MINUTE_MS);
+
+// Display a YYYY-MM-DD string as DD/MM/YYYY without going through the local timezone
+export const formatDisplayDate = (date: string): string => {
+  if (!date) return '-';
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+};
@@ -0,0 +1,124 @@
+import { supabase } from './supabaseClient';
+import { BookingDeposit, DepositMethod, DepositStatus, RetentionCategory } from '../types';
+
+export const DEPOSIT_METHOD_LABELS: Record<DepositMethod, string> = {
+  card_preauth: 'Pré-autorisation carte',
+  cash: 'Espèces',
+};
+
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  held: 'Bloquée',
+  partially_retained: 'Partiellement retenue',
+  retained: 'Retenue en totalité',
+  released: 'Restituée',
+};
+
+export const RETENTION_CATEGORY_LABELS: Record<RetentionCategory, string> = {
+  damage: 'Dégât',
+  fine: 'Amende',
+  fuel: 'Carburant',
+  other: 'Autre',
+};
+
+export interface RetentionInput {
+  amount: number;
+  category: RetentionCategory;
+  reason: string;
+  damage_id: string | null;
+}
+
+// Held deposit with the booking it belongs to
+export interface OverdueDeposit extends BookingDeposit {
+  bookings: {
+    full_name: string;
+    phone: string;
+    car_id: number | null;
+    dropoff_date: string;
+    return_time: string | null;
+  };
+}
+
+const DEPOSIT_SELECT = '*, deposit_retentions(*)';
+
+export const getRetainedAmount = (deposit: BookingDeposit): number =>
+  deposit.deposit_retentions.reduce((sum, r) => sum + r.amount, 0);
+
+export const fetchBookingDeposit = async (bookingId: string): Promise<BookingDeposit | null> => {
+  const { data, error } = await supabase
+    .from('booking_deposits')
+    .select(DEPOSIT_SELECT)
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const recordDeposit = async (bookingId: string, amount: number, method: DepositMethod): Promise<void> => {
+  const { error } = await supabase
+    .from('booking_deposits')
+    .insert([{ booking_id: bookingId, amount, method }]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de la caution: ${error.message}`);
+};
+
+export const addRetention = async (deposit: BookingDeposit, retention: RetentionInput): Promise<void> => {
+  if (deposit.status !== 'held') {
+    throw new Error('La caution a déjà été restituée.');
+  }
+  if (getRetainedAmount(deposit) + retention.amount > deposit.amount) {
+    throw new Error('Le total retenu ne peut pas dépasser le montant de la caution.');
+  }
+
+  const { error } = await supabase
+    .from('deposit_retentions')
+    .insert([{ ...retention, deposit_id: deposit.id }]);
+
+  if (error) throw new Error(`Erreur lors de l'ajout de la retenue: ${error.message}`);
+};
+
+export const deleteRetention = async (deposit: BookingDeposit, id: number): Promise<void> => {
+  if (deposit.status !== 'held') {
+    throw new Error('La caution a déjà été restituée.');
+  }
+
+  const { error } = await supabase
+    .from('deposit_retentions')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw new Error(`Erreur lors de la suppression de la retenue: ${error.message}`);
+};
+
+// Close the deposit: whatever was not retained goes back to the customer
+export const releaseDeposit = async (deposit: BookingDeposit): Promise<void> => {
+  const retained = getRetainedAmount(deposit);
+  const status: DepositStatus =
+    retained === 0 ? 'released' : retained >= deposit.amount ? 'retained' : 'partially_retained';
+
+  const { data, error } = await supabase
+    .from('booking_deposits')
+    .update({ status, released_at: new Date().toISOString() })
+    .eq('id', deposit.id)
+    .eq('status', 'held')
+    .select('id');
+
+  if (error) throw new Error(`Erreur lors de la restitution de la caution: ${error.message}`);
+  // Another release got there first (double click, second tab)
+  if (!data || data.length === 0) {
+    throw new Error('La caution a déjà été restituée. Rechargez la réservation.');
+  }
+};
+
+// Deposits still blocked although the car was due back before the given day
+export const fetchOverdueDeposits = async (today: string): Promise<OverdueDeposit[]> => {
+  const { data, error } = await supabase
+    .from('booking_deposits')
+    .select(`${DEPOSIT_SELECT}, bookings!inner(full_name, phone, car_id, dropoff_date, return_time)`)
+    .eq('status', 'held')
+    .lt('bookings.dropoff_date', today)
+    .order('collected_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
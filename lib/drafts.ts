@@ -0,0 +1,25 @@
+// Unsaved admin forms kept in sessionStorage, so a login interrupted by an
+// expired session doesn't lose them. Cleared once the form is saved or closed.
+
+const DRAFT_PREFIX = 'trevi-draft:';
+
+export const saveDraft = <T>(key: string, value: T): void => {
+  try {
+    sessionStorage.setItem(DRAFT_PREFIX + key, JSON.stringify(value));
+  } catch (err: any) {
+    console.error('Error saving draft:', err.message);
+  }
+};
+
+export const loadDraft = <T>(key: string): T | null => {
+  try {
+    const stored = sessionStorage.getItem(DRAFT_PREFIX + key);
+    return stored ? JSON.parse(stored) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearDraft = (key: string): void => {
+  sessionStorage.removeItem(DRAFT_PREFIX + key);
+};
@@ -0,0 +1,75 @@
+import { supabase } from './supabaseClient';
+import { DriverRequirement } from '../types';
+
+// Applies to categories without a rule of their own (see the FAQ)
+export const DEFAULT_DRIVER_REQUIREMENT: Omit<DriverRequirement, 'category'> = {
+  min_age: 21,
+  min_licence_years: 2,
+};
+
+export interface DriverProfile {
+  birthDate: string; // YYYY-MM-DD
+  licenceIssuedOn: string;
+}
+
+// Whole years elapsed between two YYYY-MM-DD dates
+export const fullYearsBetween = (from: string, to: string): number => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  const beforeAnniversary = tm < fm || (tm === fm && td < fd);
+  return ty - fy - (beforeAnniversary ? 1 : 0);
+};
+
+export const getRequirement = (category: string, requirements: DriverRequirement[]): DriverRequirement =>
+  requirements.find(r => r.category === category) || { category, ...DEFAULT_DRIVER_REQUIREMENT };
+
+export const isDriverEligible = (requirement: DriverRequirement, driver: DriverProfile, onDate: string): boolean =>
+  fullYearsBetween(driver.birthDate, onDate) >= requirement.min_age &&
+  fullYearsBetween(driver.licenceIssuedOn, onDate) >= requirement.min_licence_years;
+
+export const getEligibleCategories = (
+  categories: string[],
+  requirements: DriverRequirement[],
+  driver: DriverProfile,
+  onDate: string
+): string[] => categories.filter(category => isDriverEligible(getRequirement(category, requirements), driver, onDate));
+
+// Returns the reason the driver cannot rent this category on the pickup date, if any
+export const getDriverIneligibility = (
+  category: string,
+  categories: string[],
+  requirements: DriverRequirement[],
+  driver: DriverProfile,
+  onDate: string
+): string | null => {
+  if (driver.licenceIssuedOn < driver.birthDate) {
+    return 'La date du permis ne peut pas précéder la date de naissance.';
+  }
+
+  const requirement = getRequirement(category, requirements);
+  if (isDriverEligible(requirement, driver, onDate)) return null;
+
+  const rule = `La catégorie ${category} exige ${requirement.min_age} ans minimum et ${requirement.min_licence_years} ans de permis.`;
+  const eligible = getEligibleCategories(categories, requirements, driver, onDate);
+  return eligible.length > 0
+    ? `${rule} Catégories accessibles : ${eligible.join(', ')}.`
+    : `${rule} Aucune catégorie n'est accessible pour ce conducteur.`;
+};
+
+export const fetchDriverRequirements = async (): Promise<DriverRequirement[]> => {
+  const { data, error } = await supabase
+    .from('driver_requirements')
+    .select('*')
+    .order('min_age', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveDriverRequirement = async (requirement: DriverRequirement): Promise<void> => {
+  const { error } = await supabase
+    .from('driver_requirements')
+    .upsert([requirement], { onConflict: 'category' });
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement des conditions: ${error.message}`);
+};
@@ -0,0 +1,209 @@
+import { supabase } from './supabaseClient';
+import { SupabaseCar } from '../types';
+import { CAR_CATEGORIES, FUEL_TYPE_LABELS, GEARBOX_LABELS } from './cars';
+import { downloadBlob } from './pdf';
+import { getAgencyToday } from './dates';
+import { SpreadsheetCell, toCsv, toXlsx } from './spreadsheet';
+
+// Spreadsheet columns, named after the cars table so an export can be edited and imported back
+export const FLEET_COLUMNS = [
+  'id',
+  'brand',
+  'name',
+  'category',
+  'price_per_day',
+  'deposit_amount',
+  'fuel_type',
+  'gearbox',
+  'is_available',
+  'image_url',
+  'description',
+  'created_at',
+] as const;
+
+type FleetColumn = typeof FLEET_COLUMNS[number];
+
+export type CarImportFields = Pick<SupabaseCar,
+  'brand' | 'name' | 'category' | 'price_per_day' | 'fuel_type' | 'gearbox' | 'is_available' | 'image_url'
+> & { deposit_amount: number; description: string | null };
+
+type EditableField = keyof CarImportFields;
+
+export interface FieldChange {
+  field: EditableField;
+  before: SpreadsheetCell;
+  after: SpreadsheetCell;
+}
+
+export interface FleetImportPlan {
+  creates: { line: number; car: CarImportFields }[];
+  updates: { line: number; car: SupabaseCar; changes: Partial<CarImportFields>; diff: FieldChange[] }[];
+  unchanged: number;
+  errors: { line: number; messages: string[] }[];
+}
+
+// Used for new cars when the sheet leaves the column out, same as the car form
+const NEW_CAR_DEFAULTS: Omit<CarImportFields, 'brand' | 'name' | 'price_per_day'> = {
+  category: 'Berline',
+  deposit_amount: 5000,
+  fuel_type: 'Essence',
+  gearbox: 'Manuelle',
+  is_available: true,
+  image_url: '',
+  description: null,
+};
+
+const REQUIRED_FIELDS: EditableField[] = ['brand', 'name', 'price_per_day'];
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, vrai: true, oui: true, yes: true, '1': true,
+  false: false, faux: false, non: false, no: false, '0': false,
+};
+
+// Accepts the stored value or its label, whatever the case
+const matchOption = (value: string, options: Record<string, string>): string | undefined =>
+  Object.keys(options).find(key =>
+    key.toLowerCase() === value.toLowerCase() || options[key].toLowerCase() === value.toLowerCase()
+  );
+
+// Parses one cell into the value stored in the cars table, or returns an error message
+const parseField = (field: EditableField, raw: string): { value?: CarImportFields[EditableField]; error?: string } => {
+  const text = raw.trim();
+
+  switch (field) {
+    case 'price_per_day':
+    case 'deposit_amount': {
+      const cleaned = text.replace(/\s/g, '').replace(/MAD$/i, '');
+      if (!/^\d+([.,]\d+)?$/.test(cleaned)) return { error: `${field} doit être un nombre positif (reçu "${raw}")` };
+      return { value: Math.round(parseFloat(cleaned.replace(',', '.'))) };
+    }
+    case 'is_available': {
+      const value = BOOLEAN_VALUES[text.toLowerCase()];
+      return value === undefined ? { error: `is_available doit valoir oui ou non (reçu "${raw}")` } : { value };
+    }
+    case 'category': {
+      const value = CAR_CATEGORIES.find(c => c.toLowerCase() === text.toLowerCase());
+      return value ? { value } : { error: `Catégorie inconnue "${raw}" (${CAR_CATEGORIES.join(', ')})` };
+    }
+    case 'fuel_type': {
+      const value = matchOption(text, FUEL_TYPE_LABELS);
+      return value ? { value } : { error: `Carburant inconnu "${raw}" (${Object.values(FUEL_TYPE_LABELS).join(', ')})` };
+    }
+    case 'gearbox': {
+      const value = matchOption(text, GEARBOX_LABELS);
+      return value ? { value } : { error: `Transmission inconnue "${raw}" (${Object.values(GEARBOX_LABELS).join(', ')})` };
+    }
+    case 'description':
+      return { value: text || null };
+    case 'image_url':
+      if (text && !/^https?:\/\//i.test(text)) return { error: `image_url doit être une adresse http(s) (reçu "${raw}")` };
+      return { value: text };
+    default:
+      return text ? { value: text } : { error: `${field} est obligatoire` };
+  }
+};
+
+// Checks every row of the sheet and sorts it into creates and updates, without writing anything
+export const planFleetImport = (rows: string[][], cars: SupabaseCar[]): FleetImportPlan => {
+  const plan: FleetImportPlan = { creates: [], updates: [], unchanged: 0, errors: [] };
+  const [header = [], ...dataRows] = rows;
+  const columns = header.map(name => name.trim().toLowerCase());
+
+  const unknown = columns.filter(name => name && !FLEET_COLUMNS.includes(name as FleetColumn));
+  const duplicated = columns.filter((name, index) => name && columns.indexOf(name) !== index);
+  const missing = REQUIRED_FIELDS.filter(field => !columns.includes(field));
+  if (unknown.length || duplicated.length || dataRows.length === 0) {
+    plan.errors.push({
+      line: 1,
+      messages: [
+        ...unknown.map(name => `Colonne inconnue "${name}" (colonnes possibles : ${FLEET_COLUMNS.join(', ')})`),
+        ...duplicated.map(name => `Colonne "${name}" en double`),
+        ...(dataRows.length === 0 ? ['Le fichier ne contient aucune ligne de véhicule'] : []),
+      ],
+    });
+    return plan;
+  }
+
+  const seenIds = new Set<number>();
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2;
+    const messages: string[] = [];
+    const cell = (column: string) => row[columns.indexOf(column)] ?? '';
+
+    const rawId = columns.includes('id') ? cell('id').trim() : '';
+    const id = rawId ? Number(rawId) : null;
+    const existing = id !== null ? cars.find(c => c.id === id) : undefined;
+    if (rawId && (!Number.isInteger(id) || !existing)) {
+      messages.push(`Véhicule #${rawId} introuvable (laissez id vide pour créer un véhicule)`);
+    } else if (id !== null && seenIds.has(id)) {
+      messages.push(`Véhicule #${id} présent sur plusieurs lignes`);
+    }
+    if (id !== null) seenIds.add(id);
+    if (!existing) {
+      messages.push(...missing.map(field => `${field} est obligatoire pour un nouveau véhicule`));
+    }
+
+    // Only the columns present in the sheet are applied; the others keep their value
+    const values: Partial<CarImportFields> = {};
+    columns.forEach(column => {
+      if (column === 'id' || column === 'created_at' || !column) return;
+      const field = column as EditableField;
+      const { value, error } = parseField(field, cell(column));
+      if (error) messages.push(error);
+      else (values as Record<EditableField, unknown>)[field] = value;
+    });
+
+    if (messages.length) {
+      plan.errors.push({ line, messages });
+      return;
+    }
+
+    if (!existing) {
+      plan.creates.push({ line, car: { ...NEW_CAR_DEFAULTS, ...values } as CarImportFields });
+      return;
+    }
+
+    const currentValue = (field: EditableField): SpreadsheetCell => {
+      const value = existing[field] ?? null;
+      // numeric columns can come back from the database as strings
+      return (field === 'price_per_day' || field === 'deposit_amount') && value !== null ? Number(value) : value;
+    };
+    const diff = (Object.keys(values) as EditableField[])
+      .map(field => ({ field, before: currentValue(field), after: values[field] as SpreadsheetCell }))
+      .filter(change => change.before !== change.after && !(change.before === '' && change.after === null));
+    if (diff.length === 0) {
+      plan.unchanged++;
+      return;
+    }
+
+    const changes: Partial<CarImportFields> = {};
+    diff.forEach(({ field }) => {
+      (changes as Record<EditableField, unknown>)[field] = values[field];
+    });
+    plan.updates.push({ line, car: existing, changes, diff });
+  });
+
+  return plan;
+};
+
+// Writes a checked plan in a single transaction: a refused row leaves the catalogue untouched
+export const applyFleetImport = async (plan: FleetImportPlan): Promise<void> => {
+  if (plan.errors.length) throw new Error('Corrigez les erreurs du fichier avant de lancer l\'import.');
+
+  const { error } = await supabase.rpc('apply_fleet_import', {
+    p_creates: plan.creates,
+    p_updates: plan.updates.map(update => ({ line: update.line, id: update.car.id, changes: update.changes })),
+  });
+
+  if (error) throw new Error(`Erreur lors de l'import, aucun véhicule n'a été modifié: ${error.message}`);
+};
+
+export const exportFleet = (cars: SupabaseCar[], format: 'csv' | 'xlsx') => {
+  const rows: SpreadsheetCell[][] = [
+    [...FLEET_COLUMNS],
+    ...cars.map(car => FLEET_COLUMNS.map(column => car[column] ?? null)),
+  ];
+  const fileName = `flotte-${getAgencyToday()}.${format}`;
+  downloadBlob(format === 'csv' ? toCsv(rows) : toXlsx(rows, 'Flotte'), fileName);
+};
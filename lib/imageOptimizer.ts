@@ -0,0 +1,102 @@
+import { ImageFormat } from '../types';
+
+// Widths generated for each upload; the largest is capped to the original width
+export const IMAGE_WIDTHS = [480, 960, 1600];
+
+const PLACEHOLDER_WIDTH = 24;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+const QUALITY: Record<ImageFormat, number> = {
+  avif: 0.6,
+  webp: 0.8,
+  jpeg: 0.82,
+};
+
+export interface OptimizedVariant {
+  width: number;
+  format: ImageFormat;
+  blob: Blob;
+}
+
+export interface OptimizedImage {
+  variants: OptimizedVariant[];
+  placeholder: string | null;
+}
+
+// Browsers that can't encode a format silently fall back to PNG, so the blob type is checked
+const encode = (canvas: HTMLCanvasElement, format: ImageFormat): Promise<Blob | null> =>
+  new Promise(resolve => {
+    canvas.toBlob(
+      blob => resolve(blob && blob.type === MIME_TYPES[format] ? blob : null),
+      MIME_TYPES[format],
+      QUALITY[format]
+    );
+  });
+
+const drawResized = (source: ImageBitmap, width: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((source.height * width) / source.width);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Impossible de traiter l\'image dans ce navigateur');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const getVariantWidths = (originalWidth: number): number[] => {
+  const largest = Math.min(originalWidth, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]);
+  return [...IMAGE_WIDTHS.filter(width => width < largest), largest];
+};
+
+const readBlobAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Resizes a photo to IMAGE_WIDTHS and re-encodes it as AVIF and WebP (JPEG where
+// WebP can't be encoded). Pixels are redrawn on a canvas, so EXIF data such as
+// the GPS position is not carried over; the orientation is applied beforehand.
+export const optimizeImage = async (file: File): Promise<OptimizedImage> => {
+  let source: ImageBitmap;
+  try {
+    source = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`Format d'image non pris en charge: ${file.name}`);
+  }
+
+  try {
+    const variants: OptimizedVariant[] = [];
+    let fallbackFormat: ImageFormat = 'webp';
+
+    for (const width of getVariantWidths(source.width)) {
+      const canvas = drawResized(source, width);
+
+      const avif = await encode(canvas, 'avif');
+      if (avif) variants.push({ width, format: 'avif', blob: avif });
+
+      let fallback = fallbackFormat === 'webp' ? await encode(canvas, 'webp') : null;
+      if (!fallback) {
+        fallbackFormat = 'jpeg';
+        fallback = await encode(canvas, 'jpeg');
+      }
+      if (!fallback) throw new Error('Impossible de convertir l\'image dans ce navigateur');
+      variants.push({ width, format: fallbackFormat, blob: fallback });
+    }
+
+    const placeholderBlob = await encode(drawResized(source, PLACEHOLDER_WIDTH), 'jpeg');
+    const placeholder = placeholderBlob ? await readBlobAsDataUrl(placeholderBlob) : null;
+
+    return { variants, placeholder };
+  } finally {
+    source.close();
+  }
+};
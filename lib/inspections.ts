@@ -0,0 +1,110 @@
+import { supabase } from './supabaseClient';
+import { DamagePoint, FuelLevel, InspectionKind, VehicleInspection } from '../types';
+import { updateUnitMileage } from './vehicleUnits';
+
+// Private bucket: photos are only ever shown through signed URLs
+const PHOTOS_BUCKET = 'inspection-photos';
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 10 * 60;
+
+// Two marks closer than this (in percent of the diagram) are the same damage
+const SAME_DAMAGE_DISTANCE = 6;
+
+export const ACCEPTED_PHOTO_TYPES = 'image/jpeg,image/png,image/webp,image/heic';
+
+export const INSPECTION_KIND_LABELS: Record<InspectionKind, string> = {
+  check_out: 'Départ',
+  check_in: 'Retour',
+};
+
+export const FUEL_LEVEL_ORDER: FuelLevel[] = ['empty', 'quarter', 'half', 'three_quarters', 'full'];
+
+export interface InspectionInput {
+  booking_id: string;
+  unit_id: number | null;
+  kind: InspectionKind;
+  mileage: number;
+  fuel_level: FuelLevel;
+  damages: DamagePoint[];
+  photos: string[];
+  notes: string | null;
+}
+
+export interface InspectionDiff {
+  newDamages: DamagePoint[];
+  distance: number; // km driven
+  fuelDelta: number; // quarters, negative when returned with less fuel
+}
+
+export const fetchBookingInspections = async (bookingId: string): Promise<VehicleInspection[]> => {
+  const { data, error } = await supabase
+    .from('vehicle_inspections')
+    .select('*')
+    .eq('booking_id', bookingId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const uploadInspectionPhoto = async (bookingId: string, kind: InspectionKind, file: File): Promise<string> => {
+  if (!ACCEPTED_PHOTO_TYPES.split(',').includes(file.type)) {
+    throw new Error('Format non accepté. Utilisez une photo (JPG, PNG, WebP, HEIC).');
+  }
+  if (file.size > MAX_PHOTO_SIZE) {
+    throw new Error('La photo dépasse 10 Mo.');
+  }
+
+  const fileExt = file.name.split('.').pop();
+  const path = `${bookingId}/${kind}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PHOTOS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw new Error(`Erreur lors de l'envoi de la photo: ${error.message}`);
+  return path;
+};
+
+// One inspection per booking and direction: saving again replaces it
+export const saveInspection = async (inspection: InspectionInput): Promise<VehicleInspection> => {
+  const { data, error } = await supabase
+    .from('vehicle_inspections')
+    .upsert([inspection], { onConflict: 'booking_id,kind' })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de l'état des lieux: ${error.message}`);
+
+  if (inspection.unit_id !== null) {
+    await updateUnitMileage(inspection.unit_id, inspection.mileage);
+  }
+  return data;
+};
+
+// Signed URLs keyed by storage path
+export const getInspectionPhotoUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(PHOTOS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+  if (error) throw new Error(`Impossible de charger les photos: ${error.message}`);
+
+  const urls: Record<string, string> = {};
+  (data || []).forEach((item: { path: string | null; signedUrl: string }) => {
+    if (item.path) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+};
+
+// Damage marked at return with no mark nearby at pickup is new
+export const compareInspections = (checkOut: VehicleInspection, checkIn: VehicleInspection): InspectionDiff => ({
+  newDamages: checkIn.damages.filter(
+    damage => !checkOut.damages.some(
+      previous => Math.hypot(previous.x - damage.x, previous.y - damage.y) < SAME_DAMAGE_DISTANCE,
+    ),
+  ),
+  distance: Math.max(0, checkIn.mileage - checkOut.mileage),
+  fuelDelta: FUEL_LEVEL_ORDER.indexOf(checkIn.fuel_level) - FUEL_LEVEL_ORDER.indexOf(checkOut.fuel_level),
+});
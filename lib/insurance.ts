@@ -0,0 +1,32 @@
+import { supabase } from './supabaseClient';
+import { InsuranceTier } from '../types';
+
+export type InsuranceTierInput = Omit<InsuranceTier, 'id' | 'created_at'>;
+
+// Deposit blocked on the customer's card for a car under the given tier
+export const computeDeposit = (carDeposit: number, tier?: InsuranceTier | null): number =>
+  tier ? Math.round(carDeposit * tier.deposit_percent / 100) : carDeposit;
+
+// Tiers ordered from the cheapest (the default cover) to full buy-back
+export const fetchInsuranceTiers = async (): Promise<InsuranceTier[]> => {
+  const { data, error } = await supabase
+    .from('insurance_tiers')
+    .select('*')
+    .order('price_per_day', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveInsuranceTier = async (tier: InsuranceTierInput, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('insurance_tiers').update(tier).eq('id', id)
+    : await supabase.from('insurance_tiers').insert([tier]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de l'assurance: ${error.message}`);
+};
+
+export const deleteInsuranceTier = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('insurance_tiers').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression de l'assurance: ${error.message}`);
+};
@@ -0,0 +1,169 @@
+import { supabase } from './supabaseClient';
+import {
+  ComplianceDocument,
+  ComplianceDocumentKind,
+  MaintenanceKind,
+  SupabaseVehicleUnit,
+  UnitMaintenance,
+} from '../types';
+import { addDays, bookingRange, rangesOverlap } from './availability';
+import { formatDisplayDate } from './dates';
+
+export const MAINTENANCE_KIND_LABELS: Record<MaintenanceKind, string> = {
+  oil_change: 'Vidange',
+  tyres: 'Pneus',
+  brake_pads: 'Plaquettes de frein',
+  other: 'Autre intervention',
+};
+
+export const COMPLIANCE_KIND_LABELS: Record<ComplianceDocumentKind, string> = {
+  insurance: 'Assurance',
+  technical_inspection: 'Visite technique',
+  vignette: 'Vignette',
+  registration: 'Carte grise',
+};
+
+// How far ahead the "due soon" panel looks
+export const DUE_SOON_DAYS = 30;
+export const DUE_SOON_KM = 1000;
+
+export type MaintenanceInput = Omit<UnitMaintenance, 'id' | 'created_at'>;
+export type ComplianceDocumentInput = Omit<ComplianceDocument, 'id' | 'created_at'>;
+
+export interface DueItem {
+  unitId: number;
+  label: string;
+  dueOn?: string;
+  dueMileage?: number;
+  overdue: boolean;
+}
+
+export const fetchMaintenance = async (): Promise<UnitMaintenance[]> => {
+  const { data, error } = await supabase
+    .from('unit_maintenance')
+    .select('*')
+    .order('starts_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// A unit can't go to the garage while it is promised to a customer
+export const saveMaintenance = async (record: MaintenanceInput, id?: number): Promise<void> => {
+  if (record.ends_on < record.starts_on) {
+    throw new Error('La date de remise en service doit suivre la date d\'immobilisation.');
+  }
+
+  if (record.ends_on > record.starts_on) {
+    const { data: conflicts, error: conflictError } = await supabase
+      .from('bookings')
+      .select('pickup_date, dropoff_date')
+      .eq('unit_id', record.unit_id)
+      .in('status', ['confirmed', 'in_progress'])
+      .lt('pickup_date', record.ends_on)
+      .gte('dropoff_date', record.starts_on);
+
+    if (conflictError) throw conflictError;
+    const maintenanceRange = { start: record.starts_on, end: record.ends_on };
+    const conflict = (conflicts || []).find(c => rangesOverlap(maintenanceRange, bookingRange(c.pickup_date, c.dropoff_date)));
+    if (conflict) {
+      throw new Error(
+        `Cette unité est réservée du ${formatDisplayDate(conflict.pickup_date)} au ${formatDisplayDate(conflict.dropoff_date)}. Réattribuez la réservation avant de planifier l'entretien.`
+      );
+    }
+  }
+
+  const { error } = id
+    ? await supabase.from('unit_maintenance').update(record).eq('id', id)
+    : await supabase.from('unit_maintenance').insert([record]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de l'entretien: ${error.message}`);
+};
+
+export const deleteMaintenance = async (id: number): Promise<void> => {
+  const { error } = await supabase
+    .from('unit_maintenance')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw new Error(`Erreur lors de la suppression de l'entretien: ${error.message}`);
+};
+
+export const fetchComplianceDocuments = async (): Promise<ComplianceDocument[]> => {
+  const { data, error } = await supabase
+    .from('unit_compliance_documents')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// One paper of each kind per unit: renewing replaces the previous one
+export const saveComplianceDocument = async (document: ComplianceDocumentInput): Promise<void> => {
+  const { error } = await supabase
+    .from('unit_compliance_documents')
+    .upsert([document], { onConflict: 'unit_id,kind' });
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du document: ${error.message}`);
+};
+
+export const deleteComplianceDocument = async (id: number): Promise<void> => {
+  const { error } = await supabase
+    .from('unit_compliance_documents')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw new Error(`Erreur lors de la suppression du document: ${error.message}`);
+};
+
+// Services and papers due within DUE_SOON_DAYS / DUE_SOON_KM, overdue ones first.
+// Only the latest record of each kind counts: it supersedes older due dates.
+export const getDueItems = (
+  units: SupabaseVehicleUnit[],
+  maintenance: UnitMaintenance[],
+  documents: ComplianceDocument[],
+  today: string,
+): DueItem[] => {
+  const horizon = addDays(today, DUE_SOON_DAYS);
+  const items: DueItem[] = [];
+
+  units.filter(u => u.status !== 'retired').forEach(unit => {
+    const latestByKind = new Map<MaintenanceKind, UnitMaintenance>();
+    maintenance
+      .filter(m => m.unit_id === unit.id)
+      .forEach(m => {
+        const latest = latestByKind.get(m.kind);
+        if (!latest || m.starts_on > latest.starts_on) latestByKind.set(m.kind, m);
+      });
+
+    latestByKind.forEach(record => {
+      const dueByDate = record.next_due_on !== null && record.next_due_on <= horizon;
+      const dueByMileage = record.next_due_mileage !== null && record.next_due_mileage - unit.mileage <= DUE_SOON_KM;
+      if (!dueByDate && !dueByMileage) return;
+      items.push({
+        unitId: unit.id,
+        label: MAINTENANCE_KIND_LABELS[record.kind],
+        dueOn: record.next_due_on ?? undefined,
+        dueMileage: record.next_due_mileage ?? undefined,
+        overdue:
+          (record.next_due_on !== null && record.next_due_on < today) ||
+          (record.next_due_mileage !== null && record.next_due_mileage <= unit.mileage),
+      });
+    });
+
+    documents
+      .filter(d => d.unit_id === unit.id && d.expires_on !== null && d.expires_on <= horizon)
+      .forEach(document => {
+        items.push({
+          unitId: unit.id,
+          label: COMPLIANCE_KIND_LABELS[document.kind],
+          dueOn: document.expires_on!,
+          overdue: document.expires_on! < today,
+        });
+      });
+  });
+
+  return items.sort((a, b) =>
+    Number(b.overdue) - Number(a.overdue) || (a.dueOn || '9999-12-31').localeCompare(b.dueOn || '9999-12-31')
+  );
+};
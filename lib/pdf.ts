@@ -0,0 +1,248 @@
+// Minimal PDF writer for client-side documents (quotes, contracts).
+// Uses the standard Helvetica fonts, so no font file is embedded and the
+// text is limited to the WinAnsi character set, which covers French.
+
+export interface PdfTextOptions {
+  size?: number; // pt
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfJpeg {
+  bytes: Uint8Array;
+  width: number; // px
+  height: number;
+}
+
+export interface PdfShapeOptions {
+  color?: string;
+  fill?: string;
+  width?: number; // pt
+}
+
+// A4, measured in mm from the top-left corner
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+
+const PT_PER_MM = 72 / 25.4;
+
+// Helvetica and Helvetica-Bold advance widths for ASCII 32..126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, 'Œ': 0x8c, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, 'œ': 0x9c,
+};
+
+// Characters outside WinAnsi that commonly show up in our strings
+const REPLACEMENTS: Record<string, string> = {
+  '\u202f': ' ', // narrow no-break space from fr-FR number formatting
+  '−': '-',
+  '→': '->',
+};
+
+const toWinAnsiCodes = (value: string): number[] => {
+  const codes: number[] = [];
+  for (const char of Array.from(value)) {
+    const replaced = REPLACEMENTS[char];
+    if (replaced) {
+      codes.push(...Array.from(replaced).map(c => c.charCodeAt(0)));
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      codes.push(WIN_ANSI_EXTRAS[char]);
+    } else {
+      const code = char.charCodeAt(0);
+      codes.push(code <= 0xff && (code < 0x80 || code >= 0xa0) ? code : 0x3f); // '?'
+    }
+  }
+  return codes;
+};
+
+// PDF literal string, kept ASCII-only with octal escapes
+const toPdfString = (value: string): string =>
+  '(' + toWinAnsiCodes(value).map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return '\\' + String.fromCharCode(code);
+    if (code < 0x20 || code > 0x7e) return '\\' + code.toString(8).padStart(3, '0');
+    return String.fromCharCode(code);
+  }).join('') + ')';
+
+const charWidth = (code: number, bold: boolean): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code <= 126) return widths[code - 32];
+  // Accented letters are as wide as their base letter
+  const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? widths[base - 32] : 556;
+};
+
+const toRgb = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+    .map(c => (c / 255).toFixed(3))
+    .join(' ');
+};
+
+const pt = (mm: number) => (mm * PT_PER_MM).toFixed(2);
+const ptY = (mm: number) => ((PAGE_HEIGHT - mm) * PT_PER_MM).toFixed(2);
+
+// Decode a canvas.toDataURL('image/jpeg') result
+export const jpegFromDataUrl = (dataUrl: string, width: number, height: number): PdfJpeg => {
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, width, height };
+};
+
+export const createPdf = () => {
+  const pages: string[][] = [];
+  const images: PdfJpeg[] = [];
+  let current: string[] = [];
+
+  const addPage = () => {
+    current = [];
+    pages.push(current);
+  };
+  addPage();
+
+  // Width of a string in mm
+  const textWidth = (value: string, size = 10, bold = false): number =>
+    toWinAnsiCodes(value).reduce((sum, code) => sum + charWidth(code, bold), 0) * size / 1000 / PT_PER_MM;
+
+  // y is the text baseline
+  const text = (x: number, y: number, value: string, { size = 10, bold = false, color = '#111827', align = 'left' }: PdfTextOptions = {}) => {
+    const width = textWidth(value, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    current.push(
+      `BT ${toRgb(color)} rg /${bold ? 'F2' : 'F1'} ${size} Tf ${pt(left)} ${ptY(y)} Td ${toPdfString(value)} Tj ET`
+    );
+  };
+
+  const wrapText = (value: string, maxWidth: number, size = 10, bold = false): string[] => {
+    const lines: string[] = [];
+    value.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, { color = '#d1d5db', width = 0.5 }: PdfShapeOptions = {}) => {
+    current.push(`${toRgb(color)} RG ${width} w ${pt(x1)} ${ptY(y1)} m ${pt(x2)} ${ptY(y2)} l S`);
+  };
+
+  const rect = (x: number, y: number, w: number, h: number, { color, fill, width = 0.5 }: PdfShapeOptions = {}) => {
+    const path = `${pt(x)} ${ptY(y + h)} ${pt(w)} ${pt(h)} re`;
+    if (fill && color) current.push(`${toRgb(fill)} rg ${toRgb(color)} RG ${width} w ${path} B`);
+    else if (fill) current.push(`${toRgb(fill)} rg ${path} f`);
+    else current.push(`${toRgb(color || '#d1d5db')} RG ${width} w ${path} S`);
+  };
+
+  // Draw a JPEG stretched to the given box
+  const image = (x: number, y: number, w: number, h: number, jpeg: PdfJpeg) => {
+    images.push(jpeg);
+    current.push(`q ${pt(w)} 0 0 ${pt(h)} ${pt(x)} ${ptY(y + h)} cm /Im${images.length} Do Q`);
+  };
+
+  const toBlob = (): Blob => {
+    // Object bodies; JPEG streams are the only binary parts
+    const objects: (string | [string, Uint8Array])[] = [];
+    const pageIds: number[] = [];
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const imageRefs = images.map((jpeg, idx) => {
+      const id = objects.length;
+      objects[id] = [
+        `<< /Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.bytes.length} >>`,
+        jpeg.bytes,
+      ];
+      return `/Im${idx + 1} ${id} 0 R`;
+    });
+
+    pages.forEach(ops => {
+      const pageId = objects.length;
+      const contentId = pageId + 1;
+      const content = ops.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(PAGE_WIDTH)} ${pt(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${imageRefs.join(' ')} >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      pageIds.push(pageId);
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Text parts are ASCII, so their string length equals their byte length
+    const parts: (string | Uint8Array)[] = [];
+    let size = 0;
+    const write = (part: string | Uint8Array) => {
+      parts.push(part);
+      size += part.length;
+    };
+
+    write('%PDF-1.4\n');
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = size;
+      const body = objects[id];
+      if (typeof body === 'string') {
+        write(`${id} 0 obj\n${body}\nendobj\n`);
+      } else {
+        write(`${id} 0 obj\n${body[0]}\nstream\n`);
+        write(body[1]);
+        write('\nendstream\nendobj\n');
+      }
+    }
+
+    const xrefOffset = size;
+    write(`xref\n0 ${objects.length}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objects.length; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+  };
+
+  return { addPage, text, textWidth, wrapText, line, rect, image, toBlob };
+};
+
+export type PdfWriter = ReturnType<typeof createPdf>;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
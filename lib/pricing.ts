@@ -0,0 +1,249 @@
+import { supabase } from './supabaseClient';
+import { BookingAddon, Car, Coupon, InsuranceTier, PriceLine, PriceQuote, PricingDurationTier, PricingRules, PricingSeason } from '../types';
+import { DateRange, addDays, daysBetween } from './availability';
+import { resolvePromotion } from './promotions';
+import { computeCouponDiscount } from './coupons';
+import { AgencyDateTime, minutesBetween } from './dates';
+
+export type PricedCar = Pick<Car, 'pricePerDay' | 'promotions'>;
+
+export interface QuoteOptions {
+  coupon?: Coupon | null; // must already have been checked for eligibility
+  addons?: BookingAddon[];
+  insurance?: InsuranceTier | null;
+  halfDay?: boolean; // return fell in the half-day grace window
+}
+
+export interface RentalDuration {
+  days: number; // full 24-hour blocks, at least one
+  halfDay: boolean;
+  lateMinutes: number; // past the last full block
+}
+
+export const EMPTY_PRICING_RULES: PricingRules = {
+  seasons: [],
+  durationTiers: [],
+  weekendAdjustmentPercent: 0,
+  graceFreeMinutes: 60,
+  graceHalfDayMinutes: 180,
+};
+
+// Count 24-hour blocks from pickup to return, then apply the grace period to what is left
+export const computeRentalDuration = (
+  pickup: AgencyDateTime,
+  dropoff: AgencyDateTime,
+  rules: Pick<PricingRules, 'graceFreeMinutes' | 'graceHalfDayMinutes'>
+): RentalDuration => {
+  const minutes = Math.max(0, minutesBetween(pickup, dropoff));
+  const fullDays = Math.floor(minutes / (24 * 60));
+  const lateMinutes = minutes % (24 * 60);
+
+  if (fullDays === 0) return { days: 1, halfDay: false, lateMinutes: 0 };
+  if (lateMinutes <= rules.graceFreeMinutes) return { days: fullDays, halfDay: false, lateMinutes };
+  if (lateMinutes <= rules.graceHalfDayMinutes) return { days: fullDays, halfDay: true, lateMinutes };
+  return { days: fullDays + 1, halfDay: false, lateMinutes };
+};
+
+// "1 jour", "3 jours"
+export const formatDays = (days: number) => `${days} jour${days > 1 ? 's' : ''}`;
+
+const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+
+// When several seasons cover the same day, the strongest adjustment wins
+const findSeason = (date: string, seasons: PricingSeason[]): PricingSeason | undefined =>
+  seasons
+    .filter(s => s.start_date <= date && date <= s.end_date)
+    .sort((a, b) => b.adjustment_percent - a.adjustment_percent)[0];
+
+const findDurationTier = (days: number, tiers: PricingDurationTier[]): PricingDurationTier | undefined =>
+  tiers
+    .filter(t => days >= t.min_days)
+    .sort((a, b) => b.min_days - a.min_days)[0];
+
+// Price a rental day by day and return a line-item breakdown.
+// The range covers the billed 24-hour blocks; its end is not charged.
+// A half day from the grace period is charged at half the daily rate.
+// Duration and coupon discounts apply to the rental only, not to add-ons or insurance.
+export const computeQuote = (
+  car: PricedCar,
+  range: DateRange,
+  rules: PricingRules,
+  { coupon, addons = [], insurance, halfDay = false }: QuoteOptions = {}
+): PriceQuote => {
+  const days = Math.max(0, daysBetween(range.start, range.end));
+  // Daily rate before seasonal and duration adjustments
+  const promotion = resolvePromotion(car.promotions, range, car.pricePerDay);
+  const dailyRate = promotion ? promotion.promo_price : car.pricePerDay;
+  const lines: PriceLine[] = [];
+
+  if (days === 0) {
+    return { days, dailyRate, lines, couponDiscount: 0, total: 0 };
+  }
+
+  lines.push({
+    label: promotion ? `Tarif promo — ${promotion.label}` : 'Tarif de base',
+    detail: `${formatDays(days)} × ${dailyRate} MAD`,
+    amount: days * dailyRate,
+  });
+
+  // Accumulate seasonal and weekend surcharges per rule so each gets one line
+  const seasonTotals = new Map<number, { season: PricingSeason; days: number; amount: number }>();
+  let weekendDays = 0;
+  let weekendAmount = 0;
+
+  for (let date = range.start; date < range.end; date = addDays(date, 1)) {
+    const season = findSeason(date, rules.seasons);
+    if (season) {
+      const entry = seasonTotals.get(season.id) || { season, days: 0, amount: 0 };
+      entry.days += 1;
+      entry.amount += dailyRate * season.adjustment_percent / 100;
+      seasonTotals.set(season.id, entry);
+    }
+    if (rules.weekendAdjustmentPercent && isWeekend(date)) {
+      weekendDays += 1;
+      weekendAmount += dailyRate * rules.weekendAdjustmentPercent / 100;
+    }
+  }
+
+  seasonTotals.forEach(({ season, days: seasonDays, amount }) => {
+    const sign = season.adjustment_percent > 0 ? '+' : '';
+    lines.push({
+      label: season.label,
+      detail: `${formatDays(seasonDays)} à ${sign}${season.adjustment_percent}%`,
+      amount: Math.round(amount),
+    });
+  });
+
+  if (weekendDays > 0) {
+    const sign = rules.weekendAdjustmentPercent > 0 ? '+' : '';
+    lines.push({
+      label: 'Week-end',
+      detail: `${formatDays(weekendDays)} à ${sign}${rules.weekendAdjustmentPercent}%`,
+      amount: Math.round(weekendAmount),
+    });
+  }
+
+  if (halfDay) {
+    lines.push({
+      label: 'Demi-journée supplémentaire',
+      detail: `Retour jusqu'à ${Math.round(rules.graceHalfDayMinutes / 60)}h après l'heure de départ`,
+      amount: Math.round(dailyRate / 2),
+    });
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  const tier = findDurationTier(days, rules.durationTiers);
+  if (tier && tier.discount_percent > 0) {
+    lines.push({
+      label: 'Remise longue durée',
+      detail: `${tier.min_days}+ jours : -${tier.discount_percent}%`,
+      amount: -Math.round(subtotal * tier.discount_percent / 100),
+    });
+  }
+
+  let couponDiscount = 0;
+  if (coupon) {
+    couponDiscount = computeCouponDiscount(coupon, lines.reduce((sum, line) => sum + line.amount, 0));
+    lines.push({
+      label: `Code promo ${coupon.code}`,
+      detail: coupon.discount_type === 'percent' ? `-${coupon.discount_value}%` : undefined,
+      amount: -couponDiscount,
+    });
+  }
+
+  if (insurance && insurance.price_per_day > 0) {
+    lines.push({
+      label: `Assurance ${insurance.name}`,
+      detail: `${insurance.price_per_day} MAD/jour`,
+      amount: Math.round(insurance.price_per_day * (halfDay ? days + 0.5 : days)),
+    });
+  }
+
+  addons.forEach(addon => {
+    lines.push({
+      label: addon.quantity > 1 ? `${addon.name} × ${addon.quantity}` : addon.name,
+      detail: addon.pricing_type === 'per_day' ? `${addon.unit_price} MAD/jour` : 'Forfait',
+      amount: addon.amount,
+    });
+  });
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  return { days, dailyRate, lines, couponDiscount, total };
+};
+
+export const fetchPricingRules = async (): Promise<PricingRules> => {
+  const [seasons, tiers, settings] = await Promise.all([
+    supabase.from('pricing_seasons').select('*').order('start_date', { ascending: true }),
+    supabase.from('pricing_duration_tiers').select('*').order('min_days', { ascending: true }),
+    supabase
+      .from('pricing_settings')
+      .select('weekend_adjustment_percent, grace_free_minutes, grace_half_day_minutes')
+      .eq('id', 1)
+      .maybeSingle(),
+  ]);
+
+  if (seasons.error) throw seasons.error;
+  if (tiers.error) throw tiers.error;
+  if (settings.error) throw settings.error;
+
+  return {
+    seasons: seasons.data || [],
+    durationTiers: tiers.data || [],
+    weekendAdjustmentPercent: Number(settings.data?.weekend_adjustment_percent || 0),
+    graceFreeMinutes: settings.data?.grace_free_minutes ?? EMPTY_PRICING_RULES.graceFreeMinutes,
+    graceHalfDayMinutes: settings.data?.grace_half_day_minutes ?? EMPTY_PRICING_RULES.graceHalfDayMinutes,
+  };
+};
+
+export const saveSeason = async (season: Omit<PricingSeason, 'id'>, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('pricing_seasons').update(season).eq('id', id)
+    : await supabase.from('pricing_seasons').insert([season]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de la saison: ${error.message}`);
+};
+
+export const deleteSeason = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('pricing_seasons').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression de la saison: ${error.message}`);
+};
+
+export const saveDurationTier = async (tier: Omit<PricingDurationTier, 'id'>, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('pricing_duration_tiers').update(tier).eq('id', id)
+    : await supabase.from('pricing_duration_tiers').insert([tier]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du palier: ${error.message}`);
+};
+
+export const deleteDurationTier = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('pricing_duration_tiers').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression du palier: ${error.message}`);
+};
+
+export const saveWeekendAdjustment = async (percent: number): Promise<void> => {
+  const { error } = await supabase
+    .from('pricing_settings')
+    .update({ weekend_adjustment_percent: percent })
+    .eq('id', 1);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du tarif week-end: ${error.message}`);
+};
+
+export const saveGracePeriod = async (freeMinutes: number, halfDayMinutes: number): Promise<void> => {
+  if (halfDayMinutes < freeMinutes) {
+    throw new Error('Le délai demi-journée doit être supérieur au délai gratuit');
+  }
+
+  const { error } = await supabase
+    .from('pricing_settings')
+    .update({ grace_free_minutes: freeMinutes, grace_half_day_minutes: halfDayMinutes })
+    .eq('id', 1);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du délai de grâce: ${error.message}`);
+};
@@ -0,0 +1,51 @@
+import { supabase } from './supabaseClient';
+import { Promotion } from '../types';
+import { DateRange, daysBetween } from './availability';
+
+export type PromotionInput = Omit<Promotion, 'id' | 'created_at'>;
+
+// A promotion applies when the rental starts inside its window and lasts long enough.
+// When several apply, the customer gets the lowest price.
+export const resolvePromotion = (
+  promotions: Promotion[],
+  range: DateRange,
+  pricePerDay?: number
+): Promotion | undefined => {
+  const days = daysBetween(range.start, range.end);
+  return promotions
+    .filter(p =>
+      p.starts_on <= range.start &&
+      (!p.ends_on || range.start <= p.ends_on) &&
+      (!p.min_days || days >= p.min_days) &&
+      (pricePerDay === undefined || p.promo_price < pricePerDay)
+    )
+    .sort((a, b) => a.promo_price - b.promo_price)[0];
+};
+
+export const fetchPromotions = async (carId?: number): Promise<Promotion[]> => {
+  let query = supabase
+    .from('promotions')
+    .select('*')
+    .order('starts_on', { ascending: true });
+
+  if (carId !== undefined) {
+    query = query.eq('car_id', carId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const savePromotion = async (promotion: PromotionInput, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('promotions').update(promotion).eq('id', id)
+    : await supabase.from('promotions').insert([promotion]);
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement de la promotion: ${error.message}`);
+};
+
+export const deletePromotion = async (id: number): Promise<void> => {
+  const { error } = await supabase.from('promotions').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression de la promotion: ${error.message}`);
+};
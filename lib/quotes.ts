@@ -0,0 +1,165 @@
+import { BookingRequest, PriceLine } from '../types';
+import { createPdf, downloadBlob, PAGE_WIDTH } from './pdf';
+import { addDays } from './availability';
+import { formatDisplayDate, getAgencyToday } from './dates';
+
+export const QUOTE_VALIDITY_DAYS = 7;
+
+export const AGENCY_DETAILS = {
+  name: 'Trevi Car Rental',
+  address: 'Angle Boulevard Zerktouni et Rue Anfa, Casablanca, Maroc',
+  phone: '+212 6 16 92 55 72',
+  email: 'Trevirentcar@gmail.com',
+};
+
+export const BRAND_COLOR = '#d97706'; // gold-600
+
+export interface QuoteDocument {
+  number: string;
+  issuedOn: string; // YYYY-MM-DD
+  customerName?: string;
+  customerPhone?: string;
+  carName: string;
+  carCategory?: string;
+  pickupDate: string;
+  pickupTime?: string;
+  dropoffDate: string;
+  returnTime?: string;
+  city: string;
+  insuranceName?: string;
+  lines: PriceLine[];
+  total: number;
+  deposit?: number;
+}
+
+const formatAmount = (amount: number) => `${amount.toLocaleString('fr-FR')} MAD`;
+
+// Quotes for stored bookings reuse the booking reference so they can be matched later
+export const getQuoteNumber = (bookingId?: string): string => {
+  const reference = bookingId
+    ? bookingId.slice(0, 8).toUpperCase()
+    : Math.random().toString(36).substring(2, 10).toUpperCase();
+  return `DEV-${getAgencyToday().replace(/-/g, '')}-${reference}`;
+};
+
+// A quote is valid for a week, and never past the pickup date
+export const getQuoteValidUntil = (quote: Pick<QuoteDocument, 'issuedOn' | 'pickupDate'>): string => {
+  const validUntil = addDays(quote.issuedOn, QUOTE_VALIDITY_DAYS);
+  return quote.pickupDate < validUntil ? quote.pickupDate : validUntil;
+};
+
+export const buildQuoteFromBooking = (booking: BookingRequest, carName: string, carCategory?: string): QuoteDocument => ({
+  number: getQuoteNumber(booking.id),
+  issuedOn: getAgencyToday(),
+  customerName: booking.fullName,
+  customerPhone: booking.phone,
+  carName,
+  carCategory,
+  pickupDate: booking.pickupDate,
+  pickupTime: booking.pickupTime,
+  dropoffDate: booking.dropoffDate,
+  returnTime: booking.returnTime,
+  city: booking.city,
+  insuranceName: booking.insuranceName,
+  // Bookings saved before the breakdown was stored only have their total
+  lines: booking.priceLines?.length ? booking.priceLines : [{ label: 'Location', amount: booking.totalPrice }],
+  total: booking.totalPrice,
+  deposit: booking.depositAmount,
+});
+
+export const buildQuotePdf = (quote: QuoteDocument): Blob => {
+  const pdf = createPdf();
+  const margin = 18;
+  const right = PAGE_WIDTH - margin;
+  let y = 24;
+
+  // Header
+  pdf.text(margin, y, AGENCY_DETAILS.name.toUpperCase(), { size: 20, bold: true, color: BRAND_COLOR });
+  pdf.text(right, y, 'DEVIS', { size: 20, bold: true, align: 'right' });
+  y += 6;
+  pdf.text(margin, y, AGENCY_DETAILS.address, { size: 9, color: '#6b7280' });
+  pdf.text(right, y, `N° ${quote.number}`, { size: 9, align: 'right' });
+  y += 4.5;
+  pdf.text(margin, y, `${AGENCY_DETAILS.phone} · ${AGENCY_DETAILS.email}`, { size: 9, color: '#6b7280' });
+  pdf.text(right, y, `Émis le ${formatDisplayDate(quote.issuedOn)}`, { size: 9, align: 'right' });
+  y += 4.5;
+  pdf.text(right, y, `Valable jusqu'au ${formatDisplayDate(getQuoteValidUntil(quote))}`, { size: 9, bold: true, align: 'right' });
+  y += 6;
+  pdf.line(margin, y, right, y, { color: BRAND_COLOR, width: 1.5 });
+  y += 10;
+
+  // Customer and rental details
+  const column = margin + (right - margin) / 2;
+  pdf.text(margin, y, 'CLIENT', { size: 8, bold: true, color: '#6b7280' });
+  pdf.text(column, y, 'LOCATION', { size: 8, bold: true, color: '#6b7280' });
+  y += 6;
+  const customerRows = [quote.customerName || '—', quote.customerPhone || ''].filter(Boolean);
+  const rentalRows = [
+    `${quote.carName}${quote.carCategory ? ` (${quote.carCategory})` : ''}`,
+    `Départ : ${formatDisplayDate(quote.pickupDate)}${quote.pickupTime ? ` à ${quote.pickupTime}` : ''}`,
+    `Retour : ${formatDisplayDate(quote.dropoffDate)}${quote.returnTime ? ` à ${quote.returnTime}` : ''}`,
+    `Livraison : ${quote.city}`,
+    ...(quote.insuranceName ? [`Assurance : ${quote.insuranceName}`] : []),
+  ];
+  customerRows.forEach((row, idx) => pdf.text(margin, y + idx * 5, row, { size: 10, bold: idx === 0 }));
+  rentalRows.forEach((row, idx) => pdf.text(column, y + idx * 5, row, { size: 10, bold: idx === 0 }));
+  y += Math.max(customerRows.length, rentalRows.length) * 5 + 8;
+
+  // Price breakdown
+  pdf.rect(margin, y - 5, right - margin, 8, { fill: '#f3f4f6' });
+  pdf.text(margin + 3, y, 'Désignation', { size: 9, bold: true });
+  pdf.text(right - 3, y, 'Montant', { size: 9, bold: true, align: 'right' });
+  y += 9;
+
+  quote.lines.forEach(line => {
+    pdf.text(margin + 3, y, line.label, { size: 10 });
+    pdf.text(right - 3, y, `${line.amount < 0 ? '-' : ''}${formatAmount(Math.abs(line.amount))}`, {
+      size: 10,
+      align: 'right',
+      color: line.amount < 0 ? '#16a34a' : '#111827',
+    });
+    if (line.detail) {
+      y += 4.5;
+      pdf.text(margin + 3, y, line.detail, { size: 8, color: '#6b7280' });
+    }
+    y += 3;
+    pdf.line(margin, y, right, y, { color: '#e5e7eb' });
+    y += 5.5;
+  });
+
+  y += 2;
+  pdf.text(right - 60, y, 'TOTAL TTC', { size: 12, bold: true });
+  pdf.text(right - 3, y, formatAmount(quote.total), { size: 12, bold: true, align: 'right', color: BRAND_COLOR });
+  if (quote.deposit !== undefined) {
+    y += 7;
+    pdf.text(right - 60, y, 'Caution (non débitée)', { size: 10 });
+    pdf.text(right - 3, y, formatAmount(quote.deposit), { size: 10, align: 'right' });
+  }
+  y += 16;
+
+  // Terms
+  const terms = [
+    `Ce devis est valable jusqu'au ${formatDisplayDate(getQuoteValidUntil(quote))}, sous réserve de disponibilité du véhicule au moment de la confirmation.`,
+    'Paiement à la livraison. La caution fait l\'objet d\'une pré-autorisation sur carte bancaire ou d\'un dépôt en espèces, restitué au retour du véhicule.',
+    'Conducteur : permis et pièce d\'identité en cours de validité à présenter à la remise du véhicule.',
+  ];
+  terms.forEach(term => {
+    pdf.wrapText(term, right - margin, 8.5).forEach(row => {
+      pdf.text(margin, y, row, { size: 8.5, color: '#4b5563' });
+      y += 4.2;
+    });
+    y += 1.5;
+  });
+
+  pdf.text(PAGE_WIDTH / 2, 285, `${AGENCY_DETAILS.name} · ${AGENCY_DETAILS.phone} · ${AGENCY_DETAILS.email}`, {
+    size: 8,
+    color: '#9ca3af',
+    align: 'center',
+  });
+
+  return pdf.toBlob();
+};
+
+export const downloadQuote = (quote: QuoteDocument) => {
+  downloadBlob(buildQuotePdf(quote), `${quote.number}.pdf`);
+};
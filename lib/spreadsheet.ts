@@ -0,0 +1,293 @@
+// Minimal CSV and XLSX reading/writing for the Dashboard imports and exports.
+// Only the first sheet and plain cell values are handled: no formulas, styles
+// or dates. XLSX files are ZIP archives; entries are inflated with the
+// browser's DecompressionStream and written back uncompressed.
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// --- CSV ---
+
+// Excel in French locales saves with ";", most other tools with ","
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const [best] = [';', ',', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const formatCsvCell = (value: SpreadsheetCell, delimiter: string): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon-separated with a BOM so Excel opens accents and columns correctly
+export const toCsv = (rows: SpreadsheetCell[][]): Blob => {
+  const delimiter = ';';
+  const text = rows.map(row => row.map(value => formatCsvCell(value, delimiter)).join(delimiter)).join('\r\n');
+  return new Blob(['\uFEFF', text], { type: 'text/csv;charset=utf-8' });
+};
+
+// --- ZIP ---
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Fichier Excel illisible (archive invalide).');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Uncompressed ("stored") archive, which every spreadsheet application reads
+const writeZip = (files: { name: string; content: string }[]): Uint8Array[] => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(12, 33, true); // 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, 33, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return [...parts, ...central, new Uint8Array(end.buffer)];
+};
+
+// --- XLSX ---
+
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (bytes: Uint8Array | undefined): Document | null =>
+  bytes ? new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml') : null;
+
+const elements = (parent: Document | Element, tag: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// "AB12" -> 27
+const columnIndex = (reference: string): number =>
+  (reference.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(buffer);
+
+  // The first sheet listed in the workbook, wherever the file stores it
+  const workbook = parseXml(entries.get('xl/workbook.xml'));
+  const rels = parseXml(entries.get('xl/_rels/workbook.xml.rels'));
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationId = firstSheet?.getAttributeNS(REL_NS, 'id');
+  const target = rels && elements(rels, 'Relationship').find(r => r.getAttribute('Id') === relationId)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.substring(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+  const sheet = parseXml(entries.get(sheetPath));
+  if (!sheet) throw new Error('Fichier Excel illisible (feuille introuvable).');
+
+  const sharedStrings = parseXml(entries.get('xl/sharedStrings.xml'));
+  const strings = sharedStrings
+    ? elements(sharedStrings, 'si').map(si => elements(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach(rowElement => {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach(cell => {
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? '';
+      const value =
+        type === 's' ? strings[Number(raw)] ?? '' :
+        type === 'inlineStr' ? elements(cell, 't').map(t => t.textContent || '').join('') :
+        type === 'b' ? (raw === '1' ? 'true' : 'false') :
+        raw;
+      row[columnIndex(cell.getAttribute('r') || columnName(row.length))] = value;
+    });
+    rows.push(Array.from(row, value => value ?? ''));
+  });
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const toXlsx = (rows: SpreadsheetCell[][], sheetName = 'Feuille1'): Blob => {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const reference = `${columnName(c)}${r + 1}`;
+      if (value === null || value === undefined || value === '') return '';
+      if (typeof value === 'number') return `<c r="${reference}"><v>${value}</v></c>`;
+      if (typeof value === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const parts = writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}">` +
+        `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="${SHEET_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+    },
+  ]);
+
+  return new Blob(parts as BlobPart[], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Rows of a picked .csv or .xlsx file, header row included
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  throw new Error('Format non pris en charge. Utilisez un fichier .csv ou .xlsx.');
+};
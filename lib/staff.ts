@@ -0,0 +1,80 @@
+import { supabase } from './supabaseClient';
+import { Permission, StaffMember, StaffProfile, StaffRole, StaffRoleDefinition } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'bookings.manage': 'Réservations et clients',
+  'deliveries.view': 'Livraisons attribuées',
+  'fleet.manage': 'Véhicules et entretien',
+  'pricing.manage': 'Tarifs, promotions et options',
+  'staff.manage': "Gestion de l'équipe",
+};
+
+export type StaffMemberInput = Omit<StaffMember, 'created_at'>;
+
+// Staff row and permissions of the signed-in user, or null for anyone else.
+// Access is decided by the database roles, never by comparing emails here.
+export const fetchCurrentStaff = async (): Promise<StaffProfile | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user?.email) return null;
+
+  const { data, error } = await supabase
+    .from('staff_members')
+    .select('*, staff_roles(permissions)')
+    .eq('email', user.email.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const { staff_roles, ...member } = data;
+  return { ...member, permissions: staff_roles?.permissions || [] };
+};
+
+export const hasPermission = (staff: StaffProfile | null, permission: Permission): boolean =>
+  !!staff && staff.permissions.includes(permission);
+
+export const fetchStaffRoles = async (): Promise<StaffRoleDefinition[]> => {
+  const { data, error } = await supabase
+    .from('staff_roles')
+    .select('*');
+
+  if (error) throw error;
+  const order: StaffRole[] = ['owner', 'manager', 'agent', 'driver'];
+  return (data || []).sort((a: StaffRoleDefinition, b: StaffRoleDefinition) => order.indexOf(a.role) - order.indexOf(b.role));
+};
+
+export const fetchStaffMembers = async (): Promise<StaffMember[]> => {
+  const { data, error } = await supabase
+    .from('staff_members')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveStaffMember = async (member: StaffMemberInput): Promise<void> => {
+  const { error } = await supabase
+    .from('staff_members')
+    .upsert([{ ...member, email: member.email.trim().toLowerCase() }], { onConflict: 'email' });
+
+  if (error) throw new Error(`Erreur lors de l'enregistrement du membre: ${error.message}`);
+};
+
+export const deleteStaffMember = async (email: string): Promise<void> => {
+  const { error } = await supabase
+    .from('staff_members')
+    .delete()
+    .eq('email', email);
+
+  if (error) throw new Error(`Erreur lors de la suppression du membre: ${error.message}`);
+};
+
+export const assignDeliveryDriver = async (bookingId: string, driverEmail: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('bookings')
+    .update({ delivery_driver_email: driverEmail })
+    .eq('id', bookingId);
+
+  if (error) throw new Error(`Erreur lors de l'attribution du livreur: ${error.message}`);
+};
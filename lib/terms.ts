@@ -0,0 +1,48 @@
+// Clauses of the Conditions Générales de Vente, shared by the public page and the rental contract.
+
+export interface TermsClause {
+  title: string;
+  paragraphs: string[];
+  items?: string[]; // bullet list shown after the first paragraph
+}
+
+export const TERMS_UPDATED_ON = '19 mai 2026';
+
+export const TERMS_CLAUSES: TermsClause[] = [
+  {
+    title: '1. Objet du Contrat',
+    paragraphs: [
+      "Les présentes Conditions Générales régissent la location de véhicules proposée par l'agence Trevi Car Rental à Casablanca, Maroc. En soumettant une demande de réservation sur notre site web, vous acceptez pleinement ces conditions de location.",
+    ],
+  },
+  {
+    title: "2. Conditions d'Éligibilité du Conducteur",
+    paragraphs: [
+      'Pour pouvoir louer un véhicule chez Trevi Car Rental, le conducteur principal ainsi que tout conducteur additionnel doivent remplir les critères obligatoires suivants :',
+    ],
+    items: [
+      'Avoir un âge minimum de 21 ans (certains véhicules de gamme supérieure peuvent requérir 23 ou 25 ans).',
+      "Être titulaire d'un permis de conduire valide depuis au moins 2 ans.",
+      "Présenter une pièce d'identité originale en cours de validité (carte d'identité nationale pour les résidents, passeport pour les non-résidents).",
+    ],
+  },
+  {
+    title: '3. Réservation et Tarifs',
+    paragraphs: [
+      'Les tarifs de location sont indiqués en Dirham Marocain (MAD) par jour (tranche de 24h). Notre site web calcule des estimations en fonction des dates sélectionnées et des tarifs de base ou promotionnels en cours.',
+      "Toute demande effectuée en ligne constitue une pré-réservation qui sera confirmée de manière définitive par nos conseillers par téléphone ou via WhatsApp. Le paiement s'effectue généralement lors de la livraison et de la remise des clés du véhicule.",
+    ],
+  },
+  {
+    title: '4. Utilisation du Véhicule et Carburant',
+    paragraphs: [
+      "Le locataire s'engage à utiliser le véhicule loué de manière prudente, responsable et conforme au code de la route marocain. Le véhicule doit être restitué dans le même état qu'à la livraison, avec le même niveau de carburant qu'au départ. Tout dommage résultant d'une négligence manifeste ou d'une conduite hors route non autorisée sera à la charge exclusive du locataire.",
+    ],
+  },
+  {
+    title: '5. Assurances et Franchise',
+    paragraphs: [
+      "Tous nos véhicules font l'objet d'une assurance tout risque assortie d'une franchise de minimum 5% de la valeur du préjudice en cas d'accident responsable. En cas de vol ou de sinistre, le locataire est tenu de fournir un rapport de police ou un constat à l'amiable dûment complété dans les 24 heures sous peine de déchéance des garanties d'assurance.",
+    ],
+  },
+];
@@ -0,0 +1,84 @@
+import { supabase } from './supabaseClient';
+import { SupabaseVehicleUnit, UnitCounts, VehicleUnitStatus } from '../types';
+
+export const UNIT_STATUS_LABELS: Record<VehicleUnitStatus, string> = {
+  active: 'En service',
+  maintenance: 'En maintenance',
+  retired: 'Retiré',
+};
+
+export type VehicleUnitInput = Omit<SupabaseVehicleUnit, 'id' | 'created_at'>;
+
+export const fetchVehicleUnits = async (carId?: number): Promise<SupabaseVehicleUnit[]> => {
+  let query = supabase
+    .from('vehicle_units')
+    .select('*')
+    .order('plate_number', { ascending: true });
+
+  if (carId !== undefined) {
+    query = query.eq('car_id', carId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+const NO_UNITS: UnitCounts = { active: 0, registered: 0 };
+
+// Units in service and registered per car id, readable by visitors
+export const fetchUnitCounts = async (): Promise<Record<string, UnitCounts>> => {
+  const { data, error } = await supabase
+    .from('car_unit_counts')
+    .select('car_id, unit_count, registered_count');
+
+  if (error) throw error;
+
+  const counts: Record<string, UnitCounts> = {};
+  (data || []).forEach((row: { car_id: number; unit_count: number; registered_count: number }) => {
+    counts[row.car_id.toString()] = { active: row.unit_count, registered: row.registered_count };
+  });
+  return counts;
+};
+
+// Catalogue entries without any registered unit are rented as a single vehicle;
+// once units exist, only those in service can be booked.
+export const getRentableUnitCount = ({ active, registered }: UnitCounts = NO_UNITS): number =>
+  registered > 0 ? active : 1;
+
+export const saveVehicleUnit = async (unit: VehicleUnitInput, id?: number): Promise<void> => {
+  const { error } = id
+    ? await supabase.from('vehicle_units').update(unit).eq('id', id)
+    : await supabase.from('vehicle_units').insert([unit]);
+
+  if (error) {
+    if (error.message.includes('duplicate') || error.message.includes('unique')) {
+      throw new Error(`La plaque ${unit.plate_number} est déjà enregistrée.`);
+    }
+    throw new Error(`Erreur lors de l'enregistrement de l'unité: ${error.message}`);
+  }
+};
+
+export const deleteVehicleUnit = async (id: number): Promise<void> => {
+  const { error } = await supabase
+    .from('vehicle_units')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Erreur lors de la suppression de l'unité: ${error.message}`);
+  }
+};
+
+// Record a new odometer reading; never lowers the stored mileage
+export const updateUnitMileage = async (id: number, mileage: number): Promise<void> => {
+  const { error } = await supabase
+    .from('vehicle_units')
+    .update({ mileage })
+    .eq('id', id)
+    .lt('mileage', mileage);
+
+  if (error) {
+    throw new Error(`Erreur lors de la mise à jour du kilométrage: ${error.message}`);
+  }
+};
@@ -0,0 +1,32 @@
+// Deletes customer documents past their retention date, plus files left in the
+// bucket without a row (deleted bookings, uploads whose row was never saved).
+// Runs daily from pg_cron, see 20261018102000_create_booking_documents.sql.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const DOCUMENTS_BUCKET = 'customer-documents';
+const BATCH_SIZE = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async () => {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data, error } = await supabase.rpc('customer_documents_to_purge');
+  if (error) return json({ error: error.message }, 500);
+
+  const paths = (data || []).map((row: { storage_path: string }) => row.storage_path);
+
+  for (let i = 0; i < paths.length; i += BATCH_SIZE) {
+    const batch = paths.slice(i, i + BATCH_SIZE);
+
+    // Files first: a row without its file is harmless, a file without its row is what we are cleaning up
+    const { error: removeError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(batch);
+    if (removeError) return json({ error: removeError.message, purged: i }, 500);
+
+    const { error: deleteError } = await supabase.from('booking_documents').delete().in('storage_path', batch);
+    if (deleteError) return json({ error: deleteError.message, purged: i }, 500);
+  }
+
+  return json({ purged: paths.length });
+});
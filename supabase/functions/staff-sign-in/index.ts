@@ -0,0 +1,51 @@
+// Staff sign-in with failed attempts spaced out per email and client address,
+// so someone guessing from elsewhere cannot keep the owner out. Refusals read
+// the same whether or not the email has an account.
+// See 20261018110000_create_login_attempts.sql.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const INVALID_CREDENTIALS = 'Email ou mot de passe incorrect.';
+const TOO_MANY_ATTEMPTS = 'Trop de tentatives échouées.';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+  const { email, password } = await req.json().catch(() => ({}));
+  if (typeof email !== 'string' || typeof password !== 'string') return json({ error: INVALID_CREDENTIALS }, 400);
+
+  const normalizedEmail = email.trim().toLowerCase();
+  // First hop of the proxy chain is the browser
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || '0.0.0.0';
+  const attempt = { p_email: normalizedEmail, p_ip: ip };
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: delay, error } = await admin.rpc('get_login_delay', attempt);
+  if (error) return json({ error: error.message }, 500);
+  if (delay > 0) return json({ error: TOO_MANY_ATTEMPTS, retryAfter: delay }, 429);
+
+  // Forward the address so Auth's own per-address rate limit applies to the browser, not to this function
+  const auth = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false },
+    global: { headers: { 'X-Forwarded-For': ip } },
+  });
+
+  const { data, error: signInError } = await auth.auth.signInWithPassword({ email: normalizedEmail, password });
+  if (signInError || !data.session) {
+    const { data: retryAfter, error: recordError } = await admin.rpc('record_login_failure', attempt);
+    if (recordError) return json({ error: recordError.message }, 500);
+    return json({ error: INVALID_CREDENTIALS, retryAfter }, 401);
+  }
+
+  await admin.from('login_attempts').delete().eq('email', normalizedEmail).eq('ip_address', ip);
+
+  return json({ session: { access_token: data.session.access_token, refresh_token: data.session.refresh_token } });
+});
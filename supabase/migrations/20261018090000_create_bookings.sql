@@ -0,0 +1,54 @@
+-- Booking requests submitted from the public BookingForm.
+-- Rows are written before the WhatsApp handoff so no request is ever lost.
+
+create table if not exists public.bookings (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  full_name text not null,
+  phone text not null,
+  car_id bigint references public.cars (id) on delete set null,
+  pickup_date date not null,
+  dropoff_date date not null,
+  delivery_city text not null,
+  total_price integer not null default 0,
+  status text not null default 'pending'
+    check (status in ('pending', 'confirmed', 'in_progress', 'returned', 'cancelled')),
+  constraint bookings_dates_check check (dropoff_date > pickup_date)
+);
+
+create index if not exists bookings_car_dates_idx on public.bookings (car_id, pickup_date, dropoff_date);
+
+alter table public.bookings enable row level security;
+
+-- Visitors may only create pending requests; they can never read them back.
+create policy "Anyone can submit a booking request"
+  on public.bookings for insert
+  to anon, authenticated
+  with check (status = 'pending');
+
+create policy "Staff can read booking requests"
+  on public.bookings for select
+  to authenticated
+  using (true);
+
+create policy "Staff can update booking requests"
+  on public.bookings for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- The submission time is the server's: upload windows and read-backs for
+-- visitors are measured from it, so the client must not be able to set it.
+create or replace function public.set_booking_created_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+create trigger bookings_set_created_at
+  before insert on public.bookings
+  for each row execute function public.set_booking_created_at();
@@ -0,0 +1,7 @@
+-- Staff actions on booking requests from the Dashboard reservations tab.
+
+alter table public.bookings
+  add column if not exists cancellation_reason text,
+  add column if not exists status_updated_at timestamptz;
+
+create index if not exists bookings_status_idx on public.bookings (status, pickup_date);
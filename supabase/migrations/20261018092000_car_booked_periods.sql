@@ -0,0 +1,11 @@
+-- Public, PII-free view of the periods during which each car is reserved.
+-- BookingForm reads it to detect overlapping requests; the view runs with its
+-- owner's rights so visitors never need read access to the bookings table.
+
+create or replace view public.car_booked_periods as
+  select car_id, pickup_date, dropoff_date
+  from public.bookings
+  where status in ('confirmed', 'in_progress')
+    and car_id is not null;
+
+grant select on public.car_booked_periods to anon, authenticated;
@@ -0,0 +1,103 @@
+-- Physical vehicles (plates) behind each catalogue model in `cars`.
+
+create table if not exists public.vehicle_units (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  car_id bigint not null references public.cars (id) on delete cascade,
+  plate_number text not null unique,
+  year integer,
+  mileage integer not null default 0,
+  status text not null default 'active'
+    check (status in ('active', 'maintenance', 'retired'))
+);
+
+create index if not exists vehicle_units_car_idx on public.vehicle_units (car_id);
+
+alter table public.vehicle_units enable row level security;
+
+create policy "Staff can manage vehicle units"
+  on public.vehicle_units for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Plates stay private; visitors only see how many units each model has in service
+-- and how many are registered at all (a model with none is rented as a single car).
+create or replace view public.car_unit_counts as
+  select
+    car_id,
+    (count(*) filter (where status = 'active'))::integer as unit_count,
+    count(*)::integer as registered_count
+  from public.vehicle_units
+  group by car_id;
+
+grant select on public.car_unit_counts to anon, authenticated;
+
+-- Confirmed bookings are assigned to a specific unit.
+alter table public.bookings
+  add column if not exists unit_id bigint references public.vehicle_units (id) on delete set null;
+
+create or replace view public.car_booked_periods as
+  select car_id, pickup_date, dropoff_date, unit_id
+  from public.bookings
+  where status in ('confirmed', 'in_progress')
+    and car_id is not null;
+
+-- Confirming a booking takes a free unit over its dates, as the Dashboard checks,
+-- but enforced here so two staff confirming at once or a direct API call cannot
+-- double-book. Locking the car row makes concurrent confirmations wait their turn.
+-- Same-day rentals occupy their pickup day.
+create or replace function public.check_booking_confirmation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_range daterange := daterange(new.pickup_date, greatest(new.dropoff_date, new.pickup_date + 1));
+  rentable integer;
+  booked integer;
+begin
+  perform 1 from public.cars where id = new.car_id for update;
+
+  if new.unit_id is not null and exists (
+    select 1 from public.bookings b
+    where b.id <> new.id
+      and b.unit_id = new.unit_id
+      and b.status in ('confirmed', 'in_progress')
+      and daterange(b.pickup_date, greatest(b.dropoff_date, b.pickup_date + 1)) && new_range
+  ) then
+    raise exception 'Cette unité est déjà attribuée à une autre réservation sur ces dates.'
+      using errcode = 'exclusion_violation';
+  end if;
+
+  -- A model without registered units is rented as a single car
+  select case when count(*) > 0 then count(*) filter (where status = 'active') else 1 end
+  into rentable
+  from public.vehicle_units
+  where car_id = new.car_id;
+
+  -- Each assigned unit counts once, bookings without a unit count as one each
+  select count(distinct b.unit_id) + count(*) filter (where b.unit_id is null)
+  into booked
+  from public.bookings b
+  where b.id <> new.id
+    and b.car_id = new.car_id
+    and b.status in ('confirmed', 'in_progress')
+    and daterange(b.pickup_date, greatest(b.dropoff_date, b.pickup_date + 1)) && new_range;
+
+  if booked >= rentable then
+    raise exception 'Ce véhicule n''a plus d''unité libre sur ces dates.'
+      using errcode = 'exclusion_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_check_confirmation on public.bookings;
+create trigger bookings_check_confirmation
+  before update of status, unit_id, pickup_date, dropoff_date on public.bookings
+  for each row
+  when (new.status = 'confirmed' and new.car_id is not null)
+  execute function public.check_booking_confirmation();
@@ -0,0 +1,42 @@
+-- Tariff rules read by the pricing engine (lib/pricing.ts) and edited from the Dashboard.
+
+create table if not exists public.pricing_seasons (
+  id bigint generated by default as identity primary key,
+  label text not null,
+  start_date date not null,
+  end_date date not null,
+  adjustment_percent numeric not null,
+  constraint pricing_seasons_dates_check check (end_date >= start_date)
+);
+
+create table if not exists public.pricing_duration_tiers (
+  id bigint generated by default as identity primary key,
+  min_days integer not null unique check (min_days > 1),
+  discount_percent numeric not null check (discount_percent between 0 and 100)
+);
+
+-- Single-row settings table
+create table if not exists public.pricing_settings (
+  id integer primary key default 1 check (id = 1),
+  weekend_adjustment_percent numeric not null default 0
+);
+
+insert into public.pricing_settings (id) values (1) on conflict (id) do nothing;
+
+insert into public.pricing_duration_tiers (min_days, discount_percent) values
+  (7, 10),
+  (30, 25)
+on conflict (min_days) do nothing;
+
+alter table public.pricing_seasons enable row level security;
+alter table public.pricing_duration_tiers enable row level security;
+alter table public.pricing_settings enable row level security;
+
+create policy "Anyone can read seasons" on public.pricing_seasons for select to anon, authenticated using (true);
+create policy "Staff can manage seasons" on public.pricing_seasons for all to authenticated using (true) with check (true);
+
+create policy "Anyone can read duration tiers" on public.pricing_duration_tiers for select to anon, authenticated using (true);
+create policy "Staff can manage duration tiers" on public.pricing_duration_tiers for all to authenticated using (true) with check (true);
+
+create policy "Anyone can read pricing settings" on public.pricing_settings for select to anon, authenticated using (true);
+create policy "Staff can update pricing settings" on public.pricing_settings for update to authenticated using (true) with check (true);
@@ -0,0 +1,36 @@
+-- Promotions with a validity window, replacing the bare cars.promo_price column.
+
+create table if not exists public.promotions (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  car_id bigint not null references public.cars (id) on delete cascade,
+  label text not null default 'Promo',
+  promo_price integer not null check (promo_price >= 0),
+  starts_on date not null,
+  ends_on date, -- inclusive, null means open-ended
+  min_days integer check (min_days is null or min_days > 0),
+  constraint promotions_dates_check check (ends_on is null or ends_on >= starts_on)
+);
+
+create index if not exists promotions_car_idx on public.promotions (car_id, starts_on);
+
+alter table public.promotions enable row level security;
+
+create policy "Anyone can read promotions"
+  on public.promotions for select
+  to anon, authenticated
+  using (true);
+
+create policy "Staff can manage promotions"
+  on public.promotions for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Carry over the promos that were live when this migration runs
+insert into public.promotions (car_id, label, promo_price, starts_on)
+  select id, 'Promo', promo_price, current_date
+  from public.cars
+  where promo_price is not null and promo_price < price_per_day;
+
+alter table public.cars drop column if exists promo_price;
@@ -0,0 +1,184 @@
+-- Promo codes entered by customers in BookingForm (e.g. Instagram campaigns).
+
+create table if not exists public.coupons (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  code text not null unique check (code = upper(code)),
+  discount_type text not null check (discount_type in ('percent', 'fixed')),
+  discount_value integer not null check (discount_value > 0),
+  max_uses integer check (max_uses is null or max_uses > 0),
+  used_count integer not null default 0,
+  expires_on date, -- inclusive
+  allowed_categories text[], -- null means every category
+  min_days integer check (min_days is null or min_days > 0),
+  is_active boolean not null default true,
+  constraint coupons_percent_check check (discount_type <> 'percent' or discount_value <= 100)
+);
+
+alter table public.coupons enable row level security;
+
+-- Codes are never listed publicly; visitors go through validate_coupon().
+create policy "Staff can manage coupons"
+  on public.coupons for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create or replace function public.validate_coupon(p_code text)
+returns setof public.coupons
+language sql
+security definer
+set search_path = public
+as $$
+  select *
+  from public.coupons
+  where code = upper(trim(p_code))
+    and is_active
+    and (expires_on is null or expires_on >= current_date)
+    and (max_uses is null or used_count < max_uses);
+$$;
+
+grant execute on function public.validate_coupon(text) to anon, authenticated;
+
+alter table public.bookings
+  add column if not exists coupon_code text,
+  add column if not exists discount_amount integer not null default 0;
+
+-- Codes are checked again when the booking row is written, and the discount is
+-- worked out here from the coupon rather than taken from the form. A code that
+-- ran out between the form check and the submit is dropped so the request itself
+-- is never lost. Cancelling a booking gives its use back.
+
+-- Applies or drops the coupon line of a stored price breakdown
+create or replace function public.set_coupon_price_line(p_lines jsonb, p_discount integer)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_agg(
+      case when coalesce(l.value ->> 'label', '') like 'Code promo%'
+        then jsonb_set(l.value, '{amount}', to_jsonb(-p_discount))
+        else l.value
+      end
+      order by l.position
+    ) filter (where p_discount > 0 or coalesce(l.value ->> 'label', '') not like 'Code promo%'),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(p_lines) with ordinality as l (value, position);
+$$;
+
+create or replace function public.redeem_booking_coupon()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  coupon public.coupons%rowtype;
+  category text;
+  rental_days integer;
+  subtotal integer;
+  discount integer := 0;
+begin
+  if new.coupon_code is null then
+    new.discount_amount := 0;
+    return new;
+  end if;
+
+  select c.category into category from public.cars c where c.id = new.car_id;
+
+  -- Upper bound of the billed days, so a rental the form accepted is never refused here
+  rental_days := greatest(1, ceil(extract(epoch from
+    (new.dropoff_date + coalesce(new.return_time, time '00:00'))
+    - (new.pickup_date + coalesce(new.pickup_time, time '00:00'))
+  ) / 86400)::integer);
+
+  select * into coupon
+  from public.coupons
+  where code = upper(trim(new.coupon_code))
+    and is_active
+    and (expires_on is null or expires_on >= current_date)
+    and (max_uses is null or used_count < max_uses)
+    and (min_days is null or rental_days >= min_days)
+    and (allowed_categories is null or cardinality(allowed_categories) = 0 or category = any (allowed_categories))
+  for update;
+
+  -- The discount applies to the rental lines listed before the coupon line;
+  -- without a breakdown, to the whole amount the form had before the discount
+  select coalesce(sum((l.value ->> 'amount')::numeric), 0)::integer into subtotal
+  from jsonb_array_elements(coalesce(new.price_lines, '[]'::jsonb)) with ordinality as l (value, position)
+  where l.position < (
+    select min(p.position)
+    from jsonb_array_elements(new.price_lines) with ordinality as p (value, position)
+    where p.value ->> 'label' like 'Code promo%'
+  );
+  if subtotal is null or subtotal = 0 then
+    subtotal := new.total_price + new.discount_amount;
+  end if;
+
+  if coupon.id is not null then
+    discount := case coupon.discount_type
+      when 'percent' then round(subtotal * coupon.discount_value / 100.0)::integer
+      else coupon.discount_value
+    end;
+    discount := greatest(0, least(discount, subtotal));
+
+    update public.coupons set used_count = used_count + 1 where id = coupon.id;
+    new.coupon_code := coupon.code;
+  else
+    new.coupon_code := null;
+  end if;
+
+  new.total_price := new.total_price + new.discount_amount - discount;
+  new.discount_amount := discount;
+  if new.price_lines is not null then
+    new.price_lines := public.set_coupon_price_line(new.price_lines, discount);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger bookings_redeem_coupon
+  before insert on public.bookings
+  for each row execute function public.redeem_booking_coupon();
+
+create or replace function public.release_booking_coupon()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.coupons
+    set used_count = greatest(used_count - 1, 0)
+    where code = old.coupon_code;
+  return new;
+end;
+$$;
+
+create trigger bookings_release_coupon
+  after update of status on public.bookings
+  for each row
+  when (new.status = 'cancelled' and old.status <> 'cancelled' and old.coupon_code is not null)
+  execute function public.release_booking_coupon();
+
+-- What was stored for a request just submitted, so the customer's WhatsApp
+-- message carries the same price and code as the row the agency sees.
+-- Visitors cannot read bookings; the random id and the short window stand in.
+create or replace function public.get_submitted_booking_price(p_id uuid)
+returns table (total_price integer, discount_amount integer, coupon_code text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select b.total_price, b.discount_amount, b.coupon_code
+  from public.bookings b
+  where b.id = p_id
+    and b.status = 'pending'
+    and b.created_at > now() - interval '15 minutes';
+$$;
+
+grant execute on function public.get_submitted_booking_price(uuid) to anon, authenticated;
@@ -0,0 +1,50 @@
+-- Priced add-ons (child seat, JAWAZ badge, extra driver, GPS) and the cars that support them.
+
+create table if not exists public.addons (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  name text not null,
+  description text,
+  price integer not null check (price >= 0),
+  pricing_type text not null default 'per_day' check (pricing_type in ('per_day', 'flat')),
+  stock integer check (stock is null or stock >= 0), -- null means unlimited
+  is_active boolean not null default true
+);
+
+create table if not exists public.car_addons (
+  car_id bigint not null references public.cars (id) on delete cascade,
+  addon_id bigint not null references public.addons (id) on delete cascade,
+  primary key (car_id, addon_id)
+);
+
+alter table public.addons enable row level security;
+alter table public.car_addons enable row level security;
+
+create policy "Anyone can read addons" on public.addons for select to anon, authenticated using (true);
+create policy "Staff can manage addons" on public.addons for all to authenticated using (true) with check (true);
+
+create policy "Anyone can read car addons" on public.car_addons for select to anon, authenticated using (true);
+create policy "Staff can manage car addons" on public.car_addons for all to authenticated using (true) with check (true);
+
+insert into public.addons (name, description, price, pricing_type, stock) values
+  ('Siège enfant', 'Siège auto homologué pour enfant de 9 à 36 kg', 30, 'per_day', 4),
+  ('Badge JAWAZ', 'Télépéage autoroutes, recharge à la charge du client', 50, 'flat', 6),
+  ('Conducteur additionnel', 'Permis du conducteur à présenter à la livraison', 40, 'per_day', null),
+  ('GPS', 'GPS avec cartes du Maroc à jour', 25, 'per_day', 3);
+
+-- Add-ons picked with each booking request, priced at the time of the request:
+-- [{ "addon_id", "name", "quantity", "unit_price", "pricing_type", "amount" }]
+alter table public.bookings
+  add column if not exists addons jsonb not null default '[]'::jsonb;
+
+-- Public, PII-free view of add-on quantities reserved per period, used for stock checks.
+create or replace view public.addon_booked_periods as
+  select (item ->> 'addon_id')::bigint as addon_id,
+         (item ->> 'quantity')::integer as quantity,
+         b.pickup_date,
+         b.dropoff_date
+  from public.bookings b
+  cross join lateral jsonb_array_elements(b.addons) as item
+  where b.status in ('confirmed', 'in_progress');
+
+grant select on public.addon_booked_periods to anon, authenticated;
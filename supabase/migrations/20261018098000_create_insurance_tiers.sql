@@ -0,0 +1,30 @@
+-- Insurance tiers (franchise buy-back) and the per-car deposit they reduce.
+
+alter table public.cars
+  add column if not exists deposit_amount integer not null default 5000 check (deposit_amount >= 0);
+
+create table if not exists public.insurance_tiers (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  name text not null,
+  description text,
+  franchise_percent numeric(5, 2) not null check (franchise_percent between 0 and 100),
+  price_per_day integer not null default 0 check (price_per_day >= 0),
+  deposit_percent integer not null check (deposit_percent between 0 and 100), -- share of the car deposit still blocked
+  is_active boolean not null default true
+);
+
+alter table public.insurance_tiers enable row level security;
+
+create policy "Anyone can read insurance tiers" on public.insurance_tiers for select to anon, authenticated using (true);
+create policy "Staff can manage insurance tiers" on public.insurance_tiers for all to authenticated using (true) with check (true);
+
+insert into public.insurance_tiers (name, description, franchise_percent, price_per_day, deposit_percent) values
+  ('Standard', 'Assurance tout risque, franchise de 5% de la valeur du préjudice', 5, 0, 100),
+  ('Franchise réduite', 'Rachat partiel de franchise, caution divisée par deux', 2, 60, 50),
+  ('Sans caution', 'Rachat total de franchise, aucune caution bloquée', 0, 120, 0);
+
+alter table public.bookings
+  add column if not exists insurance_tier_id bigint references public.insurance_tiers (id) on delete set null,
+  add column if not exists insurance_name text,
+  add column if not exists deposit_amount integer;
@@ -0,0 +1,19 @@
+-- Hour-precise pickup and return, billed in 24-hour blocks with a grace period.
+
+alter table public.bookings
+  add column if not exists pickup_time time,
+  add column if not exists return_time time;
+
+-- Lateness past the pickup hour on the last day: free up to grace_free_minutes,
+-- half a day up to grace_half_day_minutes, a full day beyond.
+alter table public.pricing_settings
+  add column if not exists grace_free_minutes integer not null default 60 check (grace_free_minutes >= 0),
+  add column if not exists grace_half_day_minutes integer not null default 180 check (grace_half_day_minutes >= 0),
+  add constraint pricing_settings_grace_check check (grace_half_day_minutes >= grace_free_minutes);
+
+-- A same-day rental is allowed as long as the return comes after the pickup
+alter table public.bookings
+  drop constraint if exists bookings_dates_check,
+  add constraint bookings_dates_check check (
+    dropoff_date + coalesce(return_time, time '00:00') > pickup_date + coalesce(pickup_time, time '00:00')
+  );
@@ -0,0 +1,10 @@
+-- Flight details for airport meet-and-greets, so staff can follow delayed flights.
+
+alter table public.bookings
+  add column if not exists flight_number text,
+  add column if not exists flight_terminal text,
+  add column if not exists flight_arrival_time time; -- scheduled, on the pickup date, Africa/Casablanca
+
+create index if not exists bookings_airport_arrivals_idx
+  on public.bookings (pickup_date, flight_arrival_time)
+  where flight_number is not null;
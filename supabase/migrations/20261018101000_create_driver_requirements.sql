@@ -0,0 +1,24 @@
+-- Minimum driver age and licence seniority per car category, checked at pickup date.
+
+create table if not exists public.driver_requirements (
+  category text primary key,
+  min_age integer not null check (min_age >= 18),
+  min_licence_years integer not null default 0 check (min_licence_years >= 0)
+);
+
+alter table public.driver_requirements enable row level security;
+
+create policy "Anyone can read driver requirements" on public.driver_requirements for select to anon, authenticated using (true);
+create policy "Staff can manage driver requirements" on public.driver_requirements for all to authenticated using (true) with check (true);
+
+insert into public.driver_requirements (category, min_age, min_licence_years) values
+  ('Citadine', 21, 2),
+  ('Berline', 21, 2),
+  ('SUV', 23, 2),
+  ('4x4', 23, 2),
+  ('Luxe', 25, 3)
+on conflict (category) do nothing;
+
+alter table public.bookings
+  add column if not exists driver_birth_date date,
+  add column if not exists licence_issued_on date;
@@ -0,0 +1,159 @@
+-- Licence and ID scans uploaded with a booking request.
+-- Files live in a private bucket, separate from the public car-images bucket:
+-- visitors can upload but never read; only staff can view or delete them.
+-- Visitors may only attach files to a pending request they have just created,
+-- under <booking id>/<kind>-<timestamp>.<ext>, and only a few of them.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'customer-documents',
+  'customer-documents',
+  false,
+  10485760, -- 10 MB
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+-- Window after submitting a request during which its documents can be sent
+create or replace function public.can_attach_booking_document(p_path text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select p_path ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/(licence|identity)-[0-9]+\.(jpg|png|webp|heic|pdf)$'
+    and exists (
+      select 1
+      from public.bookings b
+      where b.id = split_part(p_path, '/', 1)::uuid
+        and b.status = 'pending'
+        and b.created_at > now() - interval '15 minutes'
+    )
+    and (
+      select count(*)
+      from storage.objects o
+      where o.bucket_id = 'customer-documents'
+        and o.name like split_part(p_path, '/', 1) || '/%'
+        and o.name <> p_path
+    ) < 4;
+$$;
+
+grant execute on function public.can_attach_booking_document(text) to anon, authenticated;
+
+-- Size and type are also enforced by the bucket (file_size_limit, allowed_mime_types)
+create policy "Visitors can upload customer documents"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (
+    bucket_id = 'customer-documents'
+    and public.can_attach_booking_document(name)
+  );
+
+create policy "Staff can read customer documents"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'customer-documents');
+
+create policy "Staff can delete customer documents"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'customer-documents');
+
+create table if not exists public.booking_documents (
+  id bigint generated by default as identity primary key,
+  uploaded_at timestamptz not null default now(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  kind text not null check (kind in ('licence', 'identity')),
+  storage_path text not null unique,
+  purge_after date not null
+);
+
+-- Keep scans for 30 days after the planned return, whatever the client sends.
+create or replace function public.set_document_purge_date()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select b.dropoff_date + 30 into new.purge_after
+  from public.bookings b
+  where b.id = new.booking_id;
+
+  new.purge_after := coalesce(new.purge_after, current_date + 30);
+  return new;
+end;
+$$;
+
+create trigger booking_documents_purge_date
+  before insert on public.booking_documents
+  for each row execute function public.set_document_purge_date();
+
+alter table public.booking_documents enable row level security;
+
+create policy "Visitors can register uploaded documents"
+  on public.booking_documents for insert
+  to anon, authenticated
+  with check (
+    split_part(storage_path, '/', 1) = booking_id::text
+    and storage_path ~ ('/' || kind || '-')
+    and public.can_attach_booking_document(storage_path)
+  );
+
+create policy "Staff can manage booking documents"
+  on public.booking_documents for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Documents are purged on the server every night, whether or not
+-- anyone opens the Dashboard. The purge-customer-documents edge function removes
+-- the files through the Storage API and then their rows.
+--
+-- Needs two Vault secrets:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+-- Paths to delete: documents past their retention date, and files with no row
+-- left (their booking was deleted, or the row insert failed after the upload).
+-- Files younger than a day are skipped so an upload in progress is never caught.
+create or replace function public.customer_documents_to_purge()
+returns table (storage_path text)
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select d.storage_path
+  from public.booking_documents d
+  where d.purge_after < (now() at time zone 'Africa/Casablanca')::date
+  union
+  select o.name
+  from storage.objects o
+  where o.bucket_id = 'customer-documents'
+    and o.created_at < now() - interval '1 day'
+    and not exists (select 1 from public.booking_documents d where d.storage_path = o.name);
+$$;
+
+revoke execute on function public.customer_documents_to_purge() from public, anon, authenticated;
+grant execute on function public.customer_documents_to_purge() to service_role;
+
+select cron.schedule(
+  'purge-customer-documents',
+  '30 3 * * *', -- 03:30 UTC, every night
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/purge-customer-documents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
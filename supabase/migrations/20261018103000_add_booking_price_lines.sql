@@ -0,0 +1,4 @@
+-- Price breakdown shown to the customer, kept so quotes can be reissued from the Dashboard:
+-- [{ "label", "detail", "amount" }]
+alter table public.bookings
+  add column if not exists price_lines jsonb;
@@ -0,0 +1,45 @@
+-- Signed rental contracts, generated at handover from a confirmed booking.
+-- The PDFs carry customer details and a signature, so the bucket is private
+-- and only staff can write or read it.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'rental-contracts',
+  'rental-contracts',
+  false,
+  10485760, -- 10 MB
+  array['application/pdf']
+)
+on conflict (id) do nothing;
+
+create policy "Staff can upload rental contracts"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'rental-contracts');
+
+create policy "Staff can read rental contracts"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'rental-contracts');
+
+create table if not exists public.rental_contracts (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  unit_id bigint references public.vehicle_units (id) on delete set null,
+  storage_path text not null unique,
+  start_mileage integer not null check (start_mileage >= 0),
+  fuel_level text not null,
+  id_document_number text not null,
+  signed_at timestamptz not null default now()
+);
+
+create index if not exists rental_contracts_booking_id_idx on public.rental_contracts (booking_id);
+
+alter table public.rental_contracts enable row level security;
+
+create policy "Staff can manage rental contracts"
+  on public.rental_contracts for all
+  to authenticated
+  using (true)
+  with check (true);
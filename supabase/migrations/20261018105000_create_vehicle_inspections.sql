@@ -0,0 +1,52 @@
+-- Check-out / check-in inspections (état des lieux) recorded by agents at
+-- handover and return. Damage points are stored as coordinates on the
+-- diagram, in percent of its width and height.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'inspection-photos',
+  'inspection-photos',
+  false,
+  10485760, -- 10 MB
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+on conflict (id) do nothing;
+
+create policy "Staff can upload inspection photos"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'inspection-photos');
+
+create policy "Staff can read inspection photos"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'inspection-photos');
+
+create policy "Staff can delete inspection photos"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'inspection-photos');
+
+create table if not exists public.vehicle_inspections (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  unit_id bigint references public.vehicle_units (id) on delete set null,
+  kind text not null check (kind in ('check_out', 'check_in')),
+  mileage integer not null check (mileage >= 0),
+  fuel_level text not null,
+  damages jsonb not null default '[]'::jsonb,
+  photos text[] not null default '{}',
+  notes text,
+  unique (booking_id, kind)
+);
+
+create index if not exists vehicle_inspections_unit_id_idx on public.vehicle_inspections (unit_id);
+
+alter table public.vehicle_inspections enable row level security;
+
+create policy "Staff can manage vehicle inspections"
+  on public.vehicle_inspections for all
+  to authenticated
+  using (true)
+  with check (true);
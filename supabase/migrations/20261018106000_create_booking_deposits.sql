@@ -0,0 +1,71 @@
+-- Security deposit (caution) actually collected for a booking, and what was
+-- kept from it. bookings.deposit_amount stays the amount quoted to the
+-- customer; this records what happened at handover and return.
+
+create table if not exists public.booking_deposits (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  booking_id uuid not null unique references public.bookings (id) on delete cascade,
+  amount integer not null check (amount >= 0),
+  method text not null check (method in ('card_preauth', 'cash')),
+  status text not null default 'held' check (status in ('held', 'partially_retained', 'retained', 'released')),
+  collected_at timestamptz not null default now(),
+  released_at timestamptz,
+  check ((status = 'held') = (released_at is null))
+);
+
+create index if not exists booking_deposits_status_idx on public.booking_deposits (status);
+
+create table if not exists public.deposit_retentions (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  deposit_id bigint not null references public.booking_deposits (id) on delete cascade,
+  amount integer not null check (amount > 0),
+  category text not null check (category in ('damage', 'fine', 'fuel', 'other')),
+  reason text not null,
+  damage_id text -- DamagePoint id from the check-in inspection
+);
+
+create index if not exists deposit_retentions_deposit_id_idx on public.deposit_retentions (deposit_id);
+
+alter table public.booking_deposits enable row level security;
+alter table public.deposit_retentions enable row level security;
+
+create policy "Staff can manage booking deposits"
+  on public.booking_deposits for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Staff can manage deposit retentions"
+  on public.deposit_retentions for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Retentions are settled with the deposit: once it is released or retained
+-- they can no longer be added, changed or removed.
+create or replace function public.check_deposit_held()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  deposit_status text;
+begin
+  select status into deposit_status
+  from public.booking_deposits
+  where id = coalesce(new.deposit_id, old.deposit_id);
+
+  -- Not found when the deposit itself is being deleted
+  if deposit_status is not null and deposit_status <> 'held' then
+    raise exception 'La caution a déjà été restituée.';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger deposit_retentions_check_held
+  before insert or update or delete on public.deposit_retentions
+  for each row execute function public.check_deposit_held();
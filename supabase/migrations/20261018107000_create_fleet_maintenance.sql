@@ -0,0 +1,57 @@
+-- Servicing history and compliance papers per vehicle unit.
+
+create table if not exists public.unit_maintenance (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  unit_id bigint not null references public.vehicle_units (id) on delete cascade,
+  kind text not null check (kind in ('oil_change', 'tyres', 'brake_pads', 'other')),
+  description text,
+  starts_on date not null,
+  ends_on date not null, -- back in service that day, like a booking's dropoff_date
+  mileage integer check (mileage >= 0),
+  cost integer check (cost >= 0),
+  next_due_on date,
+  next_due_mileage integer check (next_due_mileage >= 0),
+  check (ends_on >= starts_on)
+);
+
+create index if not exists unit_maintenance_unit_id_idx on public.unit_maintenance (unit_id);
+
+create table if not exists public.unit_compliance_documents (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  unit_id bigint not null references public.vehicle_units (id) on delete cascade,
+  kind text not null check (kind in ('insurance', 'technical_inspection', 'vignette', 'registration')),
+  reference text,
+  expires_on date, -- null for papers that don't expire, like the carte grise
+  unique (unit_id, kind)
+);
+
+alter table public.unit_maintenance enable row level security;
+alter table public.unit_compliance_documents enable row level security;
+
+create policy "Staff can manage unit maintenance"
+  on public.unit_maintenance for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Staff can manage unit compliance documents"
+  on public.unit_compliance_documents for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- A unit in the garage is taken for the period, exactly like a confirmed
+-- booking assigned to it, so availability and unit assignment skip it.
+create or replace view public.car_booked_periods as
+  select car_id, pickup_date, dropoff_date, unit_id
+  from public.bookings
+  where status in ('confirmed', 'in_progress')
+    and car_id is not null
+  union all
+  select u.car_id, m.starts_on, m.ends_on, m.unit_id
+  from public.unit_maintenance m
+  join public.vehicle_units u on u.id = m.unit_id
+  where u.status = 'active'
+    and m.ends_on > m.starts_on;
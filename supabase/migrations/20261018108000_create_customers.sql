@@ -0,0 +1,112 @@
+-- Customer records, one per phone number, linked to every booking they make.
+-- Phones are compared in international form without spaces or "+", so
+-- "06 16 92 55 72", "+212 616925572" and "00212616925572" are the same client.
+
+create or replace function public.normalize_phone(phone text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when digits like '00%' then substr(digits, 3)
+    when digits ~ '^0[5-7][0-9]{8}$' then '212' || substr(digits, 2)
+    else digits
+  end
+  from (select regexp_replace(coalesce(phone, ''), '[^0-9]', '', 'g') as digits) d;
+$$;
+
+create table if not exists public.customers (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  full_name text not null,
+  phone text not null unique, -- normalized with normalize_phone()
+  email text,
+  notes text,
+  tags text[] not null default '{}',
+  is_blocked boolean not null default false,
+  blocked_reason text
+);
+
+alter table public.bookings
+  add column if not exists customer_id bigint references public.customers (id) on delete set null;
+
+create index if not exists bookings_customer_id_idx on public.bookings (customer_id);
+
+-- Every new request is attached to the customer with the same phone,
+-- creating the customer on their first booking. Runs with the owner's
+-- rights because visitors can't read the customers table.
+create or replace function public.link_booking_customer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  normalized text := public.normalize_phone(new.phone);
+begin
+  if normalized = '' then
+    new.customer_id := null;
+    return new;
+  end if;
+
+  insert into public.customers (full_name, phone)
+  values (new.full_name, normalized)
+  on conflict (phone) do nothing;
+
+  select id into new.customer_id from public.customers where phone = normalized;
+  return new;
+end;
+$$;
+
+create trigger bookings_link_customer
+  before insert on public.bookings
+  for each row execute function public.link_booking_customer();
+
+-- Existing bookings: one customer per phone, named after their latest request.
+insert into public.customers (full_name, phone)
+select distinct on (public.normalize_phone(phone)) full_name, public.normalize_phone(phone)
+from public.bookings
+where public.normalize_phone(phone) <> ''
+order by public.normalize_phone(phone), created_at desc
+on conflict (phone) do nothing;
+
+update public.bookings b
+set customer_id = c.id
+from public.customers c
+where c.phone = public.normalize_phone(b.phone)
+  and b.customer_id is null;
+
+alter table public.customers enable row level security;
+
+create policy "Staff can manage customers"
+  on public.customers for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- A blocked customer's booking is only confirmed with a reason for going ahead
+alter table public.bookings
+  add column if not exists block_override_reason text;
+
+create or replace function public.check_blocked_customer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(new.block_override_reason), '') = '' and exists (
+    select 1 from public.customers c where c.id = new.customer_id and c.is_blocked
+  ) then
+    raise exception 'Ce client est bloqué. Indiquez pourquoi vous confirmez malgré tout.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger bookings_check_blocked_customer
+  before update of status on public.bookings
+  for each row
+  when (new.status = 'confirmed' and old.status <> 'confirmed')
+  execute function public.check_blocked_customer();
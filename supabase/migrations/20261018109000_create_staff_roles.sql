@@ -0,0 +1,188 @@
+-- Staff accounts and what each role may do. Access used to be granted to a
+-- single shared login by comparing its email client-side; the database now
+-- decides, so every staff member gets their own account.
+
+create table if not exists public.staff_roles (
+  role text primary key,
+  label text not null,
+  permissions text[] not null default '{}'
+);
+
+insert into public.staff_roles (role, label, permissions) values
+  ('owner', 'Gérant', array['bookings.manage', 'deliveries.view', 'fleet.manage', 'pricing.manage', 'staff.manage']),
+  ('manager', 'Responsable', array['bookings.manage', 'deliveries.view', 'fleet.manage', 'pricing.manage']),
+  ('agent', 'Agent', array['bookings.manage', 'deliveries.view']),
+  ('driver', 'Livreur', array['deliveries.view'])
+on conflict (role) do nothing;
+
+create table if not exists public.staff_members (
+  email text primary key check (email = lower(email)), -- Supabase Auth login
+  created_at timestamptz not null default now(),
+  full_name text,
+  role text not null references public.staff_roles (role)
+);
+
+-- The account that used to be hard-coded keeps full access.
+insert into public.staff_members (email, role)
+values ('admin@trevi.com', 'owner')
+on conflict (email) do nothing;
+
+create or replace function public.has_permission(permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.staff_members m
+    join public.staff_roles r on r.role = m.role
+    where m.email = lower(auth.jwt() ->> 'email')
+      and permission = any (r.permissions)
+  );
+$$;
+
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.staff_members where email = lower(auth.jwt() ->> 'email')
+  );
+$$;
+
+-- Deliveries are handed to a driver, who only ever sees those bookings.
+alter table public.bookings
+  add column if not exists delivery_driver_email text
+    references public.staff_members (email) on update cascade on delete set null;
+
+alter table public.staff_roles enable row level security;
+alter table public.staff_members enable row level security;
+
+create policy "Staff can read roles"
+  on public.staff_roles for select
+  to authenticated
+  using (public.is_staff());
+
+create policy "Staff can read staff members"
+  on public.staff_members for select
+  to authenticated
+  using (public.is_staff());
+
+create policy "Owners can manage staff members"
+  on public.staff_members for all
+  to authenticated
+  using (public.has_permission('staff.manage'))
+  with check (public.has_permission('staff.manage'));
+
+-- The existing "Staff can ..." policies let any signed-in user through.
+-- Restrictive policies are ANDed with them, so each write now also needs
+-- the permission guarding the table. Public reads are left untouched.
+do $$
+declare
+  target record;
+  command text;
+begin
+  for target in
+    select * from (values
+      ('cars', 'fleet.manage'),
+      ('vehicle_units', 'fleet.manage'),
+      ('car_addons', 'fleet.manage'),
+      ('unit_maintenance', 'fleet.manage'),
+      ('unit_compliance_documents', 'fleet.manage'),
+      ('pricing_seasons', 'pricing.manage'),
+      ('pricing_duration_tiers', 'pricing.manage'),
+      ('pricing_settings', 'pricing.manage'),
+      ('promotions', 'pricing.manage'),
+      ('coupons', 'pricing.manage'),
+      ('addons', 'pricing.manage'),
+      ('insurance_tiers', 'pricing.manage'),
+      ('driver_requirements', 'pricing.manage'),
+      ('bookings', 'bookings.manage'),
+      ('booking_documents', 'bookings.manage'),
+      ('rental_contracts', 'bookings.manage'),
+      ('vehicle_inspections', 'bookings.manage'),
+      ('booking_deposits', 'bookings.manage'),
+      ('deposit_retentions', 'bookings.manage'),
+      ('customers', 'bookings.manage')
+    ) as t (table_name, permission)
+  loop
+    foreach command in array array['insert', 'update', 'delete'] loop
+      -- Booking requests and their documents can still be submitted from the site
+      continue when command = 'insert' and target.table_name in ('bookings', 'booking_documents');
+
+      execute format(
+        'create policy %I on public.%I as restrictive for %s to authenticated %s',
+        format('Requires %s to %s', target.permission, command),
+        target.table_name,
+        command,
+        case command
+          when 'insert' then format('with check (public.has_permission(%L))', target.permission)
+          when 'update' then format('using (public.has_permission(%L)) with check (public.has_permission(%L))', target.permission, target.permission)
+          else format('using (public.has_permission(%L))', target.permission)
+        end
+      );
+    end loop;
+  end loop;
+end;
+$$;
+
+-- Private data is only readable by staff, and booking data only by the
+-- roles that handle bookings.
+do $$
+declare
+  target record;
+begin
+  for target in
+    select * from (values
+      ('vehicle_units', 'public.is_staff()'),
+      ('unit_maintenance', 'public.is_staff()'),
+      ('unit_compliance_documents', 'public.is_staff()'),
+      ('coupons', 'public.is_staff()'),
+      ('booking_documents', 'public.has_permission(''bookings.manage'')'),
+      ('rental_contracts', 'public.has_permission(''bookings.manage'')'),
+      ('vehicle_inspections', 'public.has_permission(''bookings.manage'')'),
+      ('booking_deposits', 'public.has_permission(''bookings.manage'')'),
+      ('deposit_retentions', 'public.has_permission(''bookings.manage'')'),
+      ('customers', 'public.has_permission(''bookings.manage'')')
+    ) as t (table_name, condition)
+  loop
+    execute format(
+      'create policy %I on public.%I as restrictive for select to authenticated using (%s)',
+      'Restricted to staff roles',
+      target.table_name,
+      target.condition
+    );
+  end loop;
+end;
+$$;
+
+create policy "Drivers only read their deliveries"
+  on public.bookings as restrictive for select
+  to authenticated
+  using (
+    public.has_permission('bookings.manage')
+    or (public.has_permission('deliveries.view') and delivery_driver_email = lower(auth.jwt() ->> 'email'))
+  );
+
+create policy "Staff files require a permission"
+  on storage.objects as restrictive for all
+  to authenticated
+  using (
+    case
+      when bucket_id = 'car-images' then public.has_permission('fleet.manage')
+      when bucket_id in ('customer-documents', 'rental-contracts', 'inspection-photos') then public.has_permission('bookings.manage')
+      else true
+    end
+  )
+  with check (
+    case
+      when bucket_id = 'car-images' then public.has_permission('fleet.manage')
+      when bucket_id in ('customer-documents', 'rental-contracts', 'inspection-photos') then public.has_permission('bookings.manage')
+      else true
+    end
+  );
@@ -0,0 +1,83 @@
+-- Failed staff logins per email and client address. After a few misses from
+-- the same address, that address waits before trying the email again, for a
+-- delay that doubles with each further failure. Other addresses are not held
+-- back, so wrong passwords sent from elsewhere cannot lock the owner out.
+--
+-- Sign-ins go through the staff-sign-in edge function, which knows the address.
+-- Calls made straight to the Auth API are held back per address by Auth's own
+-- sign-in rate limit (Authentication > Rate Limits). The table is only reachable
+-- through the functions below.
+
+create table if not exists public.login_attempts (
+  email text not null,
+  ip_address inet not null,
+  failed_count integer not null default 0,
+  last_failed_at timestamptz not null default now(),
+  locked_until timestamptz,
+  primary key (email, ip_address)
+);
+
+alter table public.login_attempts enable row level security;
+
+-- Seconds this address still has to wait before trying this email, 0 when it may try now
+create or replace function public.get_login_delay(p_email text, p_ip inet)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(ceil(extract(epoch from locked_until - now())))::integer, 0)
+  from public.login_attempts
+  where email = lower(trim(p_email))
+    and ip_address = p_ip
+    and locked_until > now();
+$$;
+
+-- Counts a failed attempt and returns the wait it imposes. Three free attempts,
+-- then 30 s, 1 min, 2 min... capped at 15 min. Counters start over after a day
+-- without failures.
+create or replace function public.record_login_failure(p_email text, p_ip inet)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  attempts integer;
+begin
+  insert into public.login_attempts as a (email, ip_address, failed_count, last_failed_at)
+  values (lower(trim(p_email)), p_ip, 1, now())
+  on conflict (email, ip_address) do update
+    set failed_count = case when a.last_failed_at < now() - interval '1 day' then 1 else a.failed_count + 1 end,
+        last_failed_at = now()
+  returning failed_count into attempts;
+
+  if attempts > 3 then
+    update public.login_attempts
+    set locked_until = now() + least(interval '30 seconds' * power(2, attempts - 4), interval '15 minutes')
+    where email = lower(trim(p_email))
+      and ip_address = p_ip;
+  end if;
+
+  return public.get_login_delay(p_email, p_ip);
+end;
+$$;
+
+revoke execute on function public.get_login_delay(text, inet) from public, anon, authenticated;
+revoke execute on function public.record_login_failure(text, inet) from public, anon, authenticated;
+grant execute on function public.get_login_delay(text, inet) to service_role;
+grant execute on function public.record_login_failure(text, inet) to service_role;
+
+-- A password reset lifts the waits: only the signed-in account can clear its own counters
+create or replace function public.clear_login_failures()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.login_attempts where email = lower(auth.jwt() ->> 'email');
+$$;
+
+revoke execute on function public.clear_login_failures() from public, anon;
+grant execute on function public.clear_login_failures() to authenticated;
@@ -0,0 +1,100 @@
+-- Append-only trail of Dashboard changes: who changed what, and from which
+-- value. Rows are written by triggers, so edits made from any screen (or
+-- straight from the Supabase console) are recorded the same way.
+
+create table if not exists public.audit_log (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  actor_email text, -- null for changes made outside the app (SQL console, service role)
+  table_name text not null,
+  record_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  changes jsonb not null default '{}' -- { "column": { "before": ..., "after": ... } }
+);
+
+create index if not exists audit_log_created_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+-- Owners read everything; fleet managers also need the car history for price changes.
+-- There is no insert, update or delete policy: only the trigger below writes.
+create policy "Staff can read the audit log"
+  on public.audit_log for select
+  to authenticated
+  using (
+    public.has_permission('staff.manage')
+    or (table_name = 'cars' and public.has_permission('fleet.manage'))
+  );
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+-- Columns whose value only differs between the two rows
+create or replace function public.audit_diff(before_row jsonb, after_row jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(key, jsonb_build_object('before', before_row -> key, 'after', after_row -> key)), '{}')
+  from (
+    select key from jsonb_object_keys(coalesce(before_row, '{}')) as key
+    union
+    select key from jsonb_object_keys(coalesce(after_row, '{}')) as key
+  ) as keys
+  where key not in ('created_at', 'updated_at', 'status_updated_at')
+    and (before_row -> key) is distinct from (after_row -> key);
+$$;
+
+create or replace function public.write_audit_log()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  after_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  diff jsonb := public.audit_diff(before_row, after_row);
+begin
+  -- Bookings are only audited when their status moves
+  if tg_table_name = 'bookings' and not (diff ? 'status') then
+    return null;
+  end if;
+  if tg_op = 'UPDATE' and diff = '{}' then
+    return null;
+  end if;
+
+  insert into public.audit_log (actor_email, table_name, record_id, action, changes)
+  values (
+    lower(auth.jwt() ->> 'email'),
+    tg_table_name,
+    coalesce(after_row ->> 'id', before_row ->> 'id'),
+    lower(tg_op),
+    diff
+  );
+  return null;
+end;
+$$;
+
+create trigger cars_audit
+  after insert or update or delete on public.cars
+  for each row execute function public.write_audit_log();
+
+create trigger bookings_audit
+  after update on public.bookings
+  for each row execute function public.write_audit_log();
+
+create trigger promotions_audit
+  after insert or update or delete on public.promotions
+  for each row execute function public.write_audit_log();
+
+create trigger coupons_audit
+  after insert or delete on public.coupons
+  for each row execute function public.write_audit_log();
+
+-- used_count moves with every booking request and cancellation, not from the Dashboard
+create trigger coupons_audit_update
+  after update on public.coupons
+  for each row
+  when ((to_jsonb(old) - 'used_count') is distinct from (to_jsonb(new) - 'used_count'))
+  execute function public.write_audit_log();
@@ -0,0 +1,47 @@
+-- Writes a checked fleet import in one transaction: if any row is refused,
+-- nothing is written and the catalogue still matches the dry run.
+-- p_creates: [{ "line", "car": { column: value } }]
+-- p_updates: [{ "line", "id", "changes": { column: value } }], only the changed columns
+-- Runs with the caller's rights, so the cars policies (fleet.manage) apply.
+
+create or replace function public.apply_fleet_import(p_creates jsonb, p_updates jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  item jsonb;
+begin
+  for item in select value from jsonb_array_elements(p_creates) loop
+    begin
+      insert into public.cars (brand, name, category, price_per_day, deposit_amount, fuel_type, gearbox, is_available, image_url, description)
+      select r.brand, r.name, r.category, r.price_per_day, r.deposit_amount, r.fuel_type, r.gearbox, r.is_available, r.image_url, r.description
+      from jsonb_populate_record(null::public.cars, item -> 'car') as r;
+    exception when others then
+      raise exception 'Ligne %: %', item ->> 'line', sqlerrm;
+    end;
+  end loop;
+
+  for item in select value from jsonb_array_elements(p_updates) loop
+    begin
+      -- Columns missing from changes keep the value of the current row
+      update public.cars c
+      set (brand, name, category, price_per_day, deposit_amount, fuel_type, gearbox, is_available, image_url, description) = (
+        select r.brand, r.name, r.category, r.price_per_day, r.deposit_amount, r.fuel_type, r.gearbox, r.is_available, r.image_url, r.description
+        from jsonb_populate_record(c, item -> 'changes') as r
+      )
+      where c.id = (item ->> 'id')::bigint;
+
+      if not found then
+        raise exception 'véhicule % introuvable', item ->> 'id';
+      end if;
+    exception when others then
+      raise exception 'Ligne %: %', item ->> 'line', sqlerrm;
+    end;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.apply_fleet_import(jsonb, jsonb) from public, anon;
+grant execute on function public.apply_fleet_import(jsonb, jsonb) to authenticated;
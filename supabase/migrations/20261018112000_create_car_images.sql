@@ -0,0 +1,32 @@
+-- Ordered photo gallery per car (exterior, interior, boot...). cars.image_url
+-- stays the cover shown first and wherever a single picture is needed.
+
+create table if not exists public.car_images (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  car_id bigint not null references public.cars (id) on delete cascade,
+  url text not null,
+  position integer not null default 0
+);
+
+create index if not exists car_images_car_idx on public.car_images (car_id, position);
+
+alter table public.car_images enable row level security;
+
+create policy "Anyone can read car images"
+  on public.car_images for select
+  to anon, authenticated
+  using (true);
+
+create policy "Staff can manage car images"
+  on public.car_images for all
+  to authenticated
+  using (public.has_permission('fleet.manage'))
+  with check (public.has_permission('fleet.manage'));
+
+-- Existing covers become the first picture of each gallery
+insert into public.car_images (car_id, url, position)
+select id, image_url, 0
+from public.cars
+where coalesce(image_url, '') <> ''
+  and not exists (select 1 from public.car_images i where i.car_id = cars.id);
@@ -0,0 +1,35 @@
+-- Resized copies of each gallery picture, generated in the browser before upload.
+-- variants: [{ "url", "width", "format": "avif" | "webp" | "jpeg" }]
+-- placeholder: tiny blurred data URL shown while the picture loads.
+-- url keeps the largest widely supported copy for places that need a single file.
+
+alter table public.car_images
+  add column if not exists variants jsonb not null default '[]'::jsonb,
+  add column if not exists placeholder text;
+
+-- Replaces the gallery of a car in one transaction, so a failed write keeps the
+-- previous gallery instead of leaving the car without pictures.
+-- p_photos: [{ "url", "variants", "placeholder" }] in display order.
+
+create or replace function public.replace_car_images(p_car_id bigint, p_photos jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  delete from public.car_images where car_id = p_car_id;
+
+  insert into public.car_images (car_id, url, variants, placeholder, position)
+  select
+    p_car_id,
+    p.value ->> 'url',
+    coalesce(p.value -> 'variants', '[]'::jsonb),
+    p.value ->> 'placeholder',
+    (p.position - 1)::integer
+  from jsonb_array_elements(p_photos) with ordinality as p (value, position);
+end;
+$$;
+
+revoke execute on function public.replace_car_images(bigint, jsonb) from public, anon;
+grant execute on function public.replace_car_images(bigint, jsonb) to authenticated;
@@ -4,7 +4,6 @@ export interface SupabaseCar {
   name: string;        // model
   brand: string;       // make
   price_per_day: number;
-  promo_price?: number | null;
   fuel_type: string;
   gearbox: string;     // transmission
   category: string;    // type
@@ -12,6 +11,29 @@ export interface SupabaseCar {
   is_available: boolean;
   description?: string | null;
   accessories?: string | null; // Comma-separated string or JSON array
+  deposit_amount?: number; // MAD blocked under the standard cover
+}
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  url: string;
+  width: number; // px
+  format: ImageFormat;
+}
+
+// A gallery picture with its resized copies; pictures from before the optimisation have no variants
+export interface CarPhoto {
+  url: string;
+  variants: ImageVariant[];
+  placeholder: string | null; // Tiny data URL, shown blurred while loading
+}
+
+export interface CarImage extends CarPhoto {
+  id: number;
+  created_at?: string;
+  car_id: number;
+  position: number;
 }
 
 export interface Car {
@@ -22,10 +44,15 @@ export interface Car {
   transmission: string;
   fuel: string;
   pricePerDay: number; // in MAD
-  promoPrice?: number | null; // New field for discounts
+  promoPrice?: number | null; // Promo price active for the displayed dates
+  promoLabel?: string;
+  promotions: Promotion[];
   features: string[];
-  accessories?: string[]; // New field for accessories
+  accessories?: string[]; // Names of the supported add-ons
+  addons: Addon[]; // Add-ons customers can book with this car
+  deposit: number; // MAD blocked under the standard cover
   image: string;
+  images: CarPhoto[]; // gallery, cover first
   description?: string;
   isAvailable: boolean;
   
@@ -34,10 +61,114 @@ export interface Car {
   rating: number;
   reviewCount: number;
   availableCount: number;
+  unitCount: number; // Vehicles that can be rented, see getRentableUnitCount
   badge?: string;
   badgeIcon?: string;
 }
 
+export interface PricingSeason {
+  id: number;
+  label: string;
+  start_date: string;
+  end_date: string; // inclusive
+  adjustment_percent: number; // +30 for high season, -10 for low season
+}
+
+export interface PricingDurationTier {
+  id: number;
+  min_days: number;
+  discount_percent: number;
+}
+
+export interface PricingRules {
+  seasons: PricingSeason[];
+  durationTiers: PricingDurationTier[];
+  weekendAdjustmentPercent: number;
+  graceFreeMinutes: number; // lateness on the last day that is not charged
+  graceHalfDayMinutes: number; // lateness charged as half a day, a full day beyond
+}
+
+export interface PriceLine {
+  label: string;
+  detail?: string;
+  amount: number; // signed, in MAD
+}
+
+export interface PriceQuote {
+  days: number;
+  dailyRate: number; // base rate before adjustments
+  lines: PriceLine[];
+  couponDiscount: number; // MAD taken off by the promo code, 0 without one
+  total: number;
+}
+
+export interface Promotion {
+  id: number;
+  created_at?: string;
+  car_id: number;
+  label: string;
+  promo_price: number;
+  starts_on: string;
+  ends_on: string | null; // inclusive, null means open-ended
+  min_days: number | null;
+}
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export interface Coupon {
+  id: number;
+  created_at?: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number; // percent or MAD depending on discount_type
+  max_uses: number | null;
+  used_count: number;
+  expires_on: string | null; // inclusive
+  allowed_categories: string[] | null; // null means every category
+  min_days: number | null;
+  is_active: boolean;
+}
+
+export type AddonPricingType = 'per_day' | 'flat';
+
+export interface Addon {
+  id: number;
+  created_at?: string;
+  name: string;
+  description: string | null;
+  price: number; // MAD per day or per rental depending on pricing_type
+  pricing_type: AddonPricingType;
+  stock: number | null; // null means unlimited
+  is_active: boolean;
+}
+
+// Add-on line stored with a booking, priced at the time of the request
+export interface BookingAddon {
+  addon_id: number;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  pricing_type: AddonPricingType;
+  amount: number;
+}
+
+export interface InsuranceTier {
+  id: number;
+  created_at?: string;
+  name: string;
+  description: string | null;
+  franchise_percent: number; // share of the damage left to the customer
+  price_per_day: number;
+  deposit_percent: number; // share of the car deposit still blocked
+  is_active: boolean;
+}
+
+export interface DriverRequirement {
+  category: string;
+  min_age: number;
+  min_licence_years: number;
+}
+
 export interface Review {
   id: string;
   name: string;
@@ -47,13 +178,247 @@ export interface Review {
   date: string;
 }
 
+export type BookingStatus = 'pending' | 'confirmed' | 'in_progress' | 'returned' | 'cancelled';
+
+export interface SupabaseBooking {
+  id: string;
+  created_at?: string;
+  full_name: string;
+  phone: string;
+  car_id: number | null;
+  pickup_date: string;
+  dropoff_date: string;
+  pickup_time?: string | null; // HH:mm, Africa/Casablanca
+  return_time?: string | null;
+  delivery_city: string;
+  total_price: number;
+  status: BookingStatus;
+  cancellation_reason?: string | null;
+  status_updated_at?: string | null;
+  unit_id?: number | null;
+  coupon_code?: string | null;
+  discount_amount?: number;
+  addons?: BookingAddon[];
+  insurance_tier_id?: number | null;
+  insurance_name?: string | null;
+  deposit_amount?: number | null;
+  flight_number?: string | null;
+  flight_terminal?: string | null;
+  flight_arrival_time?: string | null;
+  driver_birth_date?: string | null;
+  licence_issued_on?: string | null;
+  price_lines?: PriceLine[] | null;
+  customer_id?: number | null; // set by the database from the phone number
+  delivery_driver_email?: string | null;
+  block_override_reason?: string | null;
+}
+
 export interface BookingRequest {
+  id: string;
+  createdAt?: string;
   fullName: string;
   phone: string;
   carId: string;
   pickupDate: string;
   dropoffDate: string;
+  pickupTime?: string; // HH:mm, Africa/Casablanca
+  returnTime?: string;
   city: string;
+  totalPrice: number;
+  status: BookingStatus;
+  cancellationReason?: string;
+  statusUpdatedAt?: string;
+  unitId?: string;
+  couponCode?: string;
+  discountAmount?: number;
+  addons?: BookingAddon[];
+  insuranceTierId?: number;
+  insuranceName?: string;
+  depositAmount?: number;
+  flightNumber?: string;
+  flightTerminal?: string;
+  flightArrivalTime?: string; // HH:mm, scheduled arrival on the pickup date
+  driverBirthDate?: string;
+  licenceIssuedOn?: string;
+  priceLines?: PriceLine[]; // breakdown shown to the customer when requesting
+  customerId?: number;
+  deliveryDriverEmail?: string;
+  blockOverrideReason?: string; // why it was confirmed although the customer is blocked
+}
+
+export type CustomerTag = 'vip' | 'corporate';
+
+export interface Customer {
+  id: number;
+  created_at?: string;
+  full_name: string;
+  phone: string; // international digits, e.g. 212616925572
+  email: string | null;
+  notes: string | null;
+  tags: CustomerTag[];
+  is_blocked: boolean;
+  blocked_reason: string | null;
+}
+
+export type BookingDocumentKind = 'licence' | 'identity';
+
+export interface BookingDocument {
+  id: number;
+  uploaded_at: string;
+  booking_id: string;
+  kind: BookingDocumentKind;
+  storage_path: string; // inside the private customer-documents bucket
+  purge_after: string;
+}
+
+export type FuelLevel = 'empty' | 'quarter' | 'half' | 'three_quarters' | 'full';
+
+export interface RentalContract {
+  id: number;
+  created_at: string;
+  booking_id: string;
+  unit_id: number | null;
+  storage_path: string; // inside the private rental-contracts bucket
+  start_mileage: number;
+  fuel_level: FuelLevel;
+  id_document_number: string;
+  signed_at: string;
+}
+
+export type InspectionKind = 'check_out' | 'check_in';
+
+export interface DamagePoint {
+  id: string;
+  x: number; // percent of the diagram width
+  y: number; // percent of the diagram height
+  note: string;
+}
+
+export interface VehicleInspection {
+  id: number;
+  created_at: string;
+  booking_id: string;
+  unit_id: number | null;
+  kind: InspectionKind;
+  mileage: number;
+  fuel_level: FuelLevel;
+  damages: DamagePoint[];
+  photos: string[]; // paths inside the private inspection-photos bucket
+  notes: string | null;
+}
+
+export type DepositMethod = 'card_preauth' | 'cash';
+
+export type DepositStatus = 'held' | 'partially_retained' | 'retained' | 'released';
+
+export type RetentionCategory = 'damage' | 'fine' | 'fuel' | 'other';
+
+export interface DepositRetention {
+  id: number;
+  created_at: string;
+  deposit_id: number;
+  amount: number; // MAD kept from the deposit
+  category: RetentionCategory;
+  reason: string;
+  damage_id: string | null; // DamagePoint id from the check-in inspection
+}
+
+export interface BookingDeposit {
+  id: number;
+  created_at?: string;
+  booking_id: string;
+  amount: number; // MAD actually collected
+  method: DepositMethod;
+  status: DepositStatus;
+  collected_at: string;
+  released_at: string | null;
+  deposit_retentions: DepositRetention[];
+}
+
+export type StaffRole = 'owner' | 'manager' | 'agent' | 'driver';
+
+export type Permission = 'bookings.manage' | 'deliveries.view' | 'fleet.manage' | 'pricing.manage' | 'staff.manage';
+
+export interface StaffRoleDefinition {
+  role: StaffRole;
+  label: string;
+  permissions: Permission[];
+}
+
+export interface StaffMember {
+  email: string; // Supabase Auth login, lowercase
+  created_at?: string;
+  full_name: string | null;
+  role: StaffRole;
+}
+
+// Signed-in staff member with the permissions of their role
+export interface StaffProfile extends StaffMember {
+  permissions: Permission[];
+}
+
+export type VehicleUnitStatus = 'active' | 'maintenance' | 'retired';
+
+export interface SupabaseVehicleUnit {
+  id: number;
+  created_at?: string;
+  car_id: number;
+  plate_number: string;
+  year?: number | null;
+  mileage: number;
+  status: VehicleUnitStatus;
+}
+
+export interface UnitCounts {
+  active: number; // in service
+  registered: number; // any status, including maintenance and retired
+}
+
+export type MaintenanceKind = 'oil_change' | 'tyres' | 'brake_pads' | 'other';
+
+export interface UnitMaintenance {
+  id: number;
+  created_at?: string;
+  unit_id: number;
+  kind: MaintenanceKind;
+  description: string | null;
+  starts_on: string;
+  ends_on: string; // back in service that day
+  mileage: number | null;
+  cost: number | null; // MAD
+  next_due_on: string | null;
+  next_due_mileage: number | null;
+}
+
+export type ComplianceDocumentKind = 'insurance' | 'technical_inspection' | 'vignette' | 'registration';
+
+export interface ComplianceDocument {
+  id: number;
+  created_at?: string;
+  unit_id: number;
+  kind: ComplianceDocumentKind;
+  reference: string | null;
+  expires_on: string | null; // null when the paper doesn't expire
+}
+
+export type AuditTable = 'cars' | 'bookings' | 'promotions' | 'coupons';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+// Written by database triggers only, never from the app
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  actor_email: string | null; // null for changes made outside the app
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  changes: Record<string, AuditChange>;
 }
 
 export interface LocationFAQ {